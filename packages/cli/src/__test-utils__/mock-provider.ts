@@ -1,6 +1,12 @@
 import { vi } from 'vitest'
-import { Monorepo, Workspace } from '../core/model.js'
-import type { EnvironmentConfig, IProvider, ProviderOutput, ProviderPlan } from '../providers/index.js'
+import { Monorepo, Workspace, type WorkspaceInjection } from '../core/model.js'
+import type {
+  EnvironmentConfig,
+  IProvider,
+  ProviderOutput,
+  ProviderPlan,
+  SourceDeclarations,
+} from '../providers/index.js'
 import type { ChangeSummary } from '../providers/provider-plan.js'
 
 export class MockProvider implements IProvider {
@@ -14,6 +20,9 @@ export class MockProvider implements IProvider {
   getOutputs = vi.fn<IProvider['getOutputs']>((): Promise<ProviderOutput> => {
     throw new Error('Method not implemented.')
   })
+  getEnvOutputs = vi.fn<IProvider['getEnvOutputs']>((): Promise<ProviderOutput> => {
+    throw new Error('Method not implemented.')
+  })
   destroyPlan = vi.fn<IProvider['destroyPlan']>((_, __, ___, _options?): Promise<ProviderPlan> => {
     throw new Error('Method not implemented.')
   })
@@ -27,6 +36,9 @@ export class MockProvider implements IProvider {
   existsInFolder = vi.fn<IProvider['existsInFolder']>((): Promise<boolean> => {
     throw new Error('Method not implemented.')
   })
+  readDeclarations = vi.fn<IProvider['readDeclarations']>(
+    (): Promise<SourceDeclarations> => Promise.resolve({ inputs: undefined, outputs: undefined }),
+  )
   getDriftPlan = vi.fn<IProvider['getDriftPlan']>((): Promise<ProviderPlan> => {
     throw new Error('Method not implemented.')
   })
@@ -47,10 +59,11 @@ export class MockProvider implements IProvider {
 export function createWorkspace(
   name: string,
   dependsOn: string[] = [],
-  injections: Record<string, { workspace: string; key: string }> = {},
+  injections: Record<string, WorkspaceInjection> = {},
   envs: string[] = ['dev'],
   provider?: IProvider,
   rootVars: Record<string, string> = {},
+  tags: string[] = [],
 ): Workspace {
   const envConfig: Record<string, EnvironmentConfig> = envs.reduce(
     (acc, env) => ({ ...acc, [env]: {} }),
@@ -65,6 +78,7 @@ export function createWorkspace(
     dependsOn,
     envConfig,
     rootVars,
+    tags,
   )
 }
 
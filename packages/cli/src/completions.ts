@@ -5,7 +5,7 @@ _ig_completions() {
   COMPREPLY=()
   cur="\${COMP_WORDS[COMP_CWORD]}"
   prev="\${COMP_WORDS[COMP_CWORD-1]}"
-  commands="apply destroy plan ci drift refresh import export config env provider completion install-skill"
+  commands="apply destroy plan ci drift refresh output graph validate import export config env provider completion install-skill"
 
   case "\${prev}" in
     ig)
@@ -27,7 +27,7 @@ _ig_completions() {
   esac
 
   if [[ "\${cur}" == -* ]]; then
-    COMPREPLY=( $(compgen -W "--env --format --integration --approve --up-to-level --verbose --quiet --strict --directory --help --json --project --no-deps --detailed --refresh-only --start-with-project" -- "\${cur}") )
+    COMPREPLY=( $(compgen -W "--env --format --integration --approve --up-to-level --verbose --quiet --strict --parallelism --directory --help --json --project --no-deps --detailed --refresh-only --start-with-project --schedule --resume --out --select --changed-since --show-secrets --fresh --focus --envs --interactive --force" -- "\${cur}") )
   fi
 }
 complete -F _ig_completions ig
@@ -46,6 +46,9 @@ _ig() {
     'plan:Preview infrastructure changes without applying'
     'drift:Detect infrastructure drift'
     'refresh:Refresh infrastructure state'
+    'output:Print root or workspace outputs'
+    'graph:Print the workspace dependency graph'
+    'validate:Check the configuration for errors'
     'import:Import cloud resource into state'
     'export:Generate code for cloud resources'
     'config:Manage configuration'
@@ -60,6 +63,7 @@ _ig() {
     '(-v --verbose)'{-v,--verbose}'[Show verbose output]' \\
     '(-q --quiet)'{-q,--quiet}'[Show quiet output]' \\
     '--strict[Fail on most warnings]' \\
+    '--parallelism[Max provider processes at once]:n:' \\
     '(-d --directory)'{-d,--directory}'[Root directory]:dir:_directories' \\
     '1:command:->command' \\
     '*::arg:->args'
@@ -79,7 +83,12 @@ _ig() {
             '(-u --up-to-level)'{-u,--up-to-level}'[Stop after level N]:level:' \\
             '(-p --project)'{-p,--project}'[Project name]:project:' \\
             '--no-deps[Ignore dependencies]' \\
-            '--start-with-project[Skip levels before project]:project:'
+            '--start-with-project[Skip levels before project]:project:' \\
+            '--schedule[Scheduling mode]:mode:(levels dag)' \\
+            '--resume[Resume a failed or stopped run]::run-id:' \\
+            '*--select[Select workspaces]:expression:' \\
+            '--changed-since[Only workspaces changed since git ref]:ref:' \\
+            '1::plan bundle:_files'
           ;;
         plan)
           _arguments \\
@@ -88,7 +97,11 @@ _ig() {
             '(-p --project)'{-p,--project}'[Project name]:project:' \\
             '--no-deps[Ignore dependencies]' \\
             '--detailed[Show attribute-level diffs]' \\
-            '--start-with-project[Skip levels before project]:project:'
+            '--start-with-project[Skip levels before project]:project:' \\
+            '--schedule[Scheduling mode]:mode:(levels dag)' \\
+            '*--select[Select workspaces]:expression:' \\
+            '--changed-since[Only workspaces changed since git ref]:ref:' \\
+            '(-o --out)'{-o,--out}'[Save plans to a bundle]:file:_files'
           ;;
         drift)
           _arguments \\
@@ -97,14 +110,36 @@ _ig() {
             '(-p --project)'{-p,--project}'[Project name]:project:' \\
             '--no-deps[Ignore dependencies]' \\
             '(-j --json)'{-j,--json}'[JSON output]' \\
-            '--refresh-only[Only check infrastructure drift]'
+            '--refresh-only[Only check infrastructure drift]' \\
+            '*--select[Select workspaces]:expression:' \\
+            '--changed-since[Only workspaces changed since git ref]:ref:'
           ;;
         refresh)
           _arguments \\
             '(-e --env)'{-e,--env}'[Environment name]:env:' \\
             '(-f --format)'{-f,--format}'[Output format]:format:(default)' \\
             '(-p --project)'{-p,--project}'[Project name]:project:' \\
-            '--no-deps[Ignore dependencies]'
+            '--no-deps[Ignore dependencies]' \\
+            '*--select[Select workspaces]:expression:'
+          ;;
+        output)
+          _arguments \\
+            '(-e --env)'{-e,--env}'[Environment name]:env:' \\
+            '(-f --format)'{-f,--format}'[Output format]:format:(json dotenv tfvars yaml shell)' \\
+            '(-p --project)'{-p,--project}'[Project name]:project:' \\
+            '--show-secrets[Print secret values]' \\
+            '--fresh[Read outputs from the providers]' \\
+            '1::output name:'
+          ;;
+        graph)
+          _arguments \\
+            '(-e --env)'{-e,--env}'[Environment name]:env:' \\
+            '(-f --format)'{-f,--format}'[Graph format]:format:(dot mermaid json)' \\
+            '--focus[Project to focus on]:project:'
+          ;;
+        validate)
+          _arguments \\
+            '(-j --json)'{-j,--json}'[JSON output]'
           ;;
         import|export)
           _arguments \\
@@ -151,6 +186,9 @@ complete -c ig -n '__fish_use_subcommand' -a env -d 'Manage environments'
 complete -c ig -n '__fish_use_subcommand' -a provider -d 'Run provider CLI commands'
 complete -c ig -n '__fish_use_subcommand' -a drift -d 'Detect infrastructure drift'
 complete -c ig -n '__fish_use_subcommand' -a refresh -d 'Refresh infrastructure state'
+complete -c ig -n '__fish_use_subcommand' -a output -d 'Print root or workspace outputs'
+complete -c ig -n '__fish_use_subcommand' -a graph -d 'Print the workspace dependency graph'
+complete -c ig -n '__fish_use_subcommand' -a validate -d 'Check the configuration for errors'
 complete -c ig -n '__fish_use_subcommand' -a import -d 'Import cloud resource into state'
 complete -c ig -n '__fish_use_subcommand' -a export -d 'Generate code for cloud resources'
 complete -c ig -n '__fish_use_subcommand' -a completion -d 'Output shell completion script'
@@ -166,6 +204,10 @@ complete -c ig -n '__fish_seen_subcommand_from apply destroy' -s p -l project -d
 complete -c ig -n '__fish_seen_subcommand_from apply destroy' -l no-deps -d 'Ignore dependencies'
 complete -c ig -n '__fish_seen_subcommand_from apply destroy' -l start-with-project -d 'Skip levels before project' -r
 complete -c ig -n '__fish_seen_subcommand_from apply destroy' -s u -l up-to-level -d 'Stop after level N' -r
+complete -c ig -n '__fish_seen_subcommand_from apply destroy' -l schedule -d 'Scheduling mode' -r -a 'levels dag'
+complete -c ig -n '__fish_seen_subcommand_from apply destroy' -l resume -d 'Resume a failed or stopped run'
+complete -c ig -n '__fish_seen_subcommand_from apply destroy' -l select -d 'Select workspaces' -r
+complete -c ig -n '__fish_seen_subcommand_from apply' -l changed-since -d 'Only workspaces changed since git ref' -r
 
 # plan options
 complete -c ig -n '__fish_seen_subcommand_from plan' -s e -l env -d 'Environment name' -r
@@ -174,6 +216,10 @@ complete -c ig -n '__fish_seen_subcommand_from plan' -s p -l project -d 'Project
 complete -c ig -n '__fish_seen_subcommand_from plan' -l no-deps -d 'Ignore dependencies'
 complete -c ig -n '__fish_seen_subcommand_from plan' -l detailed -d 'Show attribute-level diffs'
 complete -c ig -n '__fish_seen_subcommand_from plan' -l start-with-project -d 'Skip levels before project' -r
+complete -c ig -n '__fish_seen_subcommand_from plan' -l schedule -d 'Scheduling mode' -r -a 'levels dag'
+complete -c ig -n '__fish_seen_subcommand_from plan' -s o -l out -d 'Save plans to a bundle' -r -F
+complete -c ig -n '__fish_seen_subcommand_from plan' -l select -d 'Select workspaces' -r
+complete -c ig -n '__fish_seen_subcommand_from plan' -l changed-since -d 'Only workspaces changed since git ref' -r
 
 # drift options
 complete -c ig -n '__fish_seen_subcommand_from drift' -s e -l env -d 'Environment name' -r
@@ -182,12 +228,30 @@ complete -c ig -n '__fish_seen_subcommand_from drift' -s p -l project -d 'Projec
 complete -c ig -n '__fish_seen_subcommand_from drift' -l no-deps -d 'Ignore dependencies'
 complete -c ig -n '__fish_seen_subcommand_from drift' -s j -l json -d 'JSON output'
 complete -c ig -n '__fish_seen_subcommand_from drift' -l refresh-only -d 'Only check infrastructure drift'
+complete -c ig -n '__fish_seen_subcommand_from drift' -l select -d 'Select workspaces' -r
+complete -c ig -n '__fish_seen_subcommand_from drift' -l changed-since -d 'Only workspaces changed since git ref' -r
 
 # refresh options
 complete -c ig -n '__fish_seen_subcommand_from refresh' -s e -l env -d 'Environment name' -r
 complete -c ig -n '__fish_seen_subcommand_from refresh' -s f -l format -d 'Output format' -r
 complete -c ig -n '__fish_seen_subcommand_from refresh' -s p -l project -d 'Project name' -r
 complete -c ig -n '__fish_seen_subcommand_from refresh' -l no-deps -d 'Ignore dependencies'
+complete -c ig -n '__fish_seen_subcommand_from refresh' -l select -d 'Select workspaces' -r
+
+# output options
+complete -c ig -n '__fish_seen_subcommand_from output' -s e -l env -d 'Environment name' -r
+complete -c ig -n '__fish_seen_subcommand_from output' -s f -l format -d 'Output format' -r -a 'json dotenv tfvars yaml shell'
+complete -c ig -n '__fish_seen_subcommand_from output' -s p -l project -d 'Project name' -r
+complete -c ig -n '__fish_seen_subcommand_from output' -l show-secrets -d 'Print secret values'
+complete -c ig -n '__fish_seen_subcommand_from output' -l fresh -d 'Read outputs from the providers'
+
+# graph options
+complete -c ig -n '__fish_seen_subcommand_from graph' -s e -l env -d 'Environment name' -r
+complete -c ig -n '__fish_seen_subcommand_from graph' -s f -l format -d 'Graph format' -r -a 'dot mermaid json'
+complete -c ig -n '__fish_seen_subcommand_from graph' -l focus -d 'Project to focus on' -r
+
+# validate options
+complete -c ig -n '__fish_seen_subcommand_from validate' -s j -l json -d 'JSON output'
 
 # import options
 complete -c ig -n '__fish_seen_subcommand_from import' -s e -l env -d 'Environment name' -r
@@ -205,6 +269,9 @@ complete -c ig -n '__fish_seen_subcommand_from env; and not __fish_seen_subcomma
 complete -c ig -n '__fish_seen_subcommand_from config; and not __fish_seen_subcommand_from init show' -a init -d 'Initialize configuration'
 complete -c ig -n '__fish_seen_subcommand_from config; and not __fish_seen_subcommand_from init show' -a show -d 'Show configuration'
 complete -c ig -n '__fish_seen_subcommand_from show' -s j -l json -d 'Output in JSON format'
+complete -c ig -n '__fish_seen_subcommand_from init' -l envs -d 'Comma-separated environments' -r
+complete -c ig -n '__fish_seen_subcommand_from init' -s i -l interactive -d 'Confirm each suggested injection'
+complete -c ig -n '__fish_seen_subcommand_from init' -l force -d 'Overwrite existing ig.yaml files'
 
 # completion shells
 complete -c ig -n '__fish_seen_subcommand_from completion' -a 'bash zsh fish'
@@ -213,6 +280,7 @@ complete -c ig -n '__fish_seen_subcommand_from completion' -a 'bash zsh fish'
 complete -c ig -s v -l verbose -d 'Show verbose output'
 complete -c ig -s q -l quiet -d 'Show quiet output'
 complete -c ig -l strict -d 'Fail on most warnings'
+complete -c ig -l parallelism -d 'Max provider processes at once' -r
 complete -c ig -s d -l directory -d 'Root directory' -r -a '(__fish_complete_directories)'
 `.trim()
 }
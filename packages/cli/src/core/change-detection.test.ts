@@ -0,0 +1,48 @@
+import { findChangedWorkspaces } from './change-detection.js'
+import { Monorepo, Workspace } from './model.js'
+import { MockProvider } from '../__test-utils__/mock-provider.js'
+
+describe('findChangedWorkspaces', () => {
+  const root = '/repo'
+
+  function workspace(name: string, path: string, envConfig: Record<string, unknown> = {}): Workspace {
+    return new Workspace(name, `${root}/${path}`, root, new MockProvider(), {}, [], { dev: envConfig })
+  }
+
+  const network = workspace('network', 'infra/network', { var_files: ['../shared/dev.tfvars'] })
+  const db = workspace('db', 'infra/db', { backend_file: 'backend-dev.hcl' })
+  const dbReplica = workspace('db-replica', 'infra/db/replica')
+  const repo = new Monorepo(root, [network, db, dbReplica], [], undefined)
+
+  function changed(...files: string[]) {
+    const result = findChangedWorkspaces(repo, 'dev', files)
+    return result === 'all' ? result : result.map((ws) => ws.name)
+  }
+
+  it('should select the workspace containing a changed file', () => {
+    expect(changed('/repo/infra/network/main.tf')).toEqual(['network'])
+  })
+
+  it('should select only the deepest workspace for nested directories', () => {
+    expect(changed('/repo/infra/db/replica/main.tf')).toEqual(['db-replica'])
+    expect(changed('/repo/infra/db/main.tf')).toEqual(['db'])
+  })
+
+  it('should not match workspaces by path prefix', () => {
+    expect(changed('/repo/infra/network-old/main.tf')).toEqual([])
+  })
+
+  it('should select workspaces referencing changed var and backend files', () => {
+    expect(changed('/repo/infra/shared/dev.tfvars')).toEqual(['network'])
+    expect(changed('/repo/infra/db/backend-dev.hcl', '/repo/README.md')).toEqual(['db'])
+  })
+
+  it('should select everything when the root config or env files changed', () => {
+    expect(changed('/repo/ig.yaml')).toBe('all')
+    expect(changed('/repo/.ig/.env.dev')).toBe('all')
+  })
+
+  it('should not treat workspace config files as root config', () => {
+    expect(changed('/repo/infra/network/ig.yaml')).toEqual(['network'])
+  })
+})
@@ -0,0 +1,45 @@
+import { basename, dirname, join, resolve, sep } from 'path'
+import type { Monorepo, Workspace } from './model.js'
+
+const ROOT_CONFIG_FILE_NAMES = ['ig.yaml', 'ig.yml']
+
+/**
+ * Workspaces affected by the changed files (absolute paths): the deepest workspace whose
+ * directory contains a file, and any workspace referencing the file as a `var_files` or
+ * `backend_file` entry of the environment. Returns 'all' when the root ig.yaml or one of the
+ * `.ig/.env*` files changed, since those affect every workspace.
+ */
+export function findChangedWorkspaces(monorepo: Monorepo, env: string, changedFiles: string[]): Workspace[] | 'all' {
+  const igDir = join(monorepo.path, '.ig')
+  const affectsAll = changedFiles.some(
+    (file) =>
+      (dirname(file) === monorepo.path && ROOT_CONFIG_FILE_NAMES.includes(basename(file))) ||
+      (dirname(file) === igDir && basename(file).startsWith('.env')),
+  )
+  if (affectsAll) {
+    return 'all'
+  }
+
+  const changed = new Set<Workspace>()
+  for (const file of changedFiles) {
+    const owner = monorepo.workspaces
+      .filter((ws) => file.startsWith(ws.path + sep))
+      .reduce<Workspace | null>(
+        (deepest, ws) => (!deepest || ws.path.length > deepest.path.length ? ws : deepest),
+        null,
+      )
+    if (owner) {
+      changed.add(owner)
+    }
+  }
+
+  for (const ws of monorepo.workspaces) {
+    const config = ws.envs[env]
+    const referenced = [...(config?.var_files ?? []), ...(config?.backend_file ? [config.backend_file] : [])]
+    if (referenced.some((file) => changedFiles.includes(resolve(ws.path, file)))) {
+      changed.add(ws)
+    }
+  }
+
+  return monorepo.workspaces.filter((ws) => changed.has(ws))
+}
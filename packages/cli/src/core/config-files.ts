@@ -3,6 +3,31 @@ import type { EnvironmentConfig } from '../providers'
 export interface VaultConfig {
   address?: string
   role?: string
+  namespace?: string
+  kv_version?: 1 | 2
+  auth?: VaultAuthConfig
+}
+
+export interface VaultAuthConfig {
+  method: 'approle' | 'kubernetes' | 'jwt' | 'token'
+  mount?: string
+  role?: string
+  role_id?: string
+  token_path?: string
+}
+
+type ResolverToggle<T> = boolean | ({ enabled?: boolean } & T)
+
+// resolvers of `${<scheme>:...}` references; all but cmd are enabled by default, vault once it is configured
+export interface ResolversConfig {
+  vault?: boolean
+  // `revoke: false` keeps the leases of dynamic secrets after the run
+  'vault-dynamic'?: ResolverToggle<{ revoke?: boolean }>
+  // `allow_outside_root: true` allows absolute paths and paths outside the root
+  file?: ResolverToggle<{ allow_outside_root?: boolean }>
+  // opt-in: any ig.yaml could otherwise run commands when the config is read
+  cmd?: ResolverToggle<{ timeout?: number }>
+  sops?: ResolverToggle<{ binary?: string; age_key_file?: string; allow_outside_root?: boolean }>
 }
 
 export interface MonorepoConfig {
@@ -10,15 +35,53 @@ export interface MonorepoConfig {
   output?: Record<string, string>
   vars?: Record<string, string>
   vault?: VaultConfig
+  resolvers?: ResolversConfig
+  // publishes root outputs, selected by name
+  publish?: PublishConfig
+  defaults?: WorkspaceDefaultsConfig
+  parallelism?: number
   [key: string]: unknown
 }
 
+// outputs written to a Vault KV path after a successful apply; `${ig.env}` in the path is the applied env
+export interface PublishTargetConfig {
+  vault: string
+  keys: string[]
+}
+
+export type PublishConfig = PublishTargetConfig | PublishTargetConfig[]
+
+// `'../workspace:output'`, or an object to exclude outputs from a `'../workspace:*'` wildcard
+export type InjectionConfig = string | { from: string; exclude?: string[] }
+
+// `'../workspace:output'` written to a temp file whose path is passed as a variable, or with `as: env` as an env var
+export type InjectionFileConfig = string | { from: string; as?: 'var' | 'env' }
+
+// envs.<env> of a workspace ig.yaml: provider settings, plus injection and depends_on merged over the top-level ones
+export interface WorkspaceEnvConfig extends EnvironmentConfig {
+  injection?: Record<string, InjectionConfig>
+  injection_files?: Record<string, InjectionFileConfig>
+  depends_on?: string[]
+  // another env of the same workspace this one starts from
+  extends?: string
+}
+
+// defaults: of the root ig.yaml, applied to every workspace before its own ig.yaml. Paths are relative to the root
+export interface WorkspaceDefaultsConfig {
+  provider?: string
+  depends_on?: string[]
+  envs?: Record<string, Omit<WorkspaceEnvConfig, 'injection' | 'injection_files' | 'depends_on'>>
+}
+
 export interface WorkspaceConfig {
   provider?: string
-  injection?: Record<string, string>
+  injection?: Record<string, InjectionConfig>
+  injection_files?: Record<string, InjectionFileConfig>
   output?: Record<string, string>
   depends_on?: string[]
-  envs?: Record<string, EnvironmentConfig>
+  envs?: Record<string, WorkspaceEnvConfig>
+  publish?: PublishConfig
   alias?: string
+  tags?: string[]
   [key: string]: unknown
 }
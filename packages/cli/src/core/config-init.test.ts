@@ -0,0 +1,103 @@
+import { mkdtemp, mkdir, writeFile, readFile, rm, realpath } from 'fs/promises'
+import { dirname, join } from 'path'
+import { tmpdir } from 'os'
+import { parse as parseYaml } from 'yaml'
+import { discoverWorkspaces, initConfig } from './config-init.js'
+
+describe('initConfig', () => {
+  let rootDir: string
+
+  async function writeFiles(files: Record<string, string>) {
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(rootDir, path)), { recursive: true })
+      await writeFile(join(rootDir, path), content)
+    }
+  }
+
+  async function readConfig(path: string) {
+    return parseYaml(await readFile(join(rootDir, path), 'utf-8'))
+  }
+
+  beforeEach(async () => {
+    rootDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-config-init-test-')))
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should write root and workspace configs with suggested injections', async () => {
+    await writeFiles({
+      'network/main.tf': 'output "vpc_id" {\n  value = "vpc-1"\n}\n',
+      'app/main.tf': 'variable "vpc_id" {}\nvariable "region" {}\n',
+    })
+    const written = await initConfig(rootDir, { envs: ['dev', 'prod'] })
+
+    expect(written).toEqual([join(rootDir, 'ig.yaml'), join(rootDir, 'app/ig.yaml'), join(rootDir, 'network/ig.yaml')])
+    expect(await readConfig('ig.yaml')).toEqual({ workspace: ['./*'] })
+    expect(await readConfig('app/ig.yaml')).toEqual({
+      injection: { vpc_id: '../network:vpc_id' },
+      envs: { dev: {}, prod: {} },
+    })
+    expect(await readConfig('network/ig.yaml')).toEqual({ envs: { dev: {}, prod: {} } })
+  })
+
+  it('should only keep ambiguous suggestions the user confirms', async () => {
+    await writeFiles({
+      'stacks/a/main.tf': 'output "vpc_id" {}\n',
+      'stacks/b/main.tf': 'output "vpc_id" {}\n',
+      'stacks/app/main.tf': 'variable "vpc_id" {}\n',
+    })
+
+    await initConfig(rootDir, { envs: ['dev'] })
+    expect(await readConfig('stacks/app/ig.yaml')).toEqual({ envs: { dev: {} } })
+
+    const confirm = vi.fn(async (message: string) => message.includes('stacks/b'))
+    await initConfig(rootDir, { envs: ['dev'], force: true, confirm })
+    expect(confirm).toHaveBeenCalledTimes(2)
+    expect(await readConfig('stacks/app/ig.yaml')).toEqual({ injection: { vpc_id: '../b:vpc_id' }, envs: { dev: {} } })
+  })
+
+  it('should not suggest injections closing a cycle', async () => {
+    await writeFiles({
+      'a/main.tf': 'output "x" {}\nvariable "y" {}\n',
+      'b/main.tf': 'output "y" {}\nvariable "x" {}\n',
+    })
+    await initConfig(rootDir, { envs: ['dev'] })
+    expect(await readConfig('a/ig.yaml')).toEqual({ injection: { y: '../b:y' }, envs: { dev: {} } })
+    expect(await readConfig('b/ig.yaml')).toEqual({ envs: { dev: {} } })
+  })
+
+  it('should refuse to overwrite an existing root config without force', async () => {
+    await writeFiles({ 'ig.yaml': "workspace: ['./app']\n", 'app/main.tf': '' })
+    await expect(initConfig(rootDir, { envs: ['dev'] })).rejects.toThrow('Pass --force to overwrite it')
+  })
+
+  it('should keep existing workspace configs without force', async () => {
+    await writeFiles({ 'app/main.tf': '', 'app/ig.yaml': 'alias: web\n', 'db/main.tf': '' })
+    await initConfig(rootDir, { envs: ['dev'] })
+    expect(await readConfig('app/ig.yaml')).toEqual({ alias: 'web' })
+    expect(await readConfig('db/ig.yaml')).toEqual({ envs: { dev: {} } })
+  })
+
+  it('should list partial folders workspace by workspace', async () => {
+    await writeFiles({ 'infra/app/main.tf': '', 'infra/docs/README.md': '', 'db/Pulumi.yaml': 'name: db\n' })
+    await initConfig(rootDir, { envs: ['dev'] })
+    expect(await readConfig('ig.yaml')).toEqual({ workspace: ['./db', './infra/app'] })
+  })
+})
+
+describe('discoverWorkspaces', () => {
+  it('should skip nested folders of a workspace and dependency folders', async () => {
+    const rootDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-config-init-test-')))
+    try {
+      for (const path of ['app/main.tf', 'app/nested/main.tf', 'node_modules/pkg/main.tf', '.terraform/main.tf']) {
+        await mkdir(dirname(join(rootDir, path)), { recursive: true })
+        await writeFile(join(rootDir, path), '')
+      }
+      expect((await discoverWorkspaces(rootDir)).map((x) => x.path)).toEqual(['app'])
+    } finally {
+      await rm(rootDir, { recursive: true, force: true })
+    }
+  })
+})
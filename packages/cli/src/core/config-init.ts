@@ -0,0 +1,174 @@
+import { readdir, writeFile } from 'fs/promises'
+import { basename, dirname, join, relative } from 'path'
+import { stringify as stringifyYaml } from 'yaml'
+import { providers, type IProvider, type SourceDeclarations } from '../providers/index.js'
+import { logger, UserError } from '../utils/index.js'
+import { readRawConfigFile } from './monorepo-reader.js'
+
+// dependency, tool and state folders, and reusable Terraform modules, are never workspace roots
+const SKIPPED_DIRS = new Set(['node_modules', 'modules', 'venv'])
+
+export interface DiscoveredWorkspace {
+  // relative to the monorepo root
+  path: string
+  provider: IProvider
+}
+
+// a Terraform variable named like an output of another workspace
+export interface InjectionSuggestion {
+  workspace: string
+  variable: string
+  source: string
+  output: string
+}
+
+export interface ConfigInitOptions {
+  envs: string[]
+  force?: boolean | undefined
+  // asks about each suggested injection; without it, only unambiguous suggestions are kept
+  confirm?: ((message: string) => Promise<boolean>) | undefined
+}
+
+/**
+ * Writes a root ig.yaml with globs for the Terraform and Pulumi roots found under rootPath, and an ig.yaml
+ * per workspace with starter envs and suggested injections. Returns the written files.
+ */
+export async function initConfig(rootPath: string, opts: ConfigInitOptions): Promise<string[]> {
+  const rootConfig = await readRawConfigFile(rootPath)
+  if (rootConfig && !opts.force) {
+    throw new UserError(`${rootConfig.path} already exists. Pass --force to overwrite it.`)
+  }
+
+  const workspaces = await discoverWorkspaces(rootPath)
+  if (workspaces.length === 0) {
+    throw new UserError(`No Terraform or Pulumi projects found in ${rootPath}`)
+  }
+
+  const injections = await selectInjections(await suggestInjections(rootPath, workspaces), opts.confirm)
+  const written: string[] = []
+
+  const rootFile = rootConfig?.path ?? join(rootPath, 'ig.yaml')
+  await writeFile(rootFile, toYaml({ workspace: await workspaceGlobs(rootPath, workspaces) }))
+  written.push(rootFile)
+
+  for (const ws of workspaces) {
+    const dir = join(rootPath, ws.path)
+    const existing = await readRawConfigFile(dir)
+    if (existing && !opts.force) {
+      logger.info(`Keeping existing ${relative(rootPath, existing.path)}`)
+      continue
+    }
+
+    const injection = Object.fromEntries(
+      injections
+        .filter((x) => x.workspace === ws.path)
+        .map((x) => [x.variable, `${relative(ws.path, x.source)}:${x.output}`]),
+    )
+    const config = {
+      ...(Object.keys(injection).length > 0 ? { injection } : {}),
+      envs: Object.fromEntries(opts.envs.map((env) => [env, {}])),
+    }
+    const file = existing?.path ?? join(dir, 'ig.yaml')
+    await writeFile(file, toYaml(config))
+    written.push(file)
+  }
+  return written
+}
+
+// Terraform and Pulumi roots, without looking into the folders of a root found
+export async function discoverWorkspaces(rootPath: string): Promise<DiscoveredWorkspace[]> {
+  const found: DiscoveredWorkspace[] = []
+  const walk = async (dir: string) => {
+    if (dir !== rootPath) {
+      for (const provider of providers) {
+        if (await provider.existsInFolder(dir)) {
+          found.push({ path: relative(rootPath, dir), provider })
+          return
+        }
+      }
+    }
+    const entries = await readdir(dir, { withFileTypes: true })
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+        await walk(join(dir, entry.name))
+      }
+    }
+  }
+  await walk(rootPath)
+  return found
+}
+
+export async function suggestInjections(
+  rootPath: string,
+  workspaces: DiscoveredWorkspace[],
+): Promise<InjectionSuggestion[]> {
+  const declarations = new Map<DiscoveredWorkspace, SourceDeclarations>()
+  for (const ws of workspaces) {
+    declarations.set(
+      ws,
+      await ws.provider
+        .readDeclarations(join(rootPath, ws.path))
+        .catch(() => ({ inputs: undefined, outputs: undefined })),
+    )
+  }
+
+  const suggestions: InjectionSuggestion[] = []
+  for (const ws of workspaces) {
+    for (const variable of declarations.get(ws)!.inputs ?? []) {
+      for (const source of workspaces) {
+        if (source !== ws && declarations.get(source)!.outputs?.includes(variable)) {
+          suggestions.push({ workspace: ws.path, variable, source: source.path, output: variable })
+        }
+      }
+    }
+  }
+  return suggestions
+}
+
+// one source per variable, never closing a dependency cycle
+async function selectInjections(
+  suggestions: InjectionSuggestion[],
+  confirm: ConfigInitOptions['confirm'],
+): Promise<InjectionSuggestion[]> {
+  const selected: InjectionSuggestion[] = []
+  const dependsOn = (from: string, to: string): boolean =>
+    from === to || selected.some((x) => x.workspace === from && dependsOn(x.source, to))
+
+  for (const suggestion of suggestions) {
+    const { workspace, variable, source, output } = suggestion
+    if (selected.some((x) => x.workspace === workspace && x.variable === variable) || dependsOn(source, workspace)) {
+      continue
+    }
+    const accepted = confirm
+      ? await confirm(`Inject output '${output}' of ${source} into variable '${variable}' of ${workspace}?`)
+      : suggestions.filter((x) => x.workspace === workspace && x.variable === variable).length === 1
+    if (accepted) {
+      selected.push(suggestion)
+    }
+  }
+  return selected
+}
+
+// `./parent/*` when every folder of a parent is a workspace, the workspace paths otherwise
+async function workspaceGlobs(rootPath: string, workspaces: DiscoveredWorkspace[]): Promise<string[]> {
+  const byParent = new Map<string, string[]>()
+  for (const ws of workspaces) {
+    byParent.set(dirname(ws.path), [...(byParent.get(dirname(ws.path)) ?? []), basename(ws.path)])
+  }
+
+  const globs: string[] = []
+  for (const [parent, names] of byParent) {
+    const entries = await readdir(join(rootPath, parent), { withFileTypes: true })
+    const folders = entries.filter((x) => x.isDirectory() && !x.name.startsWith('.')).map((x) => x.name)
+    if (names.length > 1 && folders.every((x) => names.includes(x))) {
+      globs.push(`./${join(parent, '*')}`)
+    } else {
+      globs.push(...names.map((name) => `./${join(parent, name)}`))
+    }
+  }
+  return globs
+}
+
+function toYaml(value: unknown): string {
+  return stringifyYaml(value, { defaultStringType: 'QUOTE_SINGLE', defaultKeyType: 'PLAIN' })
+}
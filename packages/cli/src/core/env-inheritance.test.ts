@@ -0,0 +1,88 @@
+import { resolveEnvInheritance } from './env-inheritance.js'
+
+describe('resolveEnvInheritance', () => {
+  it('should merge maps and append lists of the parent env', () => {
+    const envs = resolveEnvInheritance(
+      {
+        staging: {
+          backend_type: 's3',
+          backend_config: { bucket: 'state', key: 'staging' },
+          vars: { instance_count: '1', region: 'eu-west-1' },
+          env: { AWS_PROFILE: 'staging', AWS_REGION: 'eu-west-1' },
+          var_files: ['./common.tfvars', './staging.tfvars'],
+          injection: { vpc_id: '../network:vpc_id' },
+          injection_files: { KUBECONFIG: { from: '../cluster:kubeconfig', as: 'env' } },
+        },
+        prod: {
+          extends: 'staging',
+          injection_files: { ca_bundle: '../pki:ca_bundle' },
+          backend_config: { key: 'prod' },
+          vars: { instance_count: '3' },
+          env: { AWS_PROFILE: 'prod' },
+          var_files: ['./common.tfvars', './prod.tfvars'],
+          depends_on: ['../audit'],
+        },
+      },
+      '/repo/app',
+    )
+    expect(envs.prod).toEqual({
+      backend_type: 's3',
+      backend_config: { bucket: 'state', key: 'prod' },
+      vars: { instance_count: '3', region: 'eu-west-1' },
+      env: { AWS_PROFILE: 'prod', AWS_REGION: 'eu-west-1' },
+      var_files: ['./common.tfvars', './staging.tfvars', './prod.tfvars'],
+      injection: { vpc_id: '../network:vpc_id' },
+      injection_files: { KUBECONFIG: { from: '../cluster:kubeconfig', as: 'env' }, ca_bundle: '../pki:ca_bundle' },
+      depends_on: ['../audit'],
+    })
+    expect(envs.staging.vars).toEqual({ instance_count: '1', region: 'eu-west-1' })
+  })
+
+  it('should replace the inherited backend when the env declares the other kind', () => {
+    const envs = resolveEnvInheritance(
+      {
+        staging: { backend_type: 's3', backend_config: { bucket: 'state', key: 'staging' } },
+        prod: { extends: 'staging', backend_file: './envs/prod_backend.tf' },
+        qa: { backend_file: './envs/qa_backend.tf', vars: { a: '1' } },
+        'qa-eu': { extends: 'qa', backend_type: 'local', backend_config: { path: './qa-eu.tfstate' } },
+        'staging-eu': { extends: 'staging', backend_config: { key: 'staging-eu' } },
+      },
+      '/repo/app',
+    )
+    expect(envs.prod).toEqual({ backend_file: './envs/prod_backend.tf' })
+    expect(envs['qa-eu']).toEqual({
+      backend_type: 'local',
+      backend_config: { path: './qa-eu.tfstate' },
+      vars: { a: '1' },
+    })
+    expect(envs['staging-eu']).toEqual({ backend_type: 's3', backend_config: { bucket: 'state', key: 'staging-eu' } })
+  })
+
+  it('should resolve chains regardless of declaration order', () => {
+    const envs = resolveEnvInheritance(
+      {
+        prod: { extends: 'staging', vars: { c: '3' } },
+        staging: { extends: 'base', vars: { b: '2' } },
+        base: { vars: { a: '1', b: '1', c: '1' } },
+      },
+      '/repo/app',
+    )
+    expect(envs.prod).toEqual({ vars: { a: '1', b: '2', c: '3' } })
+    expect(envs).not.toHaveProperty('prod.extends')
+  })
+
+  it('should report unknown parents', () => {
+    expect(() => resolveEnvInheritance({ prod: { extends: 'stg' } }, '/repo/app')).toThrow(
+      "envs.prod extends unknown environment 'stg'",
+    )
+  })
+
+  it('should report cycles', () => {
+    expect(() =>
+      resolveEnvInheritance(
+        { a: { extends: 'b' }, b: { extends: 'c' }, c: { extends: 'a' }, d: { extends: 'a' } },
+        '/repo/app',
+      ),
+    ).toThrow('envs.a: environment inheritance cycle a -> b -> c -> a')
+  })
+})
@@ -0,0 +1,67 @@
+import { ConfigError } from '../utils/index.js'
+import type { WorkspaceEnvConfig } from './config-files.js'
+
+/**
+ * Resolves `envs.<env>.extends` of a workspace ig.yaml. An env starts from the resolved config of its
+ * parent: scalars (`backend_file`, `backend_type`) are replaced, maps (`vars`, `env`, `backend_config`, `injection`,
+ * `injection_files`) are merged key by key with the env's own entries winning, and lists (`var_files`, `depends_on`) are
+ * appended after the parent's, skipping entries the parent already has. Later var files take precedence,
+ * so an env's own files override the inherited ones. `backend_file` and `backend_type` + `backend_config` are
+ * one backend: an env declaring one of them does not inherit the other.
+ */
+export function resolveEnvInheritance(
+  envs: Record<string, WorkspaceEnvConfig>,
+  workspacePath: string,
+): Record<string, WorkspaceEnvConfig> {
+  const resolved = new Map<string, WorkspaceEnvConfig>()
+  const resolve = (env: string, chain: string[]): WorkspaceEnvConfig => {
+    const existing = resolved.get(env)
+    if (existing) {
+      return existing
+    }
+    if (chain.includes(env)) {
+      const cycle = [...chain.slice(chain.indexOf(env)), env].join(' -> ')
+      throw new ConfigError(`envs.${chain[0]}: environment inheritance cycle ${cycle}`, workspacePath)
+    }
+
+    const { extends: parent, ...config } = envs[env]
+    if (parent !== undefined && !Object.hasOwn(envs, parent)) {
+      throw new ConfigError(`envs.${env} extends unknown environment '${parent}'`, workspacePath)
+    }
+    const result = parent === undefined ? config : mergeEnvConfig(resolve(parent, [...chain, env]), config)
+    resolved.set(env, result)
+    return result
+  }
+
+  return Object.fromEntries(Object.keys(envs).map((env) => [env, resolve(env, [])]))
+}
+
+// `child` over `parent`, following the rules of resolveEnvInheritance
+export function mergeEnvConfig(parent: WorkspaceEnvConfig, child: WorkspaceEnvConfig): WorkspaceEnvConfig {
+  const merged: WorkspaceEnvConfig = { ...parent, ...child }
+  if (parent.vars && child.vars) merged.vars = { ...parent.vars, ...child.vars }
+  if (parent.env && child.env) merged.env = { ...parent.env, ...child.env }
+  // backend_file and backend_type + backend_config are one backend: declaring one side drops the inherited other side
+  const childFile = child.backend_file !== undefined
+  const childInline = child.backend_type !== undefined || child.backend_config !== undefined
+  if (childFile && !childInline) {
+    delete merged.backend_type
+    delete merged.backend_config
+  } else if (childInline && !childFile) {
+    delete merged.backend_file
+    if (parent.backend_config && child.backend_config) {
+      merged.backend_config = { ...parent.backend_config, ...child.backend_config }
+    }
+  }
+  if (parent.injection && child.injection) merged.injection = { ...parent.injection, ...child.injection }
+  if (parent.injection_files && child.injection_files) {
+    merged.injection_files = { ...parent.injection_files, ...child.injection_files }
+  }
+  if (parent.var_files && child.var_files) merged.var_files = appendUnique(parent.var_files, child.var_files)
+  if (parent.depends_on && child.depends_on) merged.depends_on = appendUnique(parent.depends_on, child.depends_on)
+  return merged
+}
+
+function appendUnique(parent: string[], child: string[]): string[] {
+  return [...parent, ...child.filter((x) => !parent.includes(x))]
+}
@@ -1,6 +1,7 @@
 export interface IGlobalConfig {
   strict: boolean
   disableStateOutputs: boolean
+  parallelism?: number | undefined
 }
 export const globalConfig: IGlobalConfig = {
   strict: false,
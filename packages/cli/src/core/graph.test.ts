@@ -0,0 +1,111 @@
+import { buildWorkspaceGraph, formatGraph, parseGraphFormat } from './graph.js'
+import { createMonorepo, createWorkspace } from '../__test-utils__/mock-provider.js'
+
+describe('buildWorkspaceGraph', () => {
+  const network = createWorkspace('network', [], {}, ['dev', 'prod'])
+  const dns = createWorkspace('dns', [], {}, ['shared'])
+  const db = createWorkspace(
+    'db',
+    [],
+    {
+      network_id: { workspace: 'network', key: 'id' },
+      net_: { workspace: 'network', key: '*' },
+      zone_id: { workspace: 'dns', key: 'zone_id', env: 'shared' },
+    },
+    ['dev', 'prod'],
+  )
+  const app = createWorkspace('app', ['network'], { db_host: { workspace: 'db', key: 'host' } }, ['dev'])
+  const monorepo = createMonorepo([network, dns, db, app])
+
+  it('should group workspaces by level and label edges with injected keys', () => {
+    const graph = buildWorkspaceGraph(monorepo, { env: 'dev' })
+    expect(graph.levels).toEqual([['network'], ['db'], ['app']])
+    expect(graph.edges).toEqual([
+      { from: 'network', to: 'db', keys: ['network_id', 'net_*'] },
+      { from: 'db', to: 'app', keys: ['db_host'] },
+      { from: 'network', to: 'app', keys: [] },
+    ])
+  })
+
+  it('should only include workspaces that have the env', () => {
+    expect(buildWorkspaceGraph(monorepo, { env: 'prod' }).levels).toEqual([['network'], ['db']])
+  })
+
+  it('should include every workspace without an env', () => {
+    expect(buildWorkspaceGraph(monorepo).levels).toEqual([['network', 'dns'], ['db'], ['app']])
+  })
+
+  it('should limit the graph to the transitive neighbourhood of the focus workspace', () => {
+    const cache = createWorkspace('cache', ['network'])
+    const graph = buildWorkspaceGraph(createMonorepo([network, db, app, cache]), { env: 'dev', focus: db })
+    expect(graph.nodes.map((x) => x.name)).toEqual(['network', 'db', 'app'])
+  })
+
+  it('should fail when no workspace has the env', () => {
+    expect(() => buildWorkspaceGraph(monorepo, { env: 'staging' })).toThrow('No workspaces have environment staging')
+  })
+})
+
+describe('formatGraph', () => {
+  const network = createWorkspace('network')
+  const app = createWorkspace('app', ['audit'], { vpc_id: { workspace: 'network', key: 'vpc_id' } })
+  const audit = createWorkspace('audit')
+  const graph = buildWorkspaceGraph(createMonorepo([network, audit, app]), { env: 'dev' })
+
+  it('should format Graphviz DOT', () => {
+    expect(formatGraph(graph, 'dot')).toBe(
+      [
+        'digraph workspaces {',
+        '  rankdir=LR;',
+        '  node [shape=box];',
+        '  subgraph cluster_level_1 {',
+        '    label="Level 1";',
+        '    "network";',
+        '    "audit";',
+        '  }',
+        '  subgraph cluster_level_2 {',
+        '    label="Level 2";',
+        '    "app";',
+        '  }',
+        '  "network" -> "app" [label="vpc_id"];',
+        '  "audit" -> "app" [style=dashed];',
+        '}',
+      ].join('\n'),
+    )
+  })
+
+  it('should format Mermaid', () => {
+    expect(formatGraph(graph, 'mermaid')).toBe(
+      [
+        'flowchart LR',
+        '  subgraph level_1["Level 1"]',
+        '    ws0["network"]',
+        '    ws1["audit"]',
+        '  end',
+        '  subgraph level_2["Level 2"]',
+        '    ws2["app"]',
+        '  end',
+        '  ws0 -->|"vpc_id"| ws2',
+        '  ws1 -.-> ws2',
+      ].join('\n'),
+    )
+  })
+
+  it('should format JSON', () => {
+    expect(JSON.parse(formatGraph(graph, 'json'))).toMatchObject({
+      env: 'dev',
+      nodes: [
+        { name: 'network', level: 1 },
+        { name: 'audit', level: 1 },
+        { name: 'app', level: 2 },
+      ],
+    })
+  })
+})
+
+describe('parseGraphFormat', () => {
+  it('should reject unknown formats', () => {
+    expect(parseGraphFormat('mermaid')).toBe('mermaid')
+    expect(() => parseGraphFormat('svg')).toThrow('Invalid graph format: "svg"')
+  })
+})
@@ -0,0 +1,143 @@
+import { relative } from 'path'
+import { sortGraphNodesByLevels, UserError } from '../utils/index.js'
+import { ALL_OUTPUTS, type Monorepo, type Workspace, type WorkspaceInjection } from './model.js'
+
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const
+export type GraphFormat = (typeof GRAPH_FORMATS)[number]
+
+export interface GraphNode {
+  name: string
+  path: string
+  provider: string
+  tags: string[]
+  level: number
+}
+
+// from the upstream workspace to the one it feeds; a dependency without injections has no keys
+export interface GraphEdge {
+  from: string
+  to: string
+  keys: string[]
+}
+
+export interface WorkspaceGraph {
+  env: string | undefined
+  levels: string[][]
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+/**
+ * The workspace dependency graph, grouped by execution level. With an env, only workspaces that have it
+ * and the edges of that env; without one, every workspace and the edges of every env.
+ * With a focus workspace, only its transitive dependencies and dependants.
+ */
+export function buildWorkspaceGraph(
+  monorepo: Monorepo,
+  opts?: { env?: string | undefined; focus?: Workspace | undefined },
+): WorkspaceGraph {
+  const env = opts?.env
+  let workspaces = env === undefined ? monorepo.workspaces : monorepo.workspaces.filter((ws) => ws.hasEnv(env))
+  if (env !== undefined && workspaces.length === 0) {
+    throw new UserError(`No workspaces have environment ${env}`)
+  }
+  if (opts?.focus) {
+    const focus = opts.focus
+    if (!workspaces.includes(focus)) {
+      throw new UserError(`Workspace ${focus.name} doesn't contain environment ${env}`)
+    }
+    const neighbourhood = new Set([
+      focus,
+      ...monorepo.getTransitiveDependencies(focus, env),
+      ...monorepo.getTransitiveDependants(focus, env),
+    ])
+    workspaces = workspaces.filter((ws) => neighbourhood.has(ws))
+  }
+
+  const dependencies = (ws: Workspace) => monorepo.getDependencies(ws, env).filter((x) => workspaces.includes(x))
+  const levels = sortGraphNodesByLevels(workspaces, dependencies)
+  const levelOf = new Map(levels.flatMap((level, i) => level.map((ws): [Workspace, number] => [ws, i + 1])))
+
+  const nodes = workspaces.map((ws) => ({
+    name: ws.name,
+    path: relative(monorepo.path, ws.path) || '.',
+    provider: ws.providerName,
+    tags: ws.tags,
+    level: levelOf.get(ws)!,
+  }))
+
+  const edges: GraphEdge[] = []
+  for (const ws of workspaces) {
+    const injections = injectionsOf(ws, env)
+    for (const dependency of dependencies(ws)) {
+      const keys = Object.entries(injections)
+        .filter(([, injection]) => dependency.matchKey(injection.workspace))
+        .map(([key, injection]) => (injection.key === ALL_OUTPUTS ? `${key === ALL_OUTPUTS ? '' : key}*` : key))
+      edges.push({ from: dependency.name, to: ws.name, keys: [...new Set(keys)] })
+    }
+  }
+
+  return { env, levels: levels.map((level) => level.map((ws) => ws.name)), nodes, edges }
+}
+
+export function parseGraphFormat(value: string): GraphFormat {
+  if (!(GRAPH_FORMATS as readonly string[]).includes(value)) {
+    throw new UserError(`Invalid graph format: "${value}". Must be one of: ${GRAPH_FORMATS.join(', ')}.`)
+  }
+  return value as GraphFormat
+}
+
+export function formatGraph(graph: WorkspaceGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(graph, null, 2)
+    case 'dot':
+      return formatDot(graph)
+    case 'mermaid':
+      return formatMermaid(graph)
+  }
+}
+
+// injections that are edges of the graph: of the env, or of every env; cross-env injections are not edges
+function injectionsOf(ws: Workspace, env: string | undefined): Record<string, WorkspaceInjection> {
+  const injections =
+    env === undefined
+      ? Object.assign({}, ws.injections, ...Object.values(ws.envDependencies).map((x) => x.injections))
+      : ws.injectionsFor(env)
+  return Object.fromEntries(
+    Object.entries(injections as Record<string, WorkspaceInjection>).filter(
+      ([, x]) => x.env === undefined || x.env === env,
+    ),
+  )
+}
+
+function formatDot(graph: WorkspaceGraph): string {
+  const quote = (value: string) => JSON.stringify(value)
+  const lines = ['digraph workspaces {', '  rankdir=LR;', '  node [shape=box];']
+  graph.levels.forEach((level, i) => {
+    lines.push(`  subgraph cluster_level_${i + 1} {`, `    label=${quote(`Level ${i + 1}`)};`)
+    lines.push(...level.map((name) => `    ${quote(name)};`), '  }')
+  })
+  for (const edge of graph.edges) {
+    const attributes = edge.keys.length > 0 ? `label=${quote(edge.keys.join('\n'))}` : 'style=dashed'
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes}];`)
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+function formatMermaid(graph: WorkspaceGraph): string {
+  // mermaid ids must be plain identifiers, workspace names go into labels
+  const ids = new Map(graph.nodes.map((node, i) => [node.name, `ws${i}`]))
+  const text = (value: string) => `"${value.replace(/"/g, '#quot;')}"`
+  const lines = ['flowchart LR']
+  graph.levels.forEach((level, i) => {
+    lines.push(`  subgraph level_${i + 1}[${text(`Level ${i + 1}`)}]`)
+    lines.push(...level.map((name) => `    ${ids.get(name)}[${text(name)}]`), '  end')
+  })
+  for (const edge of graph.edges) {
+    const arrow = edge.keys.length > 0 ? `-->|${text(edge.keys.join(', '))}|` : '-.->'
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`)
+  }
+  return lines.join('\n')
+}
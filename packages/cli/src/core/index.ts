@@ -7,3 +7,11 @@ export * from './global-config.js'
 export * from './workspace-interop.js'
 export * from './schemas.js'
 export * from './plan-diff.js'
+export * from './plan-bundle.js'
+export * from './workspace-selector.js'
+export * from './change-detection.js'
+export * from './output-path.js'
+export * from './outputs.js'
+export * from './graph.js'
+export * from './validator.js'
+export * from './config-init.js'
@@ -1,14 +1,57 @@
-import { AppliedWorkspace, ExecutionContext, ExecutionPlanBuilder, Monorepo } from './model.js'
-import { createMonorepo, createWorkspace } from '../__test-utils__/mock-provider.js'
+import { mkdtemp, readFile, realpath, rm, stat } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { AppliedWorkspace, ExecutionContext, ExecutionPlanBuilder, Monorepo, Workspace } from './model.js'
+import { WorkspaceSelector } from './workspace-selector.js'
+import { removeRunTempFiles } from './state-manager.js'
+import { createMonorepo, createWorkspace, MockProvider } from '../__test-utils__/mock-provider.js'
 
 describe('Workspace', () => {
   it('should calculate allDependsOn correctly', () => {
     const ws = createWorkspace('ws1', ['dep1'], {
       inj1: { workspace: 'dep2', key: 'output1' },
     })
-    expect(ws.allDependsOn).toContain('dep1')
-    expect(ws.allDependsOn).toContain('dep2')
-    expect(ws.allDependsOn).toHaveLength(2)
+    expect(ws.allDependsOn()).toContain('dep1')
+    expect(ws.allDependsOn()).toContain('dep2')
+    expect(ws.allDependsOn()).toHaveLength(2)
+  })
+
+  describe('with env dependencies', () => {
+    const ws = new Workspace(
+      'app',
+      '/path/to/app',
+      '/path/to/monorepo',
+      new MockProvider(),
+      { vpc_id: { workspace: 'network', key: 'vpc_id' } },
+      ['dns'],
+      { dev: {}, prod: {} },
+      {},
+      [],
+      { prod: { injections: { vpc_id: { workspace: 'shared-network', key: 'vpc_id' } }, dependsOn: ['audit'] } },
+    )
+
+    it('should merge env injections over top-level ones', () => {
+      expect(ws.injectionsFor('dev')).toEqual({ vpc_id: { workspace: 'network', key: 'vpc_id' } })
+      expect(ws.injectionsFor('prod')).toEqual({ vpc_id: { workspace: 'shared-network', key: 'vpc_id' } })
+    })
+
+    it('should compute dependencies for the env', () => {
+      expect(ws.allDependsOn('dev')).toEqual(['network', 'dns'])
+      expect(ws.allDependsOn('prod')).toEqual(['shared-network', 'dns', 'audit'])
+    })
+
+    it('should include dependencies of every env without one', () => {
+      expect(ws.allDependsOn()).toEqual(['network', 'shared-network', 'dns', 'audit'])
+    })
+  })
+
+  it('should not depend on workspaces injected from another env', () => {
+    const ws = createWorkspace('ws1', [], {
+      zone_id: { workspace: 'dns', key: 'zone_id', env: 'shared' },
+      vpc_id: { workspace: 'network', key: 'vpc_id' },
+    })
+    expect(ws.allDependsOn('dev')).toEqual(['network'])
+    expect(ws.allDependsOn('shared')).toEqual(['dns', 'network'])
   })
 
   it('should match key by name or path', () => {
@@ -165,6 +208,96 @@ describe('ExecutionContext', () => {
     )
   })
 
+  it('should resolve paths into structured outputs', async () => {
+    const db = { connection: { host: 'db.local', port: 5432 } }
+    ctx.storeWorkspaceOutputs(ws2, { db: { value: JSON.stringify(db), secret: true, json: db } })
+    const wsWithPathInj = createWorkspace('wsWithPathInj', [], {
+      host: { workspace: 'ws2', key: 'db', path: ['connection', 'host'] },
+      port: { workspace: 'ws2', key: 'db', path: ['connection', 'port'] },
+    })
+    expect(await ctx.getInputs(wsWithPathInj)).toEqual({
+      host: { value: 'db.local', secret: true },
+      port: { value: '5432', secret: true, json: 5432 },
+    })
+  })
+
+  it('should throw error if injection path does not resolve', async () => {
+    const wsWithBadPath = createWorkspace('wsWithBadPath', [], {
+      user: { workspace: 'ws2', key: 'db', path: ['connection', 'user'] },
+    })
+    await expect(ctx.getInputs(wsWithBadPath)).rejects.toThrow(
+      "Value to inject db.connection.user from workspace ws2 cannot be resolved: 'db.connection' has no key 'user'",
+    )
+  })
+
+  it('should read cross-env inputs once through the provider, apart from the selected env', async () => {
+    const provider = new MockProvider()
+    provider.getEnvOutputs.mockResolvedValue({ zone_id: { value: 'shared-zone', secret: false } })
+    const dns = createWorkspace('dns', [], {}, ['dev', 'shared'], provider)
+    const crossEnvCtx = new ExecutionContext(
+      new Monorepo('/root', [dns], [], undefined),
+      undefined,
+      false,
+      false,
+      'dev',
+    )
+    crossEnvCtx.storeWorkspaceOutputs(dns, { zone_id: { value: 'dev-zone', secret: false } })
+    const app = createWorkspace('app', [], { zone_id: { workspace: 'dns', key: 'zone_id', env: 'shared' } })
+
+    expect(await crossEnvCtx.getInputs(app)).toEqual({ zone_id: { value: 'shared-zone', secret: false } })
+    expect(await crossEnvCtx.getInputs(app)).toEqual({ zone_id: { value: 'shared-zone', secret: false } })
+    expect(provider.getEnvOutputs).toHaveBeenCalledOnce()
+    expect(provider.getEnvOutputs).toHaveBeenCalledWith(expect.objectContaining({ alias: 'dns' }), 'shared')
+  })
+
+  describe('with wildcard injections', () => {
+    const postgres = createWorkspace('postgres')
+    const redis = createWorkspace('redis')
+    const wildcardRepo = new Monorepo('/root', [postgres, redis], [], undefined)
+    const wildcardCtx = new ExecutionContext(wildcardRepo, undefined, false, false, 'dev')
+    wildcardCtx.storeWorkspaceOutputs(postgres, {
+      host: { value: 'db.local', secret: false },
+      password: { value: 'p', secret: true },
+    })
+    wildcardCtx.storeWorkspaceOutputs(redis, { host: { value: 'cache.local', secret: false } })
+
+    it('should inject every output, with an optional prefix', async () => {
+      const service = createWorkspace('service', [], {
+        '*': { workspace: 'postgres', key: '*' },
+        cache_: { workspace: 'redis', key: '*' },
+      })
+      expect(await wildcardCtx.getInputs(service)).toEqual({
+        host: { value: 'db.local', secret: false },
+        password: { value: 'p', secret: true },
+        cache_host: { value: 'cache.local', secret: false },
+      })
+    })
+
+    it('should leave out excluded outputs and let explicit injections win', async () => {
+      const service = createWorkspace('service', [], {
+        host: { workspace: 'redis', key: 'host' },
+        '*': { workspace: 'postgres', key: '*', exclude: ['password'] },
+      })
+      expect(await wildcardCtx.getInputs(service)).toEqual({ host: { value: 'cache.local', secret: false } })
+    })
+
+    it('should throw when two wildcards inject the same input', async () => {
+      wildcardCtx.storeWorkspaceOutputs(redis, { db_host: { value: 'other.local', secret: false } })
+      const service = createWorkspace('service', [], {
+        '*': { workspace: 'redis', key: '*' },
+        db_: { workspace: 'postgres', key: '*' },
+      })
+      await expect(wildcardCtx.getInputs(service)).rejects.toThrow(
+        "Input db_host of workspace service is injected by both '*' and 'db_'",
+      )
+    })
+
+    it('should count wildcard injections as dependencies', () => {
+      const service = createWorkspace('service', [], { '*': { workspace: 'postgres', key: '*' } })
+      expect(service.allDependsOn()).toEqual(['postgres'])
+    })
+  })
+
   it('should use placeholder inputs when bestEffort is true and injection value not found', async () => {
     const ws2WithMissingInj = createWorkspace('ws2WithMissingInj', [], {
       input1: { workspace: 'ws1', key: 'missing' },
@@ -173,6 +306,64 @@ describe('ExecutionContext', () => {
     expect(inputs).toEqual({ input1: { value: '', secret: false } })
   })
 
+  describe('with injection files', () => {
+    let rootDir: string
+
+    beforeEach(async () => {
+      rootDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-injection-files-test-')))
+    })
+
+    afterEach(async () => {
+      await rm(rootDir, { recursive: true, force: true })
+    })
+
+    function setup() {
+      const cluster = new Workspace('cluster', join(rootDir, 'cluster'), rootDir, new MockProvider(), {}, [], {
+        dev: {},
+      })
+      const app = new Workspace(
+        'app',
+        join(rootDir, 'app'),
+        rootDir,
+        new MockProvider(),
+        {
+          kubeconfig_path: { workspace: 'cluster', key: 'kubeconfig', file: 'var' },
+          KUBECONFIG: { workspace: 'cluster', key: 'kubeconfig', file: 'env' },
+        },
+        [],
+        { dev: {} },
+      )
+      const fileCtx = new ExecutionContext(
+        new Monorepo(rootDir, [cluster, app], [], undefined),
+        undefined,
+        false,
+        false,
+        'dev',
+      )
+      fileCtx.storeWorkspaceOutputs(cluster, { kubeconfig: { value: 'apiVersion: v1', secret: true } })
+      return { app, fileCtx }
+    }
+
+    it('should write outputs to private temp files and pass their paths', async () => {
+      const { app, fileCtx } = setup()
+      const path = join(rootDir, '.ig', '.temp', 'app', 'injected-kubeconfig_path')
+
+      expect(await fileCtx.getInputs(app)).toEqual({ kubeconfig_path: { value: path, secret: false } })
+      expect(await readFile(path, 'utf-8')).toBe('apiVersion: v1')
+      expect((await stat(path)).mode & 0o777).toBe(0o600)
+      expect(await readFile(app.injectionFilePath('KUBECONFIG'), 'utf-8')).toBe('apiVersion: v1')
+    })
+
+    it('should remove the files when the run ends', async () => {
+      const { app, fileCtx } = setup()
+      await fileCtx.getInputs(app)
+
+      await removeRunTempFiles()
+      await expect(stat(app.injectionFilePath('kubeconfig_path'))).rejects.toThrow('ENOENT')
+      await expect(stat(app.injectionFilePath('KUBECONFIG'))).rejects.toThrow('ENOENT')
+    })
+  })
+
   it('should store applied workspace', () => {
     ctx.storeWorkspaceOutputs(ws2, { out2: { value: 'val2', secret: false } })
     expect(ctx.workspaceOutputs).toHaveLength(2)
@@ -288,4 +479,118 @@ describe('ExecutionPlanBuilder', () => {
 
     expect(() => builder.build()).toThrow('Workspace WithDep has unresolved dependency NoEnv in environment dev')
   })
+  describe('with a selector', () => {
+    const network = createWorkspace('network', [], {}, ['dev'], undefined, {}, ['infra'])
+    const db = createWorkspace('db', ['network'], {}, ['dev'], undefined, {}, ['data'])
+    const cache = createWorkspace('cache', ['network'], {}, ['dev'], undefined, {}, ['data', 'legacy'])
+    const app = createWorkspace('app', ['db'], {}, ['dev'])
+    const repo = new Monorepo('/root', [network, db, cache, app], [], undefined)
+
+    function planned(select: string, opts: { ignoreDependencies?: boolean; isDestroy?: boolean } = {}) {
+      const ctx = new ExecutionContext(
+        repo,
+        undefined,
+        opts.ignoreDependencies ?? false,
+        opts.isDestroy ?? false,
+        'dev',
+        undefined,
+        WorkspaceSelector.parse([select]),
+      )
+      return new ExecutionPlanBuilder(ctx)
+        .build()
+        .levels.flatMap((l) => l.workspaces)
+        .map((ws) => ws.name)
+    }
+
+    it('should include dependencies of selected workspaces', () => {
+      expect(planned('tag=data,!tag=legacy')).toEqual(['network', 'db'])
+    })
+
+    it('should include dependants of selected workspaces for destroy', () => {
+      expect(planned('name=db', { isDestroy: true })).toEqual(['app', 'db'])
+    })
+
+    it('should select only matching workspaces when dependencies are ignored', () => {
+      expect(planned('tag=data', { ignoreDependencies: true })).toEqual(['db', 'cache'])
+    })
+
+    it('should throw when nothing matches', () => {
+      expect(() => planned('tag=missing')).toThrow('No workspaces match --select tag=missing')
+    })
+  })
+
+  it('should build the graph of the selected env', () => {
+    const network = createWorkspace('network', [], {}, ['dev', 'prod'])
+    const sharedNetwork = createWorkspace('shared-network', [], {}, ['dev', 'prod'])
+    const app = new Workspace(
+      'app',
+      '/path/to/app',
+      '/path/to/monorepo',
+      new MockProvider(),
+      { vpc_id: { workspace: 'network', key: 'vpc_id' } },
+      [],
+      { dev: {}, prod: {} },
+      {},
+      [],
+      { prod: { injections: { vpc_id: { workspace: 'shared-network', key: 'vpc_id' } }, dependsOn: [] } },
+    )
+    const repo = new Monorepo('/root', [network, sharedNetwork, app], [], undefined)
+
+    const planned = (env: string) =>
+      new ExecutionPlanBuilder(new ExecutionContext(repo, app, false, false, env))
+        .build()
+        .levels.map((l) => l.workspaces.map((ws) => ws.name))
+
+    expect(planned('dev')).toEqual([['network'], ['app']])
+    expect(planned('prod')).toEqual([['shared-network'], ['app']])
+  })
+
+  describe('with changed workspaces', () => {
+    const network = createWorkspace('network')
+    const db = createWorkspace('db', ['network'])
+    const cache = createWorkspace('cache', ['network'])
+    const app = createWorkspace('app', ['db'])
+    const repo = new Monorepo('/root', [network, db, cache, app], [], undefined)
+
+    function planned(changed: Workspace[], ignoreDependencies = false) {
+      const ctx = new ExecutionContext(repo, undefined, ignoreDependencies, false, 'dev', undefined, undefined, changed)
+      return new ExecutionPlanBuilder(ctx)
+        .build()
+        .levels.flatMap((l) => l.workspaces)
+        .map((ws) => ws.name)
+    }
+
+    it('should include transitive dependants of changed workspaces', () => {
+      expect(planned([db])).toEqual(['db', 'app'])
+      expect(planned([network])).toEqual(['network', 'db', 'cache', 'app'])
+    })
+
+    it('should only include changed workspaces when dependencies are ignored', () => {
+      expect(planned([db], true)).toEqual(['db'])
+    })
+
+    it('should plan nothing when no workspace changed', () => {
+      expect(planned([])).toEqual([])
+    })
+
+    it('should not wait for unchanged upstream workspaces', () => {
+      const ctx = new ExecutionContext(repo, undefined, false, false, 'dev', undefined, undefined, [db])
+      expect(new ExecutionPlanBuilder(ctx).build().dependenciesOf(db)).toEqual([])
+    })
+
+    it('should keep every dependency without --changed-since', () => {
+      const selected = new ExecutionContext(
+        repo,
+        undefined,
+        false,
+        false,
+        'dev',
+        undefined,
+        WorkspaceSelector.parse(['name=db']),
+      )
+      expect(new ExecutionPlanBuilder(selected).build().dependenciesOf(db)).toEqual([network])
+      const project = new ExecutionContext(repo, app, false, false, 'dev')
+      expect(new ExecutionPlanBuilder(project).build().dependenciesOf(app)).toEqual([db])
+    })
+  })
 })
@@ -1,11 +1,16 @@
 // global monorepo context, no workspace is selected
 import type { EnvironmentConfig, IProvider, OutputValue, ProviderInput, ProviderOutput } from '../providers/index.js'
-import { logger, sortGraphNodesByLevels } from '../utils/index.js'
-import type { MonorepoConfig } from './config-files.js'
+import { logger, sortGraphNodesByLevels, UserError, type SecretResolvers, type VaultClient } from '../utils/index.js'
+import type { MonorepoConfig, PublishTargetConfig } from './config-files.js'
 import { WorkspaceInterop } from './workspace-interop.js'
+import { StateManager } from './state-manager.js'
+import type { WorkspaceSelector } from './workspace-selector.js'
+import { formatOutputSelector, resolveOutputPath, type OutputPath } from './output-path.js'
 
 export class ExecutionContext {
   public readonly workspaceOutputs: AppliedWorkspace[] = []
+  // outputs read for cross-env injections by `<workspace>@<env>`, so each is read once per run
+  private readonly crossEnvOutputs = new Map<string, Promise<ProviderOutput>>()
   public constructor(
     public readonly monorepo: Monorepo,
     public readonly currentWorkspace: Workspace | undefined,
@@ -13,6 +18,9 @@ export class ExecutionContext {
     public readonly isDestroy: boolean,
     public readonly env: string,
     public readonly startWithWorkspace?: Workspace | undefined,
+    public readonly selector?: WorkspaceSelector | undefined,
+    // set by --changed-since: workspaces changed since a git ref, run together with their dependants
+    public readonly changedWorkspaces?: Workspace[] | undefined,
   ) {}
 
   public interop(workspace: Workspace): WorkspaceInterop {
@@ -30,62 +38,113 @@ export class ExecutionContext {
 
   public async getInputs(workspace: Workspace, opts?: { bestEffort?: boolean }): Promise<ProviderInput> {
     const inputs: ProviderInput = {}
-
-    for (const injectionKey in workspace.injections) {
-      const injection = workspace.injections[injectionKey]
+    // inputs added by wildcard injections, by the injection that added them
+    const wildcardInputs = new Map<string, string>()
+
+    // wildcard injections go first, so that explicit injections override the outputs they add
+    const injections = Object.entries(workspace.injectionsFor(this.env)).sort(
+      ([, a], [, b]) => Number(b.key === ALL_OUTPUTS) - Number(a.key === ALL_OUTPUTS),
+    )
+    for (const [injectionKey, injection] of injections) {
       if (injection.workspace === undefined) {
         throw new Error(`Value to inject ${injectionKey} cannot be resolved: no workspace set`)
       }
 
       const ws = this.monorepo.getWorkspace(injection.workspace)
+      const crossEnv = injection.env !== undefined && injection.env !== this.env
+      const source = crossEnv ? `${ws.name}@${injection.env}` : ws.name
 
-      const appliedWs = this.workspaceOutputs.find((x) => x.name === ws.name)
-      if (appliedWs) {
-        const val = appliedWs.outputValues[injection.key]
-        if (val === undefined) {
-          if (opts?.bestEffort) {
-            logger.warn(
-              `Value to inject ${injection.key} from workspace ${ws.name} is not found, using placeholder for destroy`,
-            )
+      let outputs: ProviderOutput
+      try {
+        outputs = crossEnv ? await this.getCrossEnvOutputs(ws, injection.env!) : await this.upstreamOutputs(ws)
+      } catch (error) {
+        if (opts?.bestEffort) {
+          logger.warn(`Failed to get outputs from workspace ${source}, using placeholder for destroy: ${error}`)
+          if (injection.key !== ALL_OUTPUTS && injection.file !== 'env') {
             inputs[injectionKey] = { value: '', secret: false }
-            continue
           }
-          throw new Error(`Value to inject ${injection.key} from workspace ${ws.name} is not found`)
+          continue
         }
-        inputs[injectionKey] = val
-        continue
+        throw error
       }
 
-      try {
-        const { outputs, actual } = await this.interop(ws).getOutputs({ stale: this.ignoreDependencies })
-        if (actual) {
-          this.storeWorkspaceOutputs(ws, outputs)
-        }
-        const val = outputs[injection.key]
-        if (val === undefined) {
-          if (opts?.bestEffort) {
-            logger.warn(
-              `Value to inject ${injection.key} from workspace ${ws.name} is not found, using placeholder for destroy`,
-            )
-            inputs[injectionKey] = { value: '', secret: false }
+      if (injection.key === ALL_OUTPUTS) {
+        const prefix = injectionKey === ALL_OUTPUTS ? '' : injectionKey
+        for (const [outputKey, output] of Object.entries(outputs)) {
+          if (injection.exclude?.includes(outputKey)) {
             continue
           }
-          throw new Error(`Value to inject ${injection.key} from workspace ${ws.name} is not found`)
+          const inputKey = prefix + outputKey
+          const addedBy = wildcardInputs.get(inputKey)
+          if (addedBy !== undefined) {
+            throw new Error(
+              `Input ${inputKey} of workspace ${workspace.name} is injected by both '${addedBy}' and '${injectionKey}'. Add a prefix or exclude it from one of them`,
+            )
+          }
+          wildcardInputs.set(inputKey, injectionKey)
+          inputs[inputKey] = output
         }
-        inputs[injectionKey] = val
+        continue
+      }
+
+      let value: OutputValue
+      try {
+        value = injectedValue(outputs, injection, source)
       } catch (error) {
         if (opts?.bestEffort) {
-          logger.warn(`Failed to get outputs from workspace ${ws.name}, using placeholder for destroy: ${error}`)
-          inputs[injectionKey] = { value: '', secret: false }
+          logger.warn(`${error instanceof Error ? error.message : String(error)}, using placeholder for destroy`)
+          if (injection.file !== 'env') {
+            inputs[injectionKey] = { value: '', secret: false }
+          }
           continue
         }
         throw error
       }
+
+      if (injection.file) {
+        const path = await this.writeInjectionFile(workspace, injectionKey, value)
+        // env var files reach the provider through its process env, see WorkspaceInterop
+        if (injection.file === 'var') {
+          inputs[injectionKey] = { value: path, secret: false }
+        }
+        continue
+      }
+      inputs[injectionKey] = value
     }
 
     return inputs
   }
 
+  // writes an `injection_files` value to the path the workspace passes on; the file is removed when the run ends
+  private async writeInjectionFile(workspace: Workspace, name: string, value: OutputValue): Promise<string> {
+    const stateManager = new StateManager(this.monorepo.path)
+    return stateManager.storeRunTempFile(workspace.path, injectionFileName(name), value.value)
+  }
+
+  // outputs of a workspace in the selected env: applied in this run, or read through the provider
+  private async upstreamOutputs(ws: Workspace): Promise<ProviderOutput> {
+    const appliedWs = this.workspaceOutputs.find((x) => x.name === ws.name)
+    if (appliedWs) {
+      return appliedWs.outputValues
+    }
+    const { outputs, actual } = await this.interop(ws).getOutputs({ stale: this.ignoreDependencies })
+    if (actual) {
+      this.storeWorkspaceOutputs(ws, outputs)
+    }
+    return outputs
+  }
+
+  // outputs of a workspace in another env; reads of the same workspace and env share one provider call
+  private getCrossEnvOutputs(ws: Workspace, env: string): Promise<ProviderOutput> {
+    const key = `${ws.name}@${env}`
+    let outputs = this.crossEnvOutputs.get(key)
+    if (!outputs) {
+      outputs = new WorkspaceInterop(this.monorepo, ws, env).getCrossEnvOutputs()
+      this.crossEnvOutputs.set(key, outputs)
+    }
+    return outputs
+  }
+
   public storeWorkspaceOutputs(workspace: Workspace, outputs: ProviderOutput) {
     const existingIdx = this.workspaceOutputs.findIndex((x) => x.name === workspace.name)
     if (existingIdx >= 0) {
@@ -108,23 +167,30 @@ export class Monorepo {
     public readonly workspaces: Workspace[],
     public readonly exports: { name: string; workspace: string; key: string }[],
     public readonly configFile: MonorepoConfig | undefined,
+    // root `vars`, interpolated; the ones referencing the workspace are only in Workspace.rootVars
     public readonly vars: Record<string, string> = {},
+    // root outputs to publish, by env
+    public readonly publish: Record<string, PublishTargetConfig[]> = {},
+    public readonly vaultClient?: VaultClient | undefined,
+    // resolvers of the config, for its deferred references such as `${vault-dynamic:...}`
+    public readonly secretResolvers: SecretResolvers = {},
   ) {}
 
-  public getDependencies(ws: Workspace): Workspace[] {
-    return ws.allDependsOn.map((x) => this.getWorkspace(x))
+  // The graph methods take the environment the graph is for; without one, edges of every environment count
+  public getDependencies(ws: Workspace, env?: string): Workspace[] {
+    return ws.allDependsOn(env).map((x) => this.getWorkspace(x))
   }
 
-  public getDependants(ws: Workspace): Workspace[] {
-    return this.workspaces.filter((x) => x.allDependsOn.filter((key) => ws.matchKey(key)).length > 0)
+  public getDependants(ws: Workspace, env?: string): Workspace[] {
+    return this.workspaces.filter((x) => x.allDependsOn(env).filter((key) => ws.matchKey(key)).length > 0)
   }
 
-  public getTransitiveDependencies(ws: Workspace): Workspace[] {
+  public getTransitiveDependencies(ws: Workspace, env?: string): Workspace[] {
     const visited = new Set<string>()
     const dependencies: Workspace[] = []
 
     const traverse = (currentWs: Workspace) => {
-      const directDeps = this.getDependencies(currentWs)
+      const directDeps = this.getDependencies(currentWs, env)
       for (const dep of directDeps) {
         if (!visited.has(dep.name)) {
           visited.add(dep.name)
@@ -138,12 +204,12 @@ export class Monorepo {
     return dependencies
   }
 
-  public getTransitiveDependants(ws: Workspace): Workspace[] {
+  public getTransitiveDependants(ws: Workspace, env?: string): Workspace[] {
     const visited = new Set<string>()
     const dependants: Workspace[] = []
 
     const traverse = (currentWs: Workspace) => {
-      const directDeps = this.getDependants(currentWs)
+      const directDeps = this.getDependants(currentWs, env)
       for (const dep of directDeps) {
         if (!visited.has(dep.name)) {
           visited.add(dep.name)
@@ -172,26 +238,85 @@ export class Monorepo {
   }
 }
 
-export class Workspace {
-  public readonly allDependsOn: string[]
+// Value of the referenced output, narrowed to the injection's path into a structured output
+function injectedValue(outputs: ProviderOutput, injection: WorkspaceInjection, workspaceName: string): OutputValue {
+  const selector = formatOutputSelector(injection.key, injection.path)
+  const output = outputs[injection.key]
+  if (output === undefined) {
+    throw new Error(`Value to inject ${selector} from workspace ${workspaceName} is not found`)
+  }
+  try {
+    return resolveOutputPath(output, injection.key, injection.path ?? [])
+  } catch (error) {
+    throw new Error(
+      `Value to inject ${selector} from workspace ${workspaceName} cannot be resolved: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+function injectionFileName(name: string): string {
+  return `injected-${name}`
+}
+
+// output key of a wildcard injection (`'../workspace:*'`); used as the injection name, it adds outputs without a prefix
+export const ALL_OUTPUTS = '*'
+
+export interface WorkspaceInjection {
+  workspace: string
+  // output key, and the path to a nested value for structured outputs; ALL_OUTPUTS injects every output
+  key: string
+  path?: OutputPath | undefined
+  // outputs left out of a wildcard injection
+  exclude?: string[] | undefined
+  // environment to read the output from, when it is not the selected one; such injections are not dependencies
+  env?: string | undefined
+  // set by injection_files: the output is written to a temp file, whose path is passed as a variable or env var
+  file?: 'var' | 'env' | undefined
+}
+
+// `injection` and `depends_on` of `envs.<env>`, merged over the top-level ones
+export interface WorkspaceEnvDependencies {
+  injections: Record<string, WorkspaceInjection>
+  dependsOn: string[]
+}
 
+export class Workspace {
   public constructor(
     public readonly name: string,
     public readonly path: string,
     public readonly monorepoPath: string,
     public readonly provider: IProvider,
-    public readonly injections: Record<string, { workspace: string; key: string }>,
+    public readonly injections: Record<string, WorkspaceInjection>,
     public readonly dependsOn: string[],
     public readonly envs: Record<string, EnvironmentConfig>,
     public readonly rootVars: Record<string, string> = {},
-  ) {
-    this.allDependsOn = [
-      ...new Set(
-        Object.values(this.injections)
-          .map((x) => x.workspace)
-          .concat(this.dependsOn),
-      ),
-    ]
+    public readonly tags: string[] = [],
+    public readonly envDependencies: Record<string, WorkspaceEnvDependencies> = {},
+    // outputs to publish, by env
+    public readonly publish: Record<string, PublishTargetConfig[]> = {},
+  ) {}
+
+  // env injections replace top-level injections of the same name
+  public injectionsFor(env: string): Record<string, WorkspaceInjection> {
+    return { ...this.injections, ...this.envDependencies[env]?.injections }
+  }
+
+  // Workspaces this one depends on in `env`; without an env, the dependencies of every environment
+  public allDependsOn(env?: string): string[] {
+    const envs = env === undefined ? Object.keys(this.envDependencies) : [env]
+    const injections = env === undefined ? Object.values(this.injections) : []
+    const dependsOn = [...this.dependsOn]
+    for (const e of envs) {
+      injections.push(...Object.values(this.injectionsFor(e)))
+      dependsOn.push(...(this.envDependencies[e]?.dependsOn ?? []))
+    }
+    const dependencies = injections.filter((x) => x.env === undefined || x.env === env).map((x) => x.workspace)
+    return [...new Set([...dependencies, ...dependsOn])]
+  }
+
+  // temp file an `injection_files` entry is written to, under .ig/.temp/<workspace path>/
+  public injectionFilePath(name: string): string {
+    return new StateManager(this.monorepoPath).workspaceTempFilePath(this.path, injectionFileName(name))
   }
 
   public matchKey(key: string): boolean {
@@ -208,11 +333,23 @@ export class Workspace {
 }
 
 export class ExecutionPlan {
-  public constructor(public readonly levels: ExecutionLevel[]) {}
+  public constructor(
+    public readonly levels: ExecutionLevel[],
+    private readonly dependencies: Map<Workspace, Workspace[]> = new Map(),
+  ) {}
 
   public get levelsCount() {
     return this.levels.length
   }
+
+  // workspaces that must finish before this one; empty when dependencies are ignored
+  public dependenciesOf(workspace: Workspace): Workspace[] {
+    return this.dependencies.get(workspace) ?? []
+  }
+
+  public levelIndexOf(workspace: Workspace): number {
+    return this.levels.findIndex((level) => level.workspaces.includes(workspace))
+  }
 }
 
 export class ExecutionLevel {
@@ -235,7 +372,11 @@ export class ExecutionPlanBuilder {
 
   public build(): ExecutionPlan {
     const levels = sortGraphNodesByLevels(this.workspaces, (w) => this.getWorkspacesToBeExecutedBefore(w))
-    return new ExecutionPlan(levels.map((workspaces) => new ExecutionLevel(workspaces)))
+    const dependencies = new Map(this.workspaces.map((w) => [w, this.getWorkspacesToBeExecutedBefore(w)]))
+    return new ExecutionPlan(
+      levels.map((workspaces) => new ExecutionLevel(workspaces)),
+      dependencies,
+    )
   }
 
   private getWorkspacesToBeExecutedBefore(workspace: Workspace): Workspace[] {
@@ -244,8 +385,8 @@ export class ExecutionPlanBuilder {
     }
 
     const candidates = this.ctx.isDestroy
-      ? this.ctx.monorepo.getDependants(workspace)
-      : this.ctx.monorepo.getDependencies(workspace)
+      ? this.ctx.monorepo.getDependants(workspace, this.ctx.env)
+      : this.ctx.monorepo.getDependencies(workspace, this.ctx.env)
 
     for (const candidate of candidates) {
       if (!candidate.hasEnv(this.ctx.env)) {
@@ -255,21 +396,61 @@ export class ExecutionPlanBuilder {
       }
     }
 
+    // with --changed-since, unchanged upstream workspaces are not part of the run; their outputs are read as is
+    if (this.ctx.changedWorkspaces) {
+      return candidates.filter((candidate) => this.workspaces.includes(candidate))
+    }
     return candidates
   }
 
   private filterWorkspaces() {
     let candidates = this.ctx.monorepo.workspaces
-    if (this.ctx.currentWorkspace) {
+    if (this.ctx.changedWorkspaces) {
+      candidates = this.changedWithDependants(this.ctx.changedWorkspaces)
+    } else if (this.ctx.selector) {
+      candidates = this.selectWorkspaces(this.ctx.selector)
+    } else if (this.ctx.currentWorkspace) {
       candidates = [this.ctx.currentWorkspace]
       if (!this.ctx.ignoreDependencies) {
         candidates.push(
           ...(this.ctx.isDestroy
-            ? this.ctx.monorepo.getTransitiveDependants(this.ctx.currentWorkspace)
-            : this.ctx.monorepo.getTransitiveDependencies(this.ctx.currentWorkspace)),
+            ? this.ctx.monorepo.getTransitiveDependants(this.ctx.currentWorkspace, this.ctx.env)
+            : this.ctx.monorepo.getTransitiveDependencies(this.ctx.currentWorkspace, this.ctx.env)),
         )
       }
     }
     return candidates.filter((x) => x.hasEnv(this.ctx.env))
   }
+
+  // selected workspaces with their dependencies (dependants for destroy), in monorepo order
+  private selectWorkspaces(selector: WorkspaceSelector): Workspace[] {
+    const { monorepo } = this.ctx
+    const selected = monorepo.workspaces.filter((ws) => selector.matches(ws))
+    if (selected.length === 0) {
+      throw new UserError(`No workspaces match ${selector}`)
+    }
+
+    const included = new Set(selected)
+    if (!this.ctx.ignoreDependencies) {
+      for (const ws of selected) {
+        const related = this.ctx.isDestroy
+          ? monorepo.getTransitiveDependants(ws, this.ctx.env)
+          : monorepo.getTransitiveDependencies(ws, this.ctx.env)
+        related.forEach((x) => included.add(x))
+      }
+    }
+    return monorepo.workspaces.filter((ws) => included.has(ws))
+  }
+
+  // changed workspaces and everything downstream of them, in monorepo order
+  private changedWithDependants(changed: Workspace[]): Workspace[] {
+    const { monorepo } = this.ctx
+    const included = new Set(changed)
+    if (!this.ctx.ignoreDependencies) {
+      for (const ws of changed) {
+        monorepo.getTransitiveDependants(ws, this.ctx.env).forEach((x) => included.add(x))
+      }
+    }
+    return monorepo.workspaces.filter((ws) => included.has(ws))
+  }
 }
@@ -1,8 +1,10 @@
 import { resolve, join } from 'path'
-import { tryReadMonorepo, tryResolveMonorepo } from './monorepo-reader.js'
-import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises'
+import { computeConfigFingerprint, findRootConfigFile, tryReadMonorepo, tryResolveMonorepo } from './monorepo-reader.js'
+import { mkdtemp, rm, mkdir, readFile, writeFile } from 'fs/promises'
 import { tmpdir } from 'os'
 import { UserError } from '../utils/index.js'
+import { Monorepo, Workspace } from './model.js'
+import { getProvider } from '../providers/index.js'
 
 const FIXTURES_DIR = resolve(import.meta.dirname, '__fixtures__')
 
@@ -42,7 +44,7 @@ describe('tryReadMonorepo', () => {
     it('should calculate allDependsOn including injection sources', async () => {
       const monorepo = await tryReadMonorepo(fixturePath)
       const wsB = monorepo!.workspaces.find((w) => w.name === 'ws-b')!
-      expect(wsB.allDependsOn).toContain(join(fixturePath, 'ws-a'))
+      expect(wsB.allDependsOn()).toContain(join(fixturePath, 'ws-a'))
     })
 
     it('should detect terraform provider', async () => {
@@ -175,7 +177,7 @@ describe('tryReadMonorepo', () => {
       const consumer = monorepo!.workspaces.find((w) => w.name === 'consumer')!
       // No explicit depends_on, but injection creates an implicit dependency
       expect(consumer.dependsOn).toEqual([])
-      expect(consumer.allDependsOn).toContain(join(fixturePath, 'producer'))
+      expect(consumer.allDependsOn()).toContain(join(fixturePath, 'producer'))
     })
 
     it('should have no explicit depends_on on consumer', async () => {
@@ -303,6 +305,40 @@ describe('tryReadMonorepo', () => {
     })
   })
 
+  describe('root vars referencing the workspace', () => {
+    it('should interpolate the other root vars once for every workspace', async () => {
+      const tmpDir = await mkdtemp(join(tmpdir(), 'root-vars-'))
+      try {
+        await writeFile(
+          join(tmpDir, 'ig.yaml'),
+          [
+            'workspace:',
+            "  - './*'",
+            'resolvers:',
+            '  cmd: true',
+            'vars:',
+            "  name: '${ig.workspace}'",
+            "  token: '${cmd:echo run >> runs.log && echo secret}'",
+            '',
+          ].join('\n'),
+        )
+        for (const name of ['api', 'app']) {
+          await mkdir(join(tmpDir, name))
+          await writeFile(join(tmpDir, name, 'ig.yaml'), 'provider: terraform\n')
+        }
+
+        const monorepo = await tryReadMonorepo(tmpDir)
+
+        expect(monorepo!.vars).toEqual({ token: 'secret' })
+        expect(monorepo!.getWorkspace('api').rootVars).toEqual({ token: 'secret', name: 'api' })
+        expect(monorepo!.getWorkspace('app').rootVars).toEqual({ token: 'secret', name: 'app' })
+        expect(await readFile(join(tmpDir, 'runs.log'), 'utf-8')).toBe('run\n')
+      } finally {
+        await rm(tmpDir, { recursive: true })
+      }
+    })
+  })
+
   describe('edge cases', () => {
     it('should return null for directory with no ig.yaml', async () => {
       const tmpDir = await mkdtemp(join(tmpdir(), 'no-config-'))
@@ -327,6 +363,27 @@ describe('tryReadMonorepo', () => {
   })
 })
 
+describe('computeConfigFingerprint', () => {
+  it('should change when a workspace config file changes', async () => {
+    const tmpDir = await mkdtemp(join(tmpdir(), 'fingerprint-'))
+    try {
+      await writeFile(join(tmpDir, 'ig.yaml'), "workspace:\n  - './*'\n")
+      await mkdir(join(tmpDir, 'app'))
+      await writeFile(join(tmpDir, 'app', 'ig.yaml'), 'provider: terraform\n')
+
+      const app = new Workspace('app', join(tmpDir, 'app'), tmpDir, getProvider('terraform')!, {}, [], {})
+      const monorepo = new Monorepo(tmpDir, [app], [], undefined)
+      const before = await computeConfigFingerprint(monorepo)
+      expect(await computeConfigFingerprint(monorepo)).toBe(before)
+
+      await writeFile(join(tmpDir, 'app', 'ig.yaml'), 'provider: pulumi\n')
+      expect(await computeConfigFingerprint(monorepo)).not.toBe(before)
+    } finally {
+      await rm(tmpDir, { recursive: true })
+    }
+  })
+})
+
 describe('tryResolveMonorepo', () => {
   it('should resolve from root directory', async () => {
     const fixturePath = join(FIXTURES_DIR, 'simple-chain')
@@ -354,3 +411,10 @@ describe('tryResolveMonorepo', () => {
     }
   })
 })
+
+describe('findRootConfigFile', () => {
+  it('should find the root config file from a workspace subdirectory', async () => {
+    const fixturePath = join(FIXTURES_DIR, 'simple-chain')
+    expect(await findRootConfigFile(join(fixturePath, 'ws-a'))).toBe(join(fixturePath, 'ig.yaml'))
+  })
+})
@@ -1,15 +1,36 @@
-import { Monorepo, Workspace } from './model.js'
+import { ALL_OUTPUTS, Monorepo, Workspace, type WorkspaceEnvDependencies, type WorkspaceInjection } from './model.js'
+import { parseOutputSelector, type OutputPath } from './output-path.js'
 import { readFile } from 'fs/promises'
+import { createHash } from 'crypto'
 import { dirname, join, relative, resolve } from 'path'
 import { parse as parseYaml } from 'yaml'
 import { glob } from 'node:fs/promises'
-import type { MonorepoConfig, WorkspaceConfig } from './config-files.js'
+import type {
+  InjectionConfig,
+  InjectionFileConfig,
+  MonorepoConfig,
+  PublishConfig,
+  PublishTargetConfig,
+  WorkspaceConfig,
+  WorkspaceDefaultsConfig,
+} from './config-files.js'
 import { globalConfig } from './global-config.js'
-import { logger, UserError, ConfigError, interpolateConfig, loadDotEnvFiles } from '../utils/index.js'
+import {
+  logger,
+  UserError,
+  ConfigError,
+  interpolateConfig,
+  loadDotEnvFiles,
+  getHeadCommit,
+  type BuiltinVariables,
+} from '../utils/index.js'
 import { VaultClient } from '../utils/vault-client.js'
+import { createSecretResolvers, type SecretResolvers } from '../utils/secret-resolvers.js'
 import { getProvider, providers as knownProviders } from '../providers/index.js'
 import type { EnvironmentConfig } from '../providers/index.js'
 import { monorepoConfigSchema, workspaceConfigSchema, formatZodError } from './schemas.js'
+import { resolveEnvInheritance } from './env-inheritance.js'
+import { applyWorkspaceDefaults } from './workspace-defaults.js'
 
 const CONFIG_FILE_NAMES = ['ig.yaml', 'ig.yml']
 const DEFAULT_ENCODING = 'utf-8'
@@ -46,45 +67,119 @@ export async function tryReadMonorepo(rootPath: string, envName?: string): Promi
       throw new ConfigError(formatZodError(parsed.error), configPath)
     }
     const cfg = raw as MonorepoConfig
-    const vaultAddress = cfg.vault?.address ?? process.env['VAULT_ADDR'] ?? process.env['VAULT_SERVER_URL']
-    const vaultClient = vaultAddress
-      ? new VaultClient(vaultAddress, {
-          role: cfg.vault?.role ?? process.env['VAULT_ROLE'] ?? process.env['VAULT_AUTH_ROLE'],
-        })
-      : undefined
-    const rootVars = await interpolateConfig(parsed.data.vars ?? {}, undefined, 'root ig.yaml vars', vaultClient)
-    const workspaces = await readWorkspaces(cfg, rootPath, rootVars, vaultClient)
+    const vaultClient = createVaultClient(cfg)
+    const resolvers = createResolvers(cfg, rootPath, vaultClient)
+    let headCommit: Promise<string> | undefined
+    const builtins: BuiltinVariables = {
+      root: rootPath,
+      git_sha: () => (headCommit ??= getHeadCommit(rootPath)),
+      ...(envName !== undefined ? { env: envName } : {}),
+    }
+    // interpolated once, except for the vars that reference the workspace, which each workspace interpolates
+    const vars = Object.entries(parsed.data.vars ?? {})
+    const workspaceVars = Object.fromEntries(vars.filter(([, value]) => WORKSPACE_REFERENCE.test(value)))
+    const rootVars = await interpolateConfig(
+      Object.fromEntries(vars.filter(([, value]) => !WORKSPACE_REFERENCE.test(value))),
+      undefined,
+      'root ig.yaml vars',
+      resolvers,
+      builtins,
+    )
+    const workspaces = await readWorkspaces(cfg, rootPath, rootVars, workspaceVars, builtins, resolvers)
 
     const exports = Object.entries(cfg.output || {}).map(([key, value]) => {
       const [workspace, outputKey] = value.split(':')
       return { name: key, workspace: join(rootPath, workspace), key: outputKey }
     })
 
-    return new Monorepo(rootPath, workspaces, exports, cfg, rootVars)
+    for (const key of [cfg.publish ?? []].flat().flatMap((x) => x.keys)) {
+      if (!exports.some((x) => x.name === key)) {
+        throw new ConfigError(
+          `publish: '${key}' is not a root output`,
+          CONFIG_FILE_NAMES.map((n) => join(rootPath, n)).join(' or '),
+        )
+      }
+    }
+    const envNames = [...new Set(workspaces.flatMap((ws) => Object.keys(ws.envs)))]
+    const publish = await readPublishTargets(cfg.publish, envNames, 'root ig.yaml publish', builtins, resolvers)
+
+    const publishing = [publish, ...workspaces.map((ws) => ws.publish)].find((x) => Object.keys(x).length > 0)
+    if (publishing && !vaultClient) {
+      throw new UserError(
+        'publish: requires a vault configuration. Set VAULT_ADDR or add vault.address to root ig.yaml',
+      )
+    }
+
+    return new Monorepo(rootPath, workspaces, exports, cfg, rootVars, publish, vaultClient, resolvers)
   }
 
   return null
 }
 
+/**
+ * Path of the root config file for `startPath`: the nearest one above it that lists workspaces.
+ */
+export async function findRootConfigFile(startPath: string): Promise<string | null> {
+  for (let current = resolve(startPath); current !== dirname(current); current = dirname(current)) {
+    const raw = await readConfigFile(current).catch(() => null)
+    if (raw && Array.isArray(raw.workspace) && raw.workspace.length > 0) {
+      return (await readRawConfigFile(current))?.path ?? null
+    }
+  }
+  return null
+}
+
+/**
+ * Hash of the raw root and workspace config files. A resumed run compares it with the
+ * fingerprint recorded when the run started to detect config changes in between.
+ */
+export async function computeConfigFingerprint(monorepo: Monorepo): Promise<string> {
+  const hash = createHash('sha256')
+  const dirs = [monorepo.path, ...monorepo.workspaces.map((ws) => ws.path).sort()]
+  for (const dir of dirs) {
+    const file = await readRawConfigFile(dir)
+    hash.update(relative(monorepo.path, dir)).update('\0')
+    hash.update(file?.content ?? '').update('\0')
+  }
+  return hash.digest('hex')
+}
+
 async function readConfigFile(dirPath: string): Promise<Record<string, unknown> | null> {
+  const file = await readRawConfigFile(dirPath)
+  if (!file) {
+    return null
+  }
+  try {
+    return parseYaml(file.content) as Record<string, unknown> | null
+  } catch (error) {
+    throw new ConfigError(`Failed to parse YAML: ${error}`, file.path)
+  }
+}
+
+export async function readRawConfigFile(dirPath: string): Promise<{ path: string; content: string } | null> {
   for (const candidate of CONFIG_FILE_NAMES) {
+    const path = join(dirPath, candidate)
     try {
-      const content = await readFile(join(dirPath, candidate), DEFAULT_ENCODING)
-      return parseYaml(content) as Record<string, unknown> | null
+      return { path, content: await readFile(path, DEFAULT_ENCODING) }
     } catch (error) {
       if (!(error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT')) {
-        throw new ConfigError(`Failed to parse YAML: ${error}`, join(dirPath, candidate))
+        throw new ConfigError(`Failed to read config file: ${error}`, path)
       }
     }
   }
   return null
 }
 
+// `${ig.workspace}` or `${ig.workspace_path}`, also as the default of another reference, but not escaped
+const WORKSPACE_REFERENCE = /(?<!\$)\$\{ig\.workspace(?:_path)?(?:\}|:[-?])/
+
 async function readWorkspaces(
   monorepoConfig: MonorepoConfig,
   rootPath: string,
   rootVars: Record<string, string>,
-  vaultClient?: VaultClient,
+  workspaceVars: Record<string, string>,
+  builtins: BuiltinVariables,
+  resolvers: SecretResolvers,
 ): Promise<Workspace[]> {
   if (!monorepoConfig.workspace) {
     return []
@@ -107,7 +202,13 @@ async function readWorkspaces(
   )
 
   return (
-    await Promise.all(workspacePaths.flat().map((path) => getWorkspace(path, rootPath, rootVars, vaultClient)))
+    await Promise.all(
+      workspacePaths
+        .flat()
+        .map((path) =>
+          getWorkspace(path, rootPath, rootVars, workspaceVars, monorepoConfig.defaults, builtins, resolvers),
+        ),
+    )
   ).filter((x) => !!x)
 }
 
@@ -115,7 +216,11 @@ async function getWorkspace(
   path: string,
   rootPath: string,
   rootVars: Record<string, string>,
-  vaultClient?: VaultClient,
+  // root vars that reference the workspace, not interpolated yet
+  workspaceVars: Record<string, string>,
+  defaults: WorkspaceDefaultsConfig | undefined,
+  rootBuiltins: BuiltinVariables,
+  resolvers: SecretResolvers,
 ): Promise<Workspace | null> {
   const raw = await readConfigFile(path)
   if (raw) {
@@ -125,7 +230,7 @@ async function getWorkspace(
       throw new ConfigError(formatZodError(parsed.error), configPath)
     }
   }
-  const config = raw as WorkspaceConfig | null
+  const config = applyWorkspaceDefaults(raw as WorkspaceConfig | null, defaults, path, rootPath)
   const provider = config?.provider || (await detectProvider(path))
   if (!provider) {
     if (globalConfig.strict) {
@@ -141,59 +246,230 @@ async function getWorkspace(
     throw new UserError(`Unknown provider '${provider}' in ${path}. Supported: terraform, pulumi.`)
   }
 
-  const injectionEntries = Object.entries(config?.injection || {}).map(([key, value]) => {
-    const [workspace, injectionKey] = value.split(':')
-    const resolvedPath = resolve(path, workspace)
-    if (!resolvedPath.startsWith(rootPath)) {
-      throw new ConfigError(`Injection '${key}' references path outside monorepo root: ${workspace}`, path)
+  const envs = resolveEnvInheritance(config?.envs ?? {}, path)
+  const envDependencies: Record<string, WorkspaceEnvDependencies> = {}
+  for (const [env, envConfig] of Object.entries(envs)) {
+    if (envConfig.injection || envConfig.injection_files || envConfig.depends_on) {
+      envDependencies[env] = {
+        injections: readInjections(envConfig.injection, envConfig.injection_files, path, rootPath),
+        dependsOn: readDependsOn(envConfig.depends_on, path, rootPath),
+      }
     }
-    return [key, { workspace: resolvedPath, key: injectionKey }] as const
-  })
+  }
+
+  const name = config?.alias ?? relative(rootPath, path)
+  const builtins: BuiltinVariables = { ...rootBuiltins, workspace: name, workspace_path: relative(rootPath, path) }
+  return new Workspace(
+    name,
+    path,
+    rootPath,
+    providerInstance,
+    readInjections(config?.injection, config?.injection_files, path, rootPath),
+    readDependsOn(config?.depends_on, path, rootPath),
+    await interpolateEnvConfigs(envs, path, builtins, resolvers),
+    { ...rootVars, ...(await interpolateConfig(workspaceVars, undefined, 'root ig.yaml vars', resolvers, builtins)) },
+    config?.tags ?? [],
+    envDependencies,
+    await readPublishTargets(config?.publish, Object.keys(envs), `workspace ${path} publish`, builtins, resolvers),
+  )
+}
+
+// publish targets by env, with `${ig.env}` and other references in their paths resolved for each env
+async function readPublishTargets(
+  publish: PublishConfig | undefined,
+  envNames: string[],
+  context: string,
+  builtins: BuiltinVariables,
+  resolvers: SecretResolvers,
+): Promise<Record<string, PublishTargetConfig[]>> {
+  const targets = [publish ?? []].flat()
+  const result: Record<string, PublishTargetConfig[]> = {}
+  if (targets.length === 0) {
+    return result
+  }
+  for (const env of envNames) {
+    result[env] = []
+    for (const target of targets) {
+      const vault = await interpolateConfig(target.vault, undefined, context, resolvers, { ...builtins, env })
+      result[env].push({ vault, keys: target.keys })
+    }
+  }
+  return result
+}
 
-  const resolvedDeps = (config?.depends_on || []).map((dependency) => {
+// `injection` and `injection_files` entries, which share one namespace of variable names
+function readInjections(
+  injections: Record<string, InjectionConfig> | undefined,
+  injectionFiles: Record<string, InjectionFileConfig> | undefined,
+  path: string,
+  rootPath: string,
+): Record<string, WorkspaceInjection> {
+  const result = Object.fromEntries(
+    Object.entries(injections ?? {}).map(([key, value]) => [key, readInjection(key, value, path, rootPath)]),
+  )
+  for (const [key, value] of Object.entries(injectionFiles ?? {})) {
+    if (Object.hasOwn(result, key)) {
+      throw new ConfigError(`'${key}' is declared in both injection and injection_files`, path)
+    }
+    result[key] = readInjectionFile(key, value, path, rootPath)
+  }
+  return result
+}
+
+function readDependsOn(dependsOn: string[] | undefined, path: string, rootPath: string): string[] {
+  return (dependsOn ?? []).map((dependency) => {
     const resolvedPath = resolve(path, dependency)
     if (!resolvedPath.startsWith(rootPath)) {
       throw new ConfigError(`depends_on references path outside monorepo root: ${dependency}`, path)
     }
     return resolvedPath
   })
+}
 
-  return new Workspace(
-    config?.alias ?? relative(rootPath, path),
-    path,
-    rootPath,
-    providerInstance,
-    Object.fromEntries(injectionEntries),
-    resolvedDeps,
-    await interpolateEnvConfigs(config?.envs ?? {}, path, vaultClient),
-    rootVars,
-  )
+/*
+  `'../workspace:output'`, optionally with a path into a structured output, or `'../workspace:*'` for every output.
+  `'../workspace@env:output'` reads the output of another environment.
+ */
+function readInjection(key: string, value: InjectionConfig, path: string, rootPath: string): WorkspaceInjection {
+  const { from, exclude } = typeof value === 'string' ? { from: value, exclude: undefined } : value
+  const [source, ...selector] = from.split(':')
+  const envSeparator = source.lastIndexOf('@')
+  const workspace = envSeparator < 0 ? source : source.slice(0, envSeparator)
+  const env = envSeparator < 0 ? undefined : source.slice(envSeparator + 1)
+  if (env !== undefined && !/^[\w.-]+$/.test(env)) {
+    throw new ConfigError(`Injection '${key}': invalid environment name '${env}' in '${from}'`, path)
+  }
+  const resolvedPath = resolve(path, workspace)
+  if (!resolvedPath.startsWith(rootPath)) {
+    throw new ConfigError(`Injection '${key}' references path outside monorepo root: ${workspace}`, path)
+  }
+
+  let output: { key: string; path: OutputPath }
+  try {
+    output = parseOutputSelector(selector.join(':'))
+  } catch (error) {
+    throw new ConfigError(`Injection '${key}': ${error instanceof Error ? error.message : String(error)}`, path)
+  }
+
+  const injection: WorkspaceInjection = { workspace: resolvedPath, key: output.key }
+  if (env !== undefined) {
+    injection.env = env
+  }
+  if (output.key === ALL_OUTPUTS) {
+    if (output.path.length > 0) {
+      throw new ConfigError(`Injection '${key}': a wildcard injection cannot select a nested value`, path)
+    }
+    if (exclude) {
+      injection.exclude = exclude
+    }
+  } else if (exclude) {
+    throw new ConfigError(`Injection '${key}': exclude is only supported with '${workspace}:*'`, path)
+  }
+  if (output.path.length > 0) {
+    injection.path = output.path
+  }
+  return injection
+}
+
+// an output written to a file under .ig/.temp, passed by path as the variable or env var `key`
+function readInjectionFile(
+  key: string,
+  value: InjectionFileConfig,
+  path: string,
+  rootPath: string,
+): WorkspaceInjection {
+  const { from, as } = typeof value === 'string' ? { from: value, as: undefined } : value
+  if (!/^[\w.-]+$/.test(key)) {
+    throw new ConfigError(`Injection file '${key}': name may only contain letters, digits, "_", "-" and "."`, path)
+  }
+  const injection = readInjection(key, from, path, rootPath)
+  if (injection.key === ALL_OUTPUTS) {
+    throw new ConfigError(`Injection file '${key}': a wildcard injection cannot be written to a file`, path)
+  }
+  return { ...injection, file: as ?? 'var' }
 }
 
 async function interpolateEnvConfigs(
   envs: Record<string, EnvironmentConfig>,
   workspacePath: string,
-  vaultClient?: VaultClient,
+  workspaceBuiltins: BuiltinVariables,
+  resolvers: SecretResolvers,
 ): Promise<Record<string, EnvironmentConfig>> {
   const result: Record<string, EnvironmentConfig> = {}
   for (const [envName, envConfig] of Object.entries(envs)) {
     const ctx = `workspace ${workspacePath} env '${envName}'`
+    const builtins: BuiltinVariables = { ...workspaceBuiltins, env: envName }
     const interpolated: EnvironmentConfig = {}
     if (envConfig.backend_file !== undefined)
-      interpolated.backend_file = await interpolateConfig(envConfig.backend_file, undefined, ctx, vaultClient)
+      interpolated.backend_file = await interpolateConfig(envConfig.backend_file, undefined, ctx, resolvers, builtins)
     if (envConfig.backend_type !== undefined)
-      interpolated.backend_type = await interpolateConfig(envConfig.backend_type, undefined, ctx, vaultClient)
+      interpolated.backend_type = await interpolateConfig(envConfig.backend_type, undefined, ctx, resolvers, builtins)
     if (envConfig.backend_config !== undefined)
-      interpolated.backend_config = await interpolateConfig(envConfig.backend_config, undefined, ctx, vaultClient)
+      interpolated.backend_config = await interpolateConfig(
+        envConfig.backend_config,
+        undefined,
+        ctx,
+        resolvers,
+        builtins,
+      )
     if (envConfig.vars !== undefined)
-      interpolated.vars = await interpolateConfig(envConfig.vars, undefined, ctx, vaultClient)
+      interpolated.vars = await interpolateConfig(envConfig.vars, undefined, ctx, resolvers, builtins)
     if (envConfig.var_files !== undefined)
-      interpolated.var_files = await interpolateConfig(envConfig.var_files, undefined, ctx, vaultClient)
+      interpolated.var_files = await interpolateConfig(envConfig.var_files, undefined, ctx, resolvers, builtins)
+    if (envConfig.env !== undefined)
+      interpolated.env = await interpolateConfig(envConfig.env, undefined, ctx, resolvers, builtins)
     result[envName] = interpolated
   }
   return result
 }
 
+function createVaultClient(cfg: MonorepoConfig): VaultClient | undefined {
+  const vaultAddress = cfg.vault?.address ?? process.env['VAULT_ADDR'] ?? process.env['VAULT_SERVER_URL']
+  return vaultAddress
+    ? new VaultClient(vaultAddress, {
+        role: cfg.vault?.role ?? process.env['VAULT_ROLE'] ?? process.env['VAULT_AUTH_ROLE'],
+        namespace: cfg.vault?.namespace ?? process.env['VAULT_NAMESPACE'],
+        kvVersion: cfg.vault?.kv_version,
+        auth: cfg.vault?.auth && {
+          method: cfg.vault.auth.method,
+          mount: cfg.vault.auth.mount,
+          role: cfg.vault.auth.role,
+          roleId: cfg.vault.auth.role_id,
+          tokenPath: cfg.vault.auth.token_path,
+        },
+      })
+    : undefined
+}
+
+function createResolvers(cfg: MonorepoConfig, rootPath: string, vaultClient: VaultClient | undefined): SecretResolvers {
+  const { vault, 'vault-dynamic': vaultDynamic, file, cmd, sops } = cfg.resolvers ?? {}
+  // unset leaves the default to createSecretResolvers; configuring an opt-in resolver enables it
+  const isEnabled = (toggle: boolean | { enabled?: boolean } | undefined) =>
+    typeof toggle === 'object' ? toggle.enabled !== false : toggle
+  const options = <T extends object>(toggle: boolean | T | undefined): T | undefined =>
+    typeof toggle === 'object' ? toggle : undefined
+
+  return createSecretResolvers({
+    rootPath,
+    vaultClient,
+    enabled: {
+      vault: isEnabled(vault),
+      'vault-dynamic': isEnabled(vaultDynamic),
+      file: isEnabled(file),
+      cmd: isEnabled(cmd),
+      sops: isEnabled(sops),
+    },
+    vaultDynamic: { revoke: options(vaultDynamic)?.revoke },
+    file: { allowOutsideRoot: options(file)?.allow_outside_root },
+    cmd: { timeoutSeconds: options(cmd)?.timeout },
+    sops: {
+      binary: options(sops)?.binary,
+      ageKeyFile: options(sops)?.age_key_file,
+      allowOutsideRoot: options(sops)?.allow_outside_root,
+    },
+  })
+}
+
 async function detectProvider(path: string): Promise<string | null> {
   for (const provider of knownProviders) {
     if (await provider.existsInFolder(path)) {
@@ -16,6 +16,10 @@ import {
   PULUMI_ERROR_BLOB,
 } from '../__test-utils__/provider-fixtures.js'
 import { State } from './state-manager.js'
+import type { IRunJournal } from './state-files.js'
+import type { IPlanBundle } from './plan-bundle.js'
+import { WorkspaceInterop } from './workspace-interop.js'
+import { globalConfig } from './global-config.js'
 import type { IIntegration } from '../integrations/integration.js'
 import type { IFormatter } from '../formatters/formatter.js'
 
@@ -23,6 +27,12 @@ import type { IFormatter } from '../formatters/formatter.js'
 const mockState = new State()
 const mockRead = vi.fn<() => Promise<State>>()
 const mockUpdate = vi.fn<(fn: (s: State) => void) => Promise<void>>()
+const mockWriteRun = vi.fn<(run: IRunJournal) => Promise<void>>()
+const mockReadRun = vi.fn<(runId: string) => Promise<IRunJournal | null>>()
+const mockLatestRunId = vi.fn<() => Promise<string | null>>()
+const mockStoreTempFile =
+  vi.fn<(workspacePath: string, fileName: string, content: string | Buffer) => Promise<string>>()
+const mockTakeTempFile = vi.fn<(workspacePath: string, relativePath: string) => Promise<Buffer>>()
 
 vi.mock('./state-manager.js', async (importOriginal) => {
   const original = await importOriginal<typeof import('./state-manager.js')>()
@@ -31,10 +41,34 @@ vi.mock('./state-manager.js', async (importOriginal) => {
     StateManager: vi.fn().mockImplementation(() => ({
       read: mockRead,
       update: mockUpdate,
+      writeRun: mockWriteRun,
+      readRun: mockReadRun,
+      latestRunId: mockLatestRunId,
+      pruneRuns: vi.fn(),
+      storeWorkspaceTempFile: mockStoreTempFile,
+      takeWorkspaceTempFile: mockTakeTempFile,
     })),
   }
 })
 
+const mockConfigFingerprint = vi.fn<() => Promise<string>>()
+
+vi.mock('./monorepo-reader.js', () => ({
+  computeConfigFingerprint: () => mockConfigFingerprint(),
+}))
+
+const mockHashWorkspaceSources = vi.fn<(workspacePath: string) => Promise<string>>()
+const mockWritePlanBundle = vi.fn<(path: string, bundle: IPlanBundle) => Promise<void>>()
+
+vi.mock('./plan-bundle.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./plan-bundle.js')>()
+  return {
+    ...original,
+    hashWorkspaceSources: (workspacePath: string) => mockHashWorkspaceSources(workspacePath),
+    writePlanBundle: (path: string, bundle: IPlanBundle) => mockWritePlanBundle(path, bundle),
+  }
+})
+
 // Mock WorkspaceInterop
 const mockGetPlan = vi.fn()
 const mockApply = vi.fn()
@@ -102,6 +136,7 @@ describe('MultistageExecutor', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockUpdate.mockImplementation(async (fn) => fn(new State()))
+    mockConfigFingerprint.mockResolvedValue('fingerprint')
   })
 
   describe('environment validation', () => {
@@ -1238,6 +1273,463 @@ describe('MultistageExecutor', () => {
     })
   })
 
+  describe('--schedule dag', () => {
+    const originalInterop = vi.mocked(WorkspaceInterop).getMockImplementation()!
+
+    afterEach(() => {
+      vi.mocked(WorkspaceInterop).mockImplementation(originalInterop)
+    })
+
+    // Routes apply/getPlan through per-workspace handlers; everything else uses the shared mocks
+    function mockInteropPerWorkspace(handlers: {
+      apply?: (ws: Workspace) => Promise<unknown>
+      getPlan?: (ws: Workspace) => Promise<unknown>
+    }) {
+      vi.mocked(WorkspaceInterop).mockImplementation(
+        (monorepo, ws, env) =>
+          ({
+            ...originalInterop(monorepo, ws, env),
+            ...(handlers.apply ? { apply: () => handlers.apply!(ws) } : {}),
+            ...(handlers.getPlan ? { getPlan: () => handlers.getPlan!(ws) } : {}),
+          }) as unknown as WorkspaceInterop,
+      )
+    }
+
+    // ws1 → ws2 and ws3 → ws4: two unrelated branches sharing levels
+    function createTwoBranches() {
+      const ws1 = createWs('ws1')
+      const ws2 = createWs('ws2', ['ws1'])
+      const ws3 = createWs('ws3')
+      const ws4 = createWs('ws4', ['ws3'])
+      return new Monorepo('/root', [ws1, ws2, ws3, ws4], [], undefined)
+    }
+
+    it('should start a workspace before unrelated workspaces of the previous level finish', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createTwoBranches(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const events: string[] = []
+      mockInteropPerWorkspace({
+        apply: async (ws) => {
+          events.push(`start ${ws.name}`)
+          if (ws.name === 'ws1') await new Promise((resolve) => setTimeout(resolve, 20))
+          events.push(`end ${ws.name}`)
+          return {}
+        },
+      })
+
+      await executor.exec({
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(),
+        approve: 'all',
+        schedule: 'dag',
+      })
+
+      expect(events.indexOf('end ws4')).toBeLessThan(events.indexOf('end ws1'))
+      expect(events.indexOf('start ws2')).toBeGreaterThan(events.indexOf('end ws1'))
+    })
+
+    it('should skip only dependants of a failed workspace', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createTwoBranches(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const applied: string[] = []
+      mockInteropPerWorkspace({
+        apply: async (ws) => {
+          if (ws.name === 'ws1') throw new Error('apply failed')
+          applied.push(ws.name)
+          return {}
+        },
+      })
+
+      await expect(
+        executor.exec({
+          formatter: createFormatter(),
+          integration: createInteractiveIntegration(),
+          approve: 'all',
+          schedule: 'dag',
+        }),
+      ).rejects.toThrow('Failed to apply workspaces: ws1')
+
+      expect(applied.sort()).toEqual(['ws3', 'ws4'])
+    })
+
+    it('should ask for confirmation per workspace', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createTwoBranches(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockGetPlan.mockResolvedValue(
+        createProviderPlan({ changeSummary: { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 } }),
+      )
+      mockApply.mockResolvedValue({})
+
+      const integration = createInteractiveIntegration()
+      await executor.exec({ formatter: createFormatter(), integration, schedule: 'dag' })
+
+      expect(integration.askForConfirmation).toHaveBeenCalledTimes(4)
+      expect(integration.askForConfirmation).toHaveBeenCalledWith(expect.stringContaining('Apply ws2 (Level 2)?'))
+      expect(mockApply).toHaveBeenCalledTimes(4)
+    })
+
+    it('should hold unapproved workspaces and their dependants when not interactive', async () => {
+      envSelected()
+      const ws1 = createWs('ws1')
+      const ws2 = createWs('ws2', ['ws1'])
+      const ws3 = createWs('ws3', ['ws2'])
+      const monorepo = new Monorepo('/root', [ws1, ws2, ws3], [], undefined)
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockGetPlan.mockResolvedValue(
+        createProviderPlan({ changeSummary: { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 } }),
+      )
+      mockApply.mockResolvedValue({})
+
+      const integration = createNonInteractiveIntegration()
+      await executor.exec({ formatter: createFormatter(), integration, approve: [1], schedule: 'dag' })
+
+      // ws1 applied directly, ws2 planned and held, ws3 never started
+      expect(mockApply).toHaveBeenCalledTimes(1)
+      expect(mockGetPlan).toHaveBeenCalledTimes(1)
+      expect(integration.askForConfirmation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop at the first denied workspace', async () => {
+      envSelected()
+      const ws1 = createWs('ws1')
+      const ws2 = createWs('ws2', ['ws1'])
+      const monorepo = new Monorepo('/root', [ws1, ws2], [], undefined)
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockGetPlan.mockResolvedValue(
+        createProviderPlan({ changeSummary: { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 } }),
+      )
+
+      await executor.exec({
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(false),
+        schedule: 'dag',
+      })
+
+      expect(mockApply).not.toHaveBeenCalled()
+      expect(mockGetPlan).toHaveBeenCalledTimes(1)
+    })
+
+    it('should report plans level by level in level order', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createTwoBranches(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockInteropPerWorkspace({
+        getPlan: async (ws) => {
+          if (ws.name === 'ws1') await new Promise((resolve) => setTimeout(resolve, 20))
+          return createProviderPlan({ changeSummary: { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 } })
+        },
+      })
+
+      const onLevelPlanned = vi.fn().mockResolvedValue(undefined)
+      const result = await executor.plan({ formatter: createFormatter(), onLevelPlanned, schedule: 'dag' })
+
+      expect(result.hasChanges).toBe(true)
+      expect(onLevelPlanned).toHaveBeenCalledTimes(2)
+      const [first, second] = onLevelPlanned.mock.calls.map(([data]) => data)
+      expect(first.levelIndex).toBe(0)
+      expect(first.levelPlans.map((p: { workspace: Workspace }) => p.workspace.name)).toEqual(['ws1', 'ws3'])
+      expect(second.levelIndex).toBe(1)
+      expect(second.levelPlans.map((p: { workspace: Workspace }) => p.workspace.name)).toEqual(['ws2', 'ws4'])
+    })
+
+    it('should skip dependants of a workspace that failed to plan', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createTwoBranches(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const planned: string[] = []
+      mockInteropPerWorkspace({
+        getPlan: async (ws) => {
+          if (ws.name === 'ws1') throw new Error('plan failed')
+          planned.push(ws.name)
+          return createProviderPlan()
+        },
+      })
+
+      await expect(executor.plan({ formatter: createFormatter(), schedule: 'dag' })).rejects.toThrow(
+        'Failed to plan workspaces: ws1',
+      )
+      expect(planned.sort()).toEqual(['ws3', 'ws4'])
+    })
+  })
+
+  describe('parallelism', () => {
+    afterEach(() => {
+      globalConfig.parallelism = undefined
+    })
+
+    // resolves after a short delay and records the highest number of concurrent calls
+    function trackConcurrency<T>(result: T) {
+      const tracker = { running: 0, max: 0 }
+      const fn = async () => {
+        tracker.running++
+        tracker.max = Math.max(tracker.max, tracker.running)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        tracker.running--
+        return result
+      }
+      return { tracker, fn }
+    }
+
+    function createLevel(parallelism?: number) {
+      const workspaces = ['ws1', 'ws2', 'ws3', 'ws4'].map((name) => createWs(name))
+      const config = parallelism !== undefined ? { workspace: ['./*'], parallelism } : undefined
+      return new Monorepo('/root', workspaces, [], config)
+    }
+
+    it('should cap concurrent plans and applies by the root config setting', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createLevel(2), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const plan = trackConcurrency(
+        createProviderPlan({ changeSummary: { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 } }),
+      )
+      const apply = trackConcurrency({})
+      mockGetPlan.mockImplementation(plan.fn)
+      mockApply.mockImplementation(apply.fn)
+
+      await executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration() })
+
+      expect(mockApply).toHaveBeenCalledTimes(4)
+      expect(plan.tracker.max).toBe(2)
+      expect(apply.tracker.max).toBe(2)
+    })
+
+    it('should let --parallelism override the root config setting', async () => {
+      envSelected()
+      globalConfig.parallelism = 1
+      const ctx = new ExecutionContext(createLevel(3), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const plan = trackConcurrency(createProviderPlan())
+      mockGetPlan.mockImplementation(plan.fn)
+      mockGetOutputs.mockResolvedValue({ outputs: {}, actual: true })
+
+      await executor.plan({ formatter: createFormatter() })
+
+      expect(mockGetPlan).toHaveBeenCalledTimes(4)
+      expect(plan.tracker.max).toBe(1)
+    })
+
+    it('should not cap concurrency by default', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createLevel(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      const apply = trackConcurrency({})
+      mockApply.mockImplementation(apply.fn)
+
+      await executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), approve: 'all' })
+
+      expect(apply.tracker.max).toBe(4)
+    })
+  })
+
+  describe('run journal', () => {
+    function lastWrittenRun(): IRunJournal {
+      return mockWriteRun.mock.calls[mockWriteRun.mock.calls.length - 1][0]
+    }
+
+    function createRunJournal(overrides: Partial<IRunJournal> = {}): IRunJournal {
+      return {
+        id: 'run-1',
+        command: 'apply',
+        env: 'dev',
+        config_fingerprint: 'fingerprint',
+        ignore_dependencies: false,
+        status: 'failed',
+        started_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        workspaces: {
+          ws1: { status: 'applied', updated_at: '2026-01-01T00:00:00.000Z' },
+          ws2: { status: 'failed', error: 'apply failed', updated_at: '2026-01-01T00:00:00.000Z' },
+        },
+        ...overrides,
+      }
+    }
+
+    function createChain() {
+      const ws1 = createWs('ws1')
+      const ws2 = createWs('ws2', ['ws1'])
+      return new Monorepo('/root', [ws1, ws2], [], undefined)
+    }
+
+    it('should record each workspace outcome and the run status', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockGetPlan.mockResolvedValue(createProviderPlan())
+      mockGetOutputs.mockResolvedValue({ outputs: {}, actual: true })
+      mockApply.mockResolvedValue({})
+
+      await executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), approve: [2] })
+
+      const run = lastWrittenRun()
+      expect(run.status).toBe('completed')
+      expect(run.command).toBe('apply')
+      expect(run.env).toBe('dev')
+      expect(run.config_fingerprint).toBe('fingerprint')
+      expect(run.workspaces['ws1'].status).toBe('up-to-date')
+      expect(run.workspaces['ws2'].status).toBe('applied')
+    })
+
+    it('should record failed workspaces and mark the run failed', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      mockApply.mockRejectedValue(new Error('apply failed'))
+
+      await expect(
+        executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), approve: 'all' }),
+      ).rejects.toThrow('Failed to apply workspaces: ws1')
+
+      const run = lastWrittenRun()
+      expect(run.status).toBe('failed')
+      expect(run.workspaces['ws1']).toMatchObject({ status: 'failed', error: 'apply failed' })
+      expect(run.workspaces['ws2']).toBeUndefined()
+    })
+
+    it('should skip completed workspaces when resuming the latest run', async () => {
+      const state = new State()
+      state.startSelectingEnv('dev')
+      state.finishEnvSelection(['ws1', 'ws2'])
+      state.workspace('ws1').outputs = { url: { value: 'http://ws1', secret: false } }
+      mockRead.mockResolvedValue(state)
+      mockLatestRunId.mockResolvedValue('run-1')
+      mockReadRun.mockResolvedValue(createRunJournal())
+
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+      mockApply.mockResolvedValue({})
+
+      await executor.exec({
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(),
+        approve: 'all',
+        resume: true,
+      })
+
+      expect(mockReadRun).toHaveBeenCalledWith('run-1')
+      expect(mockApply).toHaveBeenCalledOnce()
+      expect(ctx.findAppliedOutput('ws1', 'url')).toEqual({ value: 'http://ws1', secret: false })
+      const run = lastWrittenRun()
+      expect(run.id).toBe('run-1')
+      expect(run.status).toBe('completed')
+      expect(run.workspaces['ws2'].status).toBe('applied')
+    })
+
+    it('should refuse to resume when the config changed', async () => {
+      envSelected()
+      mockReadRun.mockResolvedValue(createRunJournal({ config_fingerprint: 'old' }))
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      await expect(
+        executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), resume: 'run-1' }),
+      ).rejects.toThrow("Cannot resume run 'run-1': ig.yaml configuration changed since the run started")
+      expect(mockApply).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to resume a run from another environment', async () => {
+      envSelected()
+      mockReadRun.mockResolvedValue(createRunJournal({ env: 'prod' }))
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      await expect(
+        executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), resume: 'run-1' }),
+      ).rejects.toThrow("it was started in environment 'prod', not 'dev'")
+    })
+
+    it('should refuse to resume with a different workspace selection', async () => {
+      envSelected()
+      mockReadRun.mockResolvedValue(createRunJournal({ select: ['tag=network'] }))
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      await expect(
+        executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), resume: 'run-1' }),
+      ).rejects.toThrow('pass the same --project, --select and --no-deps options as the original run')
+    })
+
+    it('should refuse to resume when --changed-since finds other workspaces', async () => {
+      envSelected()
+      const monorepo = createChain()
+      const changedCtx = (changed: string[] | undefined) =>
+        new ExecutionContext(
+          monorepo,
+          undefined,
+          false,
+          false,
+          'dev',
+          undefined,
+          undefined,
+          changed?.map((name) => monorepo.getWorkspace(name)),
+        )
+      const opts: IExecOptions = {
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(),
+        resume: 'run-1',
+      }
+
+      mockReadRun.mockResolvedValue(createRunJournal({ changed_workspaces: ['ws2'] }))
+      await expect(new MultistageExecutor(changedCtx(undefined)).exec(opts)).rejects.toThrow(
+        "Cannot resume run 'run-1': it ran the workspaces changed since a git ref (ws2)",
+      )
+      await expect(new MultistageExecutor(changedCtx(['ws1'])).exec(opts)).rejects.toThrow(
+        'Pass a --changed-since ref that finds the same workspaces',
+      )
+
+      mockReadRun.mockResolvedValue(createRunJournal())
+      await expect(new MultistageExecutor(changedCtx(['ws2'])).exec(opts)).rejects.toThrow(
+        'it did not use --changed-since',
+      )
+      expect(mockApply).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to resume a completed run or a run started by another command', async () => {
+      envSelected()
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+      const opts: IExecOptions = {
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(),
+        resume: 'run-1',
+      }
+
+      mockReadRun.mockResolvedValue(createRunJournal({ status: 'completed' }))
+      await expect(executor.exec(opts)).rejects.toThrow('it already completed')
+
+      mockReadRun.mockResolvedValue(createRunJournal({ command: 'destroy' }))
+      await expect(executor.exec(opts)).rejects.toThrow("with 'apply': it was started by 'destroy'")
+    })
+
+    it('should fail when there is no run to resume', async () => {
+      envSelected()
+      mockLatestRunId.mockResolvedValue(null)
+      const ctx = new ExecutionContext(createChain(), undefined, false, false, 'dev')
+      const executor = new MultistageExecutor(ctx)
+
+      await expect(
+        executor.exec({ formatter: createFormatter(), integration: createInteractiveIntegration(), resume: true }),
+      ).rejects.toThrow('No previous run found in .ig/runs to resume')
+    })
+  })
+
   describe('streaming', () => {
     it('should pass onEvent callback to interop.apply', async () => {
       envSelected()
@@ -1694,6 +2186,200 @@ describe('MultistageExecutor', () => {
     })
   })
 
+  describe('plan bundles', () => {
+    const changes = { add: 1, change: 0, remove: 0, replace: 0, outputUpdates: 0 }
+    const url = (value: string) => ({ url: { value, secret: false } })
+
+    // ws2 injects the url output of ws1
+    function createMonorepo() {
+      const ws1 = createWs('ws1')
+      const ws2 = new Workspace(
+        'ws2',
+        '/path/to/ws2',
+        '/root',
+        createMockProvider(),
+        { url: { workspace: 'ws1', key: 'url' } },
+        [],
+        { dev: {} },
+      )
+      return new Monorepo('/root', [ws1, ws2], [], undefined)
+    }
+
+    async function planToBundle(monorepo: Monorepo): Promise<IPlanBundle> {
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+      await new MultistageExecutor(ctx).plan({ formatter: createFormatter(), out: 'plan.igplan' })
+      expect(mockWritePlanBundle).toHaveBeenCalledWith('plan.igplan', expect.anything())
+      const bundle = mockWritePlanBundle.mock.calls[0][1]
+      vi.clearAllMocks()
+      return bundle
+    }
+
+    function applyBundle(monorepo: Monorepo, bundle: IPlanBundle) {
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+      return new MultistageExecutor(ctx).applyBundle(bundle, {
+        formatter: createFormatter(),
+        integration: createInteractiveIntegration(),
+      })
+    }
+
+    beforeEach(() => {
+      envSelected()
+      mockHashWorkspaceSources.mockImplementation(async (path) => `hash:${path}`)
+      mockTakeTempFile.mockResolvedValue(Buffer.from('tfplan'))
+      mockStoreTempFile.mockImplementation(async (_path, fileName) => `../../.ig/.temp/ws1/${fileName}`)
+      mockGetOutputs.mockResolvedValue({ outputs: url('http://a'), actual: true })
+      mockGetPlan
+        .mockResolvedValueOnce(
+          createProviderPlan({ changeSummary: changes, planFile: '../../.ig/.temp/ws1/ig-plan.bin' }),
+        )
+        .mockResolvedValueOnce(createProviderPlan())
+    })
+
+    it('should save the plans, plan files, inputs and source hashes of every workspace', async () => {
+      const monorepo = createMonorepo()
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+
+      await new MultistageExecutor(ctx).plan({ formatter: createFormatter(), out: 'plan.igplan' })
+
+      expect(mockGetPlan).toHaveBeenCalledWith(expect.anything(), { savePlanFile: true })
+      expect(mockTakeTempFile).toHaveBeenCalledWith('/path/to/ws1', '../../.ig/.temp/ws1/ig-plan.bin')
+      const bundle = mockWritePlanBundle.mock.calls[0][1]
+      expect(bundle).toMatchObject({ env: 'dev', config_fingerprint: 'fingerprint', levels_count: 2 })
+      expect(bundle.workspaces).toEqual([
+        expect.objectContaining({
+          name: 'ws1',
+          level: 0,
+          sources_hash: 'hash:/path/to/ws1',
+          plan: expect.objectContaining({ changeSummary: changes }),
+          plan_file: Buffer.from('tfplan').toString('base64'),
+        }),
+        expect.objectContaining({
+          name: 'ws2',
+          level: 1,
+          plan: null,
+          inputs: { url: expect.objectContaining({ value: 'http://a', secret: false }) },
+        }),
+      ])
+    })
+
+    it('should apply the saved plan files without planning again', async () => {
+      const monorepo = createMonorepo()
+      const bundle = await planToBundle(monorepo)
+      mockApply.mockResolvedValue(url('http://a'))
+
+      await applyBundle(monorepo, bundle)
+
+      expect(mockGetPlan).not.toHaveBeenCalled()
+      expect(mockStoreTempFile).toHaveBeenCalledWith('/path/to/ws1', 'ig-plan.bin', Buffer.from('tfplan'))
+      expect(mockApply).toHaveBeenCalledTimes(1)
+      expect(mockApply).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({ planFile: '../../.ig/.temp/ws1/ig-plan.bin' }),
+      )
+    })
+
+    it('should refuse when workspace sources changed', async () => {
+      const monorepo = createMonorepo()
+      const bundle = await planToBundle(monorepo)
+      mockHashWorkspaceSources.mockImplementation(async (path) => (path.endsWith('ws2') ? 'edited' : `hash:${path}`))
+
+      await expect(applyBundle(monorepo, bundle)).rejects.toThrow('sources changed in ws2')
+      expect(mockApply).not.toHaveBeenCalled()
+    })
+
+    it('should refuse when the config changed', async () => {
+      const monorepo = createMonorepo()
+      const bundle = await planToBundle(monorepo)
+      mockConfigFingerprint.mockResolvedValue('changed')
+
+      await expect(applyBundle(monorepo, bundle)).rejects.toThrow('ig.yaml configuration changed')
+    })
+
+    it('should refuse when upstream outputs no longer match the planned inputs', async () => {
+      const monorepo = createMonorepo()
+      const bundle = await planToBundle(monorepo)
+      mockApply.mockResolvedValue(url('http://b'))
+
+      await expect(applyBundle(monorepo, bundle)).rejects.toThrow(
+        'inputs of ws2 no longer match their upstream outputs (url)',
+      )
+      expect(mockApply).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse a bundle planned for another environment', async () => {
+      const monorepo = createMonorepo()
+      const bundle = await planToBundle(monorepo)
+
+      await expect(applyBundle(monorepo, { ...bundle, env: 'prod' })).rejects.toThrow(
+        "Plan bundle was created for environment 'prod', not 'dev'",
+      )
+    })
+
+    it('should refuse bundles of workspaces that use dynamic secrets', async () => {
+      const resolvers = { 'vault-dynamic': { deferred: true, resolve: vi.fn(async () => 'password') } }
+      const dynamicEnvs = { dev: { vars: { db_password: '${vault-dynamic:database/creds/app#password}' } } }
+      const ws1 = new Workspace('ws1', '/path/to/ws1', '/root', createMockProvider(), {}, [], dynamicEnvs)
+      const monorepo = new Monorepo('/root', [ws1], [], undefined, {}, {}, undefined, resolvers)
+      const ctx = new ExecutionContext(monorepo, undefined, false, false, 'dev')
+      const refusal =
+        "Plan bundles cannot hold dynamic Vault secrets, which belong to the run that reads them. ${vault-dynamic:...} is used in environment 'dev' by ws1"
+
+      await expect(
+        new MultistageExecutor(ctx).plan({ formatter: createFormatter(), out: 'plan.igplan' }),
+      ).rejects.toThrow(refusal)
+      expect(mockGetPlan).not.toHaveBeenCalled()
+
+      const bundle = await planToBundle(new Monorepo('/root', [createWs('ws1')], [], undefined))
+      await expect(applyBundle(monorepo, bundle)).rejects.toThrow(refusal)
+      expect(mockApply).not.toHaveBeenCalled()
+      expect(resolvers['vault-dynamic'].resolve).not.toHaveBeenCalled()
+    })
+
+    describe('without plan files', () => {
+      const create = {
+        address: 'res.a',
+        type: 'res',
+        name: 'a',
+        status: 'pending' as const,
+        before: null,
+        after: {},
+        metadata: {},
+      }
+
+      beforeEach(() => {
+        mockGetPlan.mockReset()
+        mockGetPlan.mockResolvedValue(
+          createProviderPlan({ changeSummary: changes, resourceChanges: [{ ...create, actions: ['create'] }] }),
+        )
+      })
+
+      it('should plan again and apply when the changes are the same', async () => {
+        const monorepo = new Monorepo('/root', [createWs('ws1')], [], undefined)
+        const bundle = await planToBundle(monorepo)
+        mockApply.mockResolvedValue(url('http://a'))
+
+        await applyBundle(monorepo, bundle)
+
+        expect(mockGetPlan).toHaveBeenCalledTimes(1)
+        expect(mockApply).toHaveBeenCalledWith({}, expect.not.objectContaining({ planFile: expect.anything() }))
+      })
+
+      it('should refuse when planning again gives different changes', async () => {
+        const monorepo = new Monorepo('/root', [createWs('ws1')], [], undefined)
+        const bundle = await planToBundle(monorepo)
+        mockGetPlan.mockResolvedValue(
+          createProviderPlan({
+            changeSummary: changes,
+            resourceChanges: [{ ...create, actions: ['delete', 'create'] }],
+          }),
+        )
+
+        await expect(applyBundle(monorepo, bundle)).rejects.toThrow('ws1 no longer plans the saved changes')
+        expect(mockApply).not.toHaveBeenCalled()
+      })
+    })
+  })
+
   describe('--start-with-project', () => {
     function envSelectedWithOutputs(
       workspaceOutputs: Record<string, Record<string, { value: string; secret: boolean }>>,
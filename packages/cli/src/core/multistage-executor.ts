@@ -1,6 +1,20 @@
+import { basename } from 'path'
 import { type ExecutionContext, type ExecutionPlan, ExecutionPlanBuilder, Workspace } from './model.js'
-import { StateManager } from './state-manager.js'
-import { logger, UserError } from '../utils/index.js'
+import { newRunId, StateManager } from './state-manager.js'
+import type { IRunJournal, IRunWorkspaceEntry, RunStatus, RunWorkspaceStatus } from './state-files.js'
+import { computeConfigFingerprint } from './monorepo-reader.js'
+import {
+  changedInputs,
+  describeInputs,
+  hashWorkspaceSources,
+  type IPlanBundle,
+  type IPlanBundleWorkspace,
+  PLAN_BUNDLE_VERSION,
+  plannedChanges,
+  writePlanBundle,
+} from './plan-bundle.js'
+import { globalConfig } from './global-config.js'
+import { hasDeferredReferences, logger, Mutex, runGraphNodes, Semaphore, UserError } from '../utils/index.js'
 import {
   type ChangeSummary,
   hasChanges,
@@ -24,12 +38,20 @@ import {
   type IPlanRenderer,
 } from '../rendering/index.js'
 
+const STALE_BUNDLE = "Plan bundle is stale. Run 'ig plan --out' again"
+
 export interface LevelPlanEntry {
   workspace: Workspace
   inputs: ProviderInput
   plan: ProviderPlan
 }
 
+interface ApplyEntry {
+  workspace: Workspace
+  inputs: ProviderInput
+  planFile?: string
+}
+
 export interface LevelPlanReport {
   levelIndex: number
   levelPlans: LevelPlanEntry[]
@@ -38,9 +60,21 @@ export interface LevelPlanReport {
 
 export class MultistageExecutor {
   private readonly stateManager: StateManager
+  // caps concurrent provider invocations; --parallelism wins over the root ig.yaml setting
+  private readonly providerSlots: Semaphore
+  // journal of the apply/destroy run in progress; null for plan, drift and refresh
+  private run: IRunJournal | null = null
 
   public constructor(private readonly ctx: ExecutionContext) {
     this.stateManager = new StateManager(this.ctx.monorepo.path)
+    this.providerSlots = new Semaphore(
+      globalConfig.parallelism ?? this.ctx.monorepo.configFile?.parallelism ?? Number.POSITIVE_INFINITY,
+    )
+  }
+
+  private async acquireProviderSlot(onQueued: () => void): Promise<() => void> {
+    if (this.providerSlots.available === 0) onQueued()
+    return this.providerSlots.acquire()
   }
 
   private async validateEnv() {
@@ -73,7 +107,7 @@ export class MultistageExecutor {
     if (targetLevelIndex === -1) {
       throw new UserError(
         `Workspace '${target.name}' not found in the execution plan. ` +
-          `It may not have the selected environment or may be filtered out by --project.`,
+          `It may not have the selected environment or may be filtered out by --project or --select.`,
       )
     }
 
@@ -154,9 +188,10 @@ export class MultistageExecutor {
 
     const results = await Promise.allSettled(
       workspaces.map(async (ws, i) => {
-        nonTtyRenderer?.writeStatusChange(ws.name, 'planning...')
         try {
-          const entry = await this.planSingleWorkspace(ws, planStates[i], options)
+          const entry = await this.planSingleWorkspace(ws, planStates[i], options, (message) =>
+            nonTtyRenderer?.writeStatusChange(ws.name, message),
+          )
           const st = planStates[i]
           if (st.status === 'done' && st.changeSummary) {
             const cs = st.changeSummary
@@ -203,58 +238,77 @@ export class MultistageExecutor {
     workspace: Workspace,
     state: WorkspacePlanState | null,
     options?: { detailed?: boolean; savePlanFile?: boolean },
+    onStatusChange?: (message: string) => void,
   ): Promise<LevelPlanEntry | null> {
-    const interop = this.ctx.interop(workspace)
-
+    const release = await this.acquireProviderSlot(() => {
+      state?.markQueued()
+      onStatusChange?.('queued')
+    })
     state?.markPlanning()
+    onStatusChange?.('planning...')
 
     try {
-      if (this.ctx.isDestroy) {
-        const isDestroyed = await interop.isDestroyed()
-        if (isDestroyed) {
-          if (!state) logger.info(`✅ ${workspace.name} is already destroyed.`)
-          state?.markUpToDate()
-          return null
-        }
+      const entry = await this.planWorkspace(workspace, state, options)
+      await this.recordRunOutcome(workspace, entry ? 'planned' : 'up-to-date')
+      return entry
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error)
+      state?.markFailed(msg)
+      await this.recordRunOutcome(workspace, 'failed', error)
+      throw error
+    } finally {
+      release()
+    }
+  }
 
-        const inputs: ProviderInput = await this.ctx.getInputs(workspace, { bestEffort: true })
-        const plan = await interop.destroyPlan(inputs, options?.savePlanFile ? { savePlanFile: true } : undefined)
+  private async planWorkspace(
+    workspace: Workspace,
+    state: WorkspacePlanState | null,
+    options?: { detailed?: boolean; savePlanFile?: boolean },
+  ): Promise<LevelPlanEntry | null> {
+    const interop = this.ctx.interop(workspace)
 
-        if (!hasChanges(plan)) {
-          if (!state) logger.info(`✅ Nothing to destroy in ${workspace.name}`)
-          state?.markUpToDate()
-          return null
-        }
+    if (this.ctx.isDestroy) {
+      const isDestroyed = await interop.isDestroyed()
+      if (isDestroyed) {
+        if (!state) logger.info(`✅ ${workspace.name} is already destroyed.`)
+        state?.markUpToDate()
+        return null
+      }
 
-        state?.markDone(plan.changeSummary)
-        return { workspace, inputs, plan }
-      } else {
-        const inputs: ProviderInput = await this.ctx.getInputs(workspace)
-        const plan = await interop.getPlan(inputs, options)
+      const inputs: ProviderInput = await this.ctx.getInputs(workspace, { bestEffort: true })
+      const plan = await interop.destroyPlan(inputs, options?.savePlanFile ? { savePlanFile: true } : undefined)
 
-        if (!hasChanges(plan)) {
-          const { outputs } = await interop.getOutputs({ stale: this.ctx.ignoreDependencies })
+      if (!hasChanges(plan)) {
+        if (!state) logger.info(`✅ Nothing to destroy in ${workspace.name}`)
+        state?.markUpToDate()
+        return null
+      }
 
-          if (hasOutputDiff(plan.outputs, outputs)) {
-            if (!state) logger.info(`📤 ${workspace.name} has output-only changes`)
-            state?.markDone(plan.changeSummary)
-            return { workspace, inputs, plan }
-          }
+      state?.markDone(plan.changeSummary)
+      return { workspace, inputs, plan }
+    } else {
+      const inputs: ProviderInput = await this.ctx.getInputs(workspace)
+      const plan = await interop.getPlan(inputs, options)
 
-          if (!state) logger.info(`✅ ${workspace.name} is up to date.`)
-          logger.debug(`Outputs: ${JSON.stringify(outputs, null, 2)}`)
-          this.ctx.storeWorkspaceOutputs(workspace, outputs)
-          state?.markUpToDate()
-          return null
+      if (!hasChanges(plan)) {
+        const { outputs } = await interop.getOutputs({ stale: this.ctx.ignoreDependencies })
+
+        if (hasOutputDiff(plan.outputs, outputs)) {
+          if (!state) logger.info(`📤 ${workspace.name} has output-only changes`)
+          state?.markDone(plan.changeSummary)
+          return { workspace, inputs, plan }
         }
 
-        state?.markDone(plan.changeSummary)
-        return { workspace, inputs, plan }
+        if (!state) logger.info(`✅ ${workspace.name} is up to date.`)
+        logger.debug(`Outputs: ${JSON.stringify(outputs, null, 2)}`)
+        this.ctx.storeWorkspaceOutputs(workspace, outputs)
+        state?.markUpToDate()
+        return null
       }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error)
-      state?.markFailed(msg)
-      throw error
+
+      state?.markDone(plan.changeSummary)
+      return { workspace, inputs, plan }
     }
   }
 
@@ -287,13 +341,18 @@ export class MultistageExecutor {
     const failures = results
       .map((r, i) => ({ result: r, workspace: workspaces[i] }))
       .filter((x): x is { result: PromiseRejectedResult; workspace: Workspace } => x.result.status === 'rejected')
+      .map(({ result, workspace }) => ({ workspace, reason: result.reason as unknown }))
 
+    this.throwOnApplyFailures(failures)
+  }
+
+  private throwOnApplyFailures(failures: { workspace: Workspace; reason: unknown }[]): void {
     if (failures.length > 0) {
       const failedNames = failures.map((f) => f.workspace.name)
       const action = this.ctx.isDestroy ? 'destroy' : 'apply'
-      for (const { workspace, result } of failures) {
-        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason)
-        logger.error(`   Failed to ${action} ${workspace.name}:\n${reason}`)
+      for (const { workspace, reason } of failures) {
+        const message = reason instanceof Error ? reason.message : String(reason)
+        logger.error(`   Failed to ${action} ${workspace.name}:\n${message}`)
       }
       throw new UserError(
         `Failed to ${action} workspaces: ${failedNames.join(', ')}. ` +
@@ -307,8 +366,29 @@ export class MultistageExecutor {
 
     const executionPlan = new ExecutionPlanBuilder(this.ctx).build()
     const startIndex = opts.startFromLevel ?? (await this.resolveStartLevel(executionPlan))
+    if (opts.out) {
+      this.assertBundleable(executionPlan.levels.slice(startIndex).flatMap((level) => level.workspaces))
+    }
     logger.info(`\n Selected Environment: ${this.ctx.env}`)
 
+    const entries = new Map<Workspace, LevelPlanEntry>()
+    const result =
+      opts.schedule === 'dag'
+        ? await this.planDag(executionPlan, startIndex, opts, entries)
+        : await this.planLevels(executionPlan, startIndex, opts, entries)
+
+    if (opts.out) {
+      await this.savePlanBundle(opts.out, executionPlan, startIndex, entries)
+    }
+    return result
+  }
+
+  private async planLevels(
+    executionPlan: ExecutionPlan,
+    startIndex: number,
+    opts: IPlanExecOptions,
+    entries: Map<Workspace, LevelPlanEntry>,
+  ): Promise<PlanResult> {
     let hasAnyChanges = false
 
     for (let levelIndex = startIndex; levelIndex < executionPlan.levelsCount; levelIndex++) {
@@ -317,7 +397,8 @@ export class MultistageExecutor {
       logger.info(`\n🔧 Processing Level ${levelIndex + 1}/${executionPlan.levelsCount}`)
       logger.info('=====================================')
 
-      const levelPlans = await this.gatherLevelPlans(level.workspaces, opts.detailed ? { detailed: true } : undefined)
+      const levelPlans = await this.gatherLevelPlans(level.workspaces, planOptions(opts))
+      for (const entry of levelPlans) entries.set(entry.workspace, entry)
 
       if (levelPlans.length === 0) {
         logger.info('✅ No changes needed in this level')
@@ -325,63 +406,203 @@ export class MultistageExecutor {
       }
 
       hasAnyChanges = true
-      this.logPlanSummary(
-        levelIndex,
-        levelPlans,
-        opts.formatter,
-        opts.detailed ? { skipFormattedPlan: true } : undefined,
-      )
+      await this.reportLevelPlan(levelIndex, levelPlans, executionPlan.levelsCount, opts)
+    }
 
-      if (opts.onLevelPlanned) {
-        await opts.onLevelPlanned({
-          levelIndex,
-          levelPlans,
-          levelsCount: executionPlan.levelsCount,
-        })
-      }
+    return { hasChanges: hasAnyChanges }
+  }
+
+  /*
+    Plans every workspace as soon as its own dependencies are planned.
+    Results are still reported level by level, in level order, once the whole run has finished.
+   */
+  private async planDag(
+    executionPlan: ExecutionPlan,
+    startIndex: number,
+    opts: IPlanExecOptions,
+    entries: Map<Workspace, LevelPlanEntry>,
+  ): Promise<PlanResult> {
+    const workspaces = executionPlan.levels.slice(startIndex).flatMap((level) => level.workspaces)
+    const options = planOptions(opts)
+
+    logger.info(`\n🔧 Planning ${workspaces.length} workspaces as dependencies complete (dag schedule)`)
+    logger.info('=====================================')
+
+    const isTTY = process.stderr.isTTY ?? false
+    const renderer: IPlanRenderer = isTTY ? new PlanLiveRenderer() : new PlanNonTtyRenderer()
+    const nonTtyRenderer = !isTTY ? (renderer as PlanNonTtyRenderer) : null
+
+    const planStates = new Map(
+      workspaces.map((ws) => {
+        const state = new WorkspacePlanState(ws.name)
+        renderer.addWorkspace(state)
+        return [ws, state]
+      }),
+    )
+    renderer.start()
 
-      if (opts.detailed) {
-        for (const { workspace, plan } of levelPlans) {
-          const diff = computeDetailedDiff(plan.resourceChanges)
-          logger.info(
-            `\n🔍 ${workspace.name}: ${diff.metadataOnlyCount} metadata-only, ${diff.realChangeCount} real changes`,
+    const results = await runGraphNodes(
+      workspaces,
+      (ws) => executionPlan.dependenciesOf(ws),
+      async (ws) => {
+        const st = planStates.get(ws)!
+        try {
+          const entry = await this.planSingleWorkspace(ws, st, options, (message) =>
+            nonTtyRenderer?.writeStatusChange(ws.name, message),
           )
+          if (entry) entries.set(ws, entry)
+          if (st.status === 'done' && st.changeSummary) {
+            const cs = st.changeSummary
+            nonTtyRenderer?.writeStatusChange(ws.name, `+${cs.add} ~${cs.change} -${cs.remove} (${st.elapsedSeconds}s)`)
+          } else if (st.status === 'up-to-date') {
+            nonTtyRenderer?.writeStatusChange(ws.name, `up to date (${st.elapsedSeconds}s)`)
+          }
+          return true
+        } catch (error) {
+          nonTtyRenderer?.writeStatusChange(ws.name, `failed (${st.elapsedSeconds}s)`)
+          throw error
+        }
+      },
+    )
 
-          if (diff.metadataOnlyCount > 0) {
-            logger.info(`\n   metadata-only (${diff.metadataOnlyCount}):`)
-            for (const resource of diff.resources) {
-              if (resource.isMetadataOnly) {
-                logger.info(`      ${resource.address}`)
-              }
+    renderer.stop()
+
+    let hasAnyChanges = false
+
+    for (let levelIndex = startIndex; levelIndex < executionPlan.levelsCount; levelIndex++) {
+      const level = executionPlan.levels[levelIndex]
+      if (level.workspaces.some((ws) => results.get(ws)?.status !== 'done')) {
+        break
+      }
+
+      const levelPlans = level.workspaces.flatMap((ws) => entries.get(ws) ?? [])
+      if (levelPlans.length === 0) {
+        continue
+      }
+
+      hasAnyChanges = true
+      await this.reportLevelPlan(levelIndex, levelPlans, executionPlan.levelsCount, opts)
+    }
+
+    const failures: string[] = []
+    for (const [ws, result] of results) {
+      if (result.status === 'failed') {
+        const error = result.error instanceof Error ? result.error.message : String(result.error)
+        logger.error(`   Failed to plan ${ws.name}:\n${error}`)
+        failures.push(ws.name)
+      } else if (result.status === 'skipped') {
+        logger.warn(`   Skipped ${ws.name}: a dependency failed to plan`)
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new UserError(`Failed to plan workspaces: ${failures.join(', ')}`)
+    }
+
+    if (!hasAnyChanges) {
+      logger.info('✅ No changes needed')
+    }
+
+    return { hasChanges: hasAnyChanges }
+  }
+
+  private async reportLevelPlan(
+    levelIndex: number,
+    levelPlans: LevelPlanEntry[],
+    levelsCount: number,
+    opts: IPlanExecOptions,
+  ): Promise<void> {
+    this.logPlanSummary(levelIndex, levelPlans, opts.formatter, opts.detailed ? { skipFormattedPlan: true } : undefined)
+
+    if (opts.onLevelPlanned) {
+      await opts.onLevelPlanned({
+        levelIndex,
+        levelPlans,
+        levelsCount,
+      })
+    }
+
+    if (opts.detailed) {
+      for (const { workspace, plan } of levelPlans) {
+        const diff = computeDetailedDiff(plan.resourceChanges)
+        logger.info(
+          `\n🔍 ${workspace.name}: ${diff.metadataOnlyCount} metadata-only, ${diff.realChangeCount} real changes`,
+        )
+
+        if (diff.metadataOnlyCount > 0) {
+          logger.info(`\n   metadata-only (${diff.metadataOnlyCount}):`)
+          for (const resource of diff.resources) {
+            if (resource.isMetadataOnly) {
+              logger.info(`      ${resource.address}`)
             }
           }
+        }
 
-          if (diff.realChangeCount > 0) {
-            logger.info(`\n   real changes (${diff.realChangeCount}):`)
-            for (const resource of diff.resources) {
-              if (!resource.isMetadataOnly && resource.attributeDiffs.length > 0) {
-                logger.info(`      ${resource.address}`)
-                for (const attr of resource.attributeDiffs) {
-                  logger.info(`         ${attr.key}: ${JSON.stringify(attr.before)} → ${JSON.stringify(attr.after)}`)
-                }
-              } else if (!resource.isMetadataOnly) {
-                logger.info(`      ${resource.address} [${resource.actions.join(', ')}]`)
+        if (diff.realChangeCount > 0) {
+          logger.info(`\n   real changes (${diff.realChangeCount}):`)
+          for (const resource of diff.resources) {
+            if (!resource.isMetadataOnly && resource.attributeDiffs.length > 0) {
+              logger.info(`      ${resource.address}`)
+              for (const attr of resource.attributeDiffs) {
+                logger.info(`         ${attr.key}: ${JSON.stringify(attr.before)} → ${JSON.stringify(attr.after)}`)
               }
+            } else if (!resource.isMetadataOnly) {
+              logger.info(`      ${resource.address} [${resource.actions.join(', ')}]`)
             }
-          } else {
-            logger.info(`\n   real changes (0): (none)`)
           }
+        } else {
+          logger.info(`\n   real changes (0): (none)`)
         }
       }
     }
+  }
 
-    return { hasChanges: hasAnyChanges }
+  /*
+    Writes the plans of this run to a bundle for 'ig apply <bundle>'. Saved plan files are moved into the bundle.
+    Up-to-date workspaces are recorded too, so that apply can check they still are.
+   */
+  private async savePlanBundle(
+    path: string,
+    executionPlan: ExecutionPlan,
+    startIndex: number,
+    entries: Map<Workspace, LevelPlanEntry>,
+  ): Promise<void> {
+    const workspaces: IPlanBundleWorkspace[] = []
+
+    for (let levelIndex = startIndex; levelIndex < executionPlan.levelsCount; levelIndex++) {
+      for (const workspace of executionPlan.levels[levelIndex].workspaces) {
+        const entry = entries.get(workspace)
+        const inputs = entry?.inputs ?? (await this.ctx.getInputs(workspace))
+        const bundled: IPlanBundleWorkspace = {
+          name: workspace.name,
+          level: levelIndex,
+          sources_hash: await hashWorkspaceSources(workspace.path),
+          inputs: describeInputs(inputs),
+          plan: entry?.plan ?? null,
+        }
+        if (entry?.plan.planFile) {
+          const content = await this.stateManager.takeWorkspaceTempFile(workspace.path, entry.plan.planFile)
+          bundled.plan_file = content.toString('base64')
+        }
+        workspaces.push(bundled)
+      }
+    }
+
+    await writePlanBundle(path, {
+      version: PLAN_BUNDLE_VERSION,
+      env: this.ctx.env,
+      config_fingerprint: await computeConfigFingerprint(this.ctx.monorepo),
+      project: this.ctx.currentWorkspace?.name,
+      select: this.ctx.selector?.expressions,
+      ignore_dependencies: this.ctx.ignoreDependencies,
+      levels_count: executionPlan.levelsCount,
+      created_at: new Date().toISOString(),
+      workspaces,
+    })
+    logger.info(`\n📦 Plan saved to ${path}. Apply it with 'ig apply ${path}'`)
   }
 
-  private async applyWorkspaces(
-    entries: Array<{ workspace: Workspace; inputs: ProviderInput; planFile?: string }>,
-    levelIndex: number,
-  ): Promise<WorkspaceApplyState[]> {
+  private async applyWorkspaces(entries: ApplyEntry[], levelIndex: number): Promise<WorkspaceApplyState[]> {
     const action = this.ctx.isDestroy ? 'Destroying' : 'Applying'
     logger.info(`\n🚀 ${action} Level ${levelIndex + 1}...`)
 
@@ -402,39 +623,9 @@ export class MultistageExecutor {
     process.on('SIGINT', onSigint)
 
     const results = await Promise.allSettled(
-      entries.map(async ({ workspace, inputs, planFile }, i) => {
-        const interop = this.ctx.interop(workspace)
-        const wsState = wsStates[i]
-
-        const onEvent = (event: ProviderEvent) => {
-          wsState.handleEvent(event)
-          if (!isTTY) (renderer as NonTtyRenderer).writeEvent(workspace.name, event)
-        }
-
-        const applyOpts = planFile ? { onEvent, planFile } : { onEvent }
-
-        if (this.ctx.isDestroy) {
-          try {
-            await interop.destroy(inputs, applyOpts)
-            wsState.markComplete()
-            this.ctx.storeDestroyedWorkspace(workspace)
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : String(error)
-            wsState.markFailed(msg)
-            throw error
-          }
-        } else {
-          try {
-            const outputs = await interop.apply(inputs, applyOpts)
-            wsState.markComplete()
-            this.ctx.storeWorkspaceOutputs(workspace, outputs)
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : String(error)
-            wsState.markFailed(msg)
-            throw error
-          }
-        }
-        return workspace
+      entries.map(async (entry, i) => {
+        await this.applyEntry(entry, wsStates[i], isTTY ? null : (renderer as NonTtyRenderer))
+        return entry.workspace
       }),
     )
 
@@ -449,25 +640,74 @@ export class MultistageExecutor {
     return wsStates
   }
 
-  private async applyLevelDirectly(workspaces: Workspace[], levelIndex: number): Promise<WorkspaceApplyState[]> {
-    logger.info(`Level ${levelIndex + 1} pre-approved, applying directly...`)
+  private async applyEntry(
+    { workspace, inputs, planFile }: ApplyEntry,
+    wsState: WorkspaceApplyState,
+    nonTtyRenderer: NonTtyRenderer | null,
+  ): Promise<void> {
+    const interop = this.ctx.interop(workspace)
 
-    const entries: Array<{ workspace: Workspace; inputs: ProviderInput }> = []
+    const onEvent = (event: ProviderEvent) => {
+      wsState.handleEvent(event)
+      nonTtyRenderer?.writeEvent(workspace.name, event)
+    }
 
-    for (const workspace of workspaces) {
+    const applyOpts = planFile ? { onEvent, planFile } : { onEvent }
+
+    const release = await this.acquireProviderSlot(() => {
+      wsState.markQueued()
+      nonTtyRenderer?.writeStatusChange(workspace.name, 'queued')
+    })
+    wsState.markStarted()
+
+    try {
       if (this.ctx.isDestroy) {
-        const interop = this.ctx.interop(workspace)
-        const isDestroyed = await interop.isDestroyed()
-        if (isDestroyed) {
-          logger.info(`✅ ${workspace.name} is already destroyed.`)
-          continue
-        }
-        const inputs = await this.ctx.getInputs(workspace, { bestEffort: true })
-        entries.push({ workspace, inputs })
+        await interop.destroy(inputs, applyOpts)
+        wsState.markComplete()
+        this.ctx.storeDestroyedWorkspace(workspace)
+        await this.recordRunOutcome(workspace, 'destroyed')
       } else {
-        const inputs = await this.ctx.getInputs(workspace)
-        entries.push({ workspace, inputs })
+        const outputs = await interop.apply(inputs, applyOpts)
+        wsState.markComplete()
+        this.ctx.storeWorkspaceOutputs(workspace, outputs)
+        await this.recordRunOutcome(workspace, 'applied')
       }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error)
+      wsState.markFailed(msg)
+      await this.recordRunOutcome(workspace, 'failed', error)
+      throw error
+    } finally {
+      release()
+    }
+  }
+
+  // returns null when there is nothing to apply (workspace already destroyed)
+  private async prepareDirectApply(workspace: Workspace): Promise<ApplyEntry | null> {
+    if (this.ctx.isDestroy) {
+      const interop = this.ctx.interop(workspace)
+      const isDestroyed = await interop.isDestroyed()
+      if (isDestroyed) {
+        logger.info(`✅ ${workspace.name} is already destroyed.`)
+        await this.recordRunOutcome(workspace, 'up-to-date')
+        return null
+      }
+      const inputs = await this.ctx.getInputs(workspace, { bestEffort: true })
+      return { workspace, inputs }
+    }
+
+    const inputs = await this.ctx.getInputs(workspace)
+    return { workspace, inputs }
+  }
+
+  private async applyLevelDirectly(workspaces: Workspace[], levelIndex: number): Promise<WorkspaceApplyState[]> {
+    logger.info(`Level ${levelIndex + 1} pre-approved, applying directly...`)
+
+    const entries: ApplyEntry[] = []
+
+    for (const workspace of workspaces) {
+      const entry = await this.prepareDirectApply(workspace)
+      if (entry) entries.push(entry)
     }
 
     if (entries.length === 0) {
@@ -488,65 +728,481 @@ export class MultistageExecutor {
     const endLevel =
       opts.upToLevel !== undefined ? Math.min(opts.upToLevel, executionPlan.levelsCount) : executionPlan.levelsCount
 
+    this.run = await this.openRun(opts)
+
+    let status: RunStatus
+    try {
+      status =
+        opts.schedule === 'dag'
+          ? await this.execDag(executionPlan, startIndex, endLevel, opts)
+          : await this.execLevels(executionPlan, startIndex, endLevel, opts)
+    } catch (error) {
+      await this.closeRun('failed')
+      throw error
+    }
+    await this.closeRun(status)
+  }
+
+  private async execLevels(
+    executionPlan: ExecutionPlan,
+    startIndex: number,
+    endLevel: number,
+    opts: IExecOptions,
+  ): Promise<RunStatus> {
     for (let levelIndex = startIndex; levelIndex < endLevel; levelIndex++) {
       const level = executionPlan.levels[levelIndex]
 
       logger.info(`\n🔧 Processing Level ${levelIndex + 1}/${executionPlan.levelsCount}`)
       logger.info('=====================================')
 
+      const workspaces = await this.skipCompletedInRun(level.workspaces)
+      if (workspaces.length === 0) {
+        logger.info(`✅ Level ${levelIndex + 1} already completed in run ${this.run?.id}`)
+        continue
+      }
+
       if (isLevelApproved(opts.approve, levelIndex + 1)) {
-        const wsStates = await this.applyLevelDirectly(level.workspaces, levelIndex)
+        const wsStates = await this.applyLevelDirectly(workspaces, levelIndex)
         logger.info(`✅ Level ${levelIndex + 1} completed${formatLevelChangeSummary(wsStates)}`)
         continue
       }
 
-      const levelPlans = await this.gatherLevelPlans(level.workspaces, { savePlanFile: true })
+      const levelPlans = await this.gatherLevelPlans(workspaces, { savePlanFile: true })
 
       if (levelPlans.length === 0) {
         logger.info('✅ No changes needed in this level')
         continue
       }
 
-      this.logPlanSummary(levelIndex, levelPlans, opts.formatter, { skipFormattedPlan: true })
+      const declined = await this.confirmLevel(levelIndex, levelPlans, opts)
+      if (declined) return declined
 
-      let message = levelPlans
-        .map(({ workspace, plan }) => {
-          const formatted = opts.formatter.format(plan)
-          return `${workspace.name}:\n${formatted}`
-        })
-        .join('\n\n')
+      const entries = levelPlans.map(({ workspace, inputs, plan }) => {
+        const entry: ApplyEntry = { workspace, inputs }
+        if (plan.planFile) entry.planFile = plan.planFile
+        return entry
+      })
+      const wsStates = await this.applyWorkspaces(entries, levelIndex)
 
-      message += '\n--------------------------------\n'
-      message += `Apply all workspaces in Level ${levelIndex + 1}?`
+      logger.info(`✅ Level ${levelIndex + 1} completed${formatLevelChangeSummary(wsStates)}`)
+    }
 
-      const answer = await opts.integration.askForConfirmation(message)
+    this.logCompletion()
+    return 'completed'
+  }
 
-      if (!opts.integration.interactive) {
-        logger.info('Not interactive, waiting for confirmation and another cli execution')
-        return
+  // asks to apply a planned level; returns the run status to stop with when it is not confirmed
+  private async confirmLevel(
+    levelIndex: number,
+    levelPlans: LevelPlanEntry[],
+    opts: IExecOptions,
+  ): Promise<RunStatus | null> {
+    this.logPlanSummary(levelIndex, levelPlans, opts.formatter, { skipFormattedPlan: true })
+
+    let message = levelPlans
+      .map(({ workspace, plan }) => {
+        const formatted = opts.formatter.format(plan)
+        return `${workspace.name}:\n${formatted}`
+      })
+      .join('\n\n')
+
+    message += '\n--------------------------------\n'
+    message += `Apply all workspaces in Level ${levelIndex + 1}?`
+
+    const answer = await opts.integration.askForConfirmation(message)
+
+    if (!opts.integration.interactive) {
+      logger.info('Not interactive, waiting for confirmation and another cli execution')
+      return 'waiting'
+    }
+
+    if (!answer) {
+      logger.info('Aborting...')
+      return 'aborted'
+    }
+
+    return null
+  }
+
+  /*
+    Applies every workspace as soon as its own dependencies are applied.
+    Approval is asked per workspace (one prompt at a time); --approve still pre-approves by level number.
+    A workspace that is not approved holds back only its own dependants.
+   */
+  private async execDag(
+    executionPlan: ExecutionPlan,
+    startIndex: number,
+    endLevel: number,
+    opts: IExecOptions,
+  ): Promise<RunStatus> {
+    const selected = executionPlan.levels.slice(startIndex, endLevel).flatMap((level) => level.workspaces)
+    const workspaces = await this.skipCompletedInRun(selected)
+    const action = this.ctx.isDestroy ? 'Destroying' : 'Applying'
+
+    logger.info(`\n🚀 ${action} ${workspaces.length} workspaces as dependencies complete (dag schedule)`)
+    logger.info('=====================================')
+
+    // Confirmation prompts would fight with the live renderer for the terminal,
+    // so the append-only renderer is used unless every workspace is pre-approved.
+    const allApproved = workspaces.every((ws) => isLevelApproved(opts.approve, executionPlan.levelIndexOf(ws) + 1))
+    const isLive = (process.stderr.isTTY ?? false) && allApproved
+    const renderer: ILiveRenderer = isLive ? new LiveRenderer({ verbose: logger.isVerbose() }) : new NonTtyRenderer()
+    const nonTtyRenderer = isLive ? null : (renderer as NonTtyRenderer)
+
+    const confirmation = new Mutex()
+    const wsStates: WorkspaceApplyState[] = []
+    const awaitingApproval: Workspace[] = []
+    let aborted = false
+
+    renderer.start()
+
+    const onSigint = () => {
+      renderer.stop()
+    }
+    process.on('SIGINT', onSigint)
+
+    // workspaces completed in a resumed run are left out and count as done for their dependants
+    const results = await runGraphNodes(
+      workspaces,
+      (ws) => executionPlan.dependenciesOf(ws),
+      async (workspace) => {
+        if (aborted) return false
+        const levelIndex = executionPlan.levelIndexOf(workspace)
+
+        let entry: ApplyEntry | null
+        if (isLevelApproved(opts.approve, levelIndex + 1)) {
+          entry = await this.prepareDirectApply(workspace)
+        } else {
+          const planned = await this.planSingleWorkspace(workspace, null, { savePlanFile: true })
+          if (!planned) return true
+
+          const unlock = await confirmation.lock()
+          try {
+            if (aborted) return false
+            this.logPlanSummary(levelIndex, [planned], opts.formatter, { skipFormattedPlan: true })
+            const message =
+              `${workspace.name}:\n${opts.formatter.format(planned.plan)}` +
+              '\n--------------------------------\n' +
+              `Apply ${workspace.name} (Level ${levelIndex + 1})?`
+
+            const answer = await opts.integration.askForConfirmation(message)
+            if (!opts.integration.interactive) {
+              awaitingApproval.push(workspace)
+              return false
+            }
+            if (!answer) {
+              aborted = true
+              return false
+            }
+          } finally {
+            unlock()
+          }
+
+          entry = { workspace, inputs: planned.inputs }
+          if (planned.plan.planFile) entry.planFile = planned.plan.planFile
+        }
+
+        if (!entry) return true
+
+        const wsState = new WorkspaceApplyState(workspace.name)
+        renderer.addWorkspace(wsState)
+        wsStates.push(wsState)
+        await this.applyEntry(entry, wsState, nonTtyRenderer)
+        return true
+      },
+    )
+
+    process.removeListener('SIGINT', onSigint)
+    renderer.stop()
+
+    for (const [ws, result] of results) {
+      if (result.status === 'skipped' && !aborted && awaitingApproval.length === 0) {
+        logger.warn(`   Skipped ${ws.name}: a dependency failed`)
       }
+    }
+
+    const failures = [...results]
+      .filter(([, result]) => result.status === 'failed')
+      .map(([workspace, result]) => ({ workspace, reason: result.status === 'failed' ? result.error : undefined }))
+    this.throwOnApplyFailures(failures)
+
+    if (aborted) {
+      logger.info('Aborting...')
+      return 'aborted'
+    }
+
+    if (awaitingApproval.length > 0) {
+      logger.info(`Waiting for approval: ${awaitingApproval.map((ws) => ws.name).join(', ')}`)
+      logger.info('Not interactive, waiting for confirmation and another cli execution')
+      return 'waiting'
+    }
+
+    logger.info(`✅ ${wsStates.length} workspaces completed${formatLevelChangeSummary(wsStates)}`)
+    this.logCompletion()
+    return 'completed'
+  }
+
+  // dynamic secrets are created for one run and end with it, so a bundle must not carry them to a later apply
+  private assertBundleable(workspaces: Workspace[]): void {
+    const { secretResolvers } = this.ctx.monorepo
+    const dynamic = workspaces.filter((ws) =>
+      hasDeferredReferences([ws.envs[this.ctx.env], ws.rootVars], secretResolvers),
+    )
+    if (dynamic.length > 0) {
+      throw new UserError(
+        `Plan bundles cannot hold dynamic Vault secrets, which belong to the run that reads them. \${vault-dynamic:...} is used in environment '${this.ctx.env}' by ${dynamic.map((ws) => ws.name).join(', ')}. Run 'ig apply' without a bundle`,
+      )
+    }
+  }
 
-      if (!answer) {
-        logger.info('Aborting...')
-        return
+  /*
+    Applies the plans saved by 'ig plan --out', level by level, without planning again.
+    Refuses when the config or workspace sources changed since planning, or when the inputs of a
+    workspace (its upstream outputs) no longer match the ones it was planned with.
+   */
+  public async applyBundle(bundle: IPlanBundle, opts: IExecOptions) {
+    await this.validateEnv()
+
+    if (bundle.env !== this.ctx.env) {
+      throw new UserError(`Plan bundle was created for environment '${bundle.env}', not '${this.ctx.env}'`)
+    }
+    if (bundle.config_fingerprint !== (await computeConfigFingerprint(this.ctx.monorepo))) {
+      throw new UserError(`${STALE_BUNDLE}: ig.yaml configuration changed since it was planned`)
+    }
+    this.assertBundleable(bundle.workspaces.flatMap((ws) => this.ctx.monorepo.findWorkspace(ws.name) ?? []))
+
+    // sources are checked up front, so nothing gets applied from a bundle that is already stale
+    const changedSources: string[] = []
+    for (const bundled of bundle.workspaces) {
+      const workspace = this.ctx.monorepo.findWorkspace(bundled.name)
+      if (!workspace || (await hashWorkspaceSources(workspace.path)) !== bundled.sources_hash) {
+        changedSources.push(bundled.name)
       }
+    }
+    if (changedSources.length > 0) {
+      throw new UserError(`${STALE_BUNDLE}: sources changed in ${changedSources.join(', ')}`)
+    }
 
-      const entries = levelPlans.map(({ workspace, inputs, plan }) => {
-        const entry: { workspace: Workspace; inputs: ProviderInput; planFile?: string } = { workspace, inputs }
-        if (plan.planFile) entry.planFile = plan.planFile
-        return entry
-      })
-      const wsStates = await this.applyWorkspaces(entries, levelIndex)
+    logger.info(`\n Selected Environment: ${this.ctx.env}`)
+
+    this.run = await this.openRun(opts)
+
+    let status: RunStatus
+    try {
+      status = await this.execBundle(bundle, opts)
+    } catch (error) {
+      await this.closeRun('failed')
+      throw error
+    }
+    await this.closeRun(status)
+  }
+
+  private async execBundle(bundle: IPlanBundle, opts: IExecOptions): Promise<RunStatus> {
+    const levelIndexes = [...new Set(bundle.workspaces.map((ws) => ws.level))].sort((a, b) => a - b)
+
+    for (const levelIndex of levelIndexes) {
+      if (opts.upToLevel !== undefined && levelIndex >= opts.upToLevel) break
+
+      logger.info(`\n🔧 Processing Level ${levelIndex + 1}/${bundle.levels_count}`)
+      logger.info('=====================================')
+
+      const levelPlans: LevelPlanEntry[] = []
+      const entries: ApplyEntry[] = []
+
+      for (const bundled of bundle.workspaces.filter((ws) => ws.level === levelIndex)) {
+        const workspace = this.ctx.monorepo.getWorkspace(bundled.name)
+        const inputs = await this.ctx.getInputs(workspace)
+        const changed = changedInputs(bundled.inputs, inputs)
+        if (changed.length > 0) {
+          throw new UserError(
+            `${STALE_BUNDLE}: inputs of ${workspace.name} no longer match their upstream outputs (${changed.join(', ')})`,
+          )
+        }
+
+        if (!bundled.plan) {
+          logger.info(`✅ ${workspace.name} is up to date.`)
+          await this.recordRunOutcome(workspace, 'up-to-date')
+          continue
+        }
 
+        const entry: ApplyEntry = { workspace, inputs }
+        if (bundled.plan_file) {
+          const fileName = basename(bundled.plan.planFile ?? 'ig-plan.bin')
+          const content = Buffer.from(bundled.plan_file, 'base64')
+          entry.planFile = await this.stateManager.storeWorkspaceTempFile(workspace.path, fileName, content)
+        } else if (!(await this.matchesCurrentPlan(workspace, inputs, bundled.plan))) {
+          throw new UserError(`${STALE_BUNDLE}: ${workspace.name} no longer plans the saved changes`)
+        }
+
+        levelPlans.push({ workspace, inputs, plan: bundled.plan })
+        entries.push(entry)
+      }
+
+      if (entries.length === 0) {
+        logger.info('✅ No changes needed in this level')
+        continue
+      }
+
+      if (isLevelApproved(opts.approve, levelIndex + 1)) {
+        logger.info(`Level ${levelIndex + 1} pre-approved, applying saved plans...`)
+      } else {
+        const declined = await this.confirmLevel(levelIndex, levelPlans, opts)
+        if (declined) return declined
+      }
+
+      const wsStates = await this.applyWorkspaces(entries, levelIndex)
       logger.info(`✅ Level ${levelIndex + 1} completed${formatLevelChangeSummary(wsStates)}`)
     }
 
+    this.logCompletion()
+    return 'completed'
+  }
+
+  // providers without saved plan files (Pulumi) are planned again and must come up with the same changes
+  private async matchesCurrentPlan(workspace: Workspace, inputs: ProviderInput, saved: ProviderPlan): Promise<boolean> {
+    const release = await this.acquireProviderSlot(() => {})
+    try {
+      const current = await this.ctx.interop(workspace).getPlan(inputs)
+      return JSON.stringify(plannedChanges(current)) === JSON.stringify(plannedChanges(saved))
+    } finally {
+      release()
+    }
+  }
+
+  /*
+    Starts a new run journal in .ig/runs, or reopens the one being resumed.
+    A resumed run must match the original command, environment, workspace selection and config files.
+   */
+  private async openRun(opts: IExecOptions): Promise<IRunJournal> {
+    const command = this.ctx.isDestroy ? 'destroy' : 'apply'
+    const fingerprint = await computeConfigFingerprint(this.ctx.monorepo)
+    const project = this.ctx.currentWorkspace?.name
+    const select = this.ctx.selector?.expressions
+    const changed = this.ctx.changedWorkspaces?.map((ws) => ws.name)
+    const now = new Date().toISOString()
+
+    if (!opts.resume) {
+      const run: IRunJournal = {
+        id: newRunId(),
+        command,
+        env: this.ctx.env,
+        config_fingerprint: fingerprint,
+        project,
+        select,
+        changed_workspaces: changed,
+        ignore_dependencies: this.ctx.ignoreDependencies,
+        status: 'running',
+        started_at: now,
+        updated_at: now,
+        workspaces: {},
+      }
+      await this.stateManager.writeRun(run)
+      await this.stateManager.pruneRuns()
+      logger.info(`Run ${run.id}`)
+      return run
+    }
+
+    const runId = opts.resume === true ? await this.stateManager.latestRunId() : opts.resume
+    const run = runId ? await this.stateManager.readRun(runId) : null
+    if (!run) {
+      throw new UserError(
+        runId ? `Run '${runId}' not found in .ig/runs` : 'No previous run found in .ig/runs to resume',
+      )
+    }
+
+    const cannotResume = `Cannot resume run '${run.id}'`
+    if (run.status === 'completed') {
+      throw new UserError(`${cannotResume}: it already completed`)
+    }
+    if (run.command !== command) {
+      throw new UserError(`${cannotResume} with '${command}': it was started by '${run.command}'`)
+    }
+    if (run.env !== this.ctx.env) {
+      throw new UserError(`${cannotResume}: it was started in environment '${run.env}', not '${this.ctx.env}'`)
+    }
+    if (
+      run.project !== project ||
+      String(run.select ?? '') !== String(select ?? '') ||
+      run.ignore_dependencies !== this.ctx.ignoreDependencies
+    ) {
+      throw new UserError(
+        `${cannotResume}: pass the same --project, --select and --no-deps options as the original run`,
+      )
+    }
+    // the ref may select other workspaces by now, and a run without --changed-since runs every workspace
+    if (String(run.changed_workspaces ?? '-') !== String(changed ?? '-')) {
+      throw new UserError(
+        run.changed_workspaces
+          ? `${cannotResume}: it ran the workspaces changed since a git ref (${run.changed_workspaces.join(', ') || 'none'}). Pass a --changed-since ref that finds the same workspaces`
+          : `${cannotResume}: it did not use --changed-since`,
+      )
+    }
+    if (run.config_fingerprint !== fingerprint) {
+      throw new UserError(`${cannotResume}: ig.yaml configuration changed since the run started`)
+    }
+
+    run.status = 'running'
+    run.updated_at = now
+    await this.stateManager.writeRun(run)
+    logger.info(`Resuming run ${run.id}`)
+    return run
+  }
+
+  private async closeRun(status: RunStatus): Promise<void> {
+    const run = this.run
+    if (!run) return
+
+    run.status = status
+    run.updated_at = new Date().toISOString()
+    await this.stateManager.writeRun(run)
+    this.run = null
+
+    if (status === 'failed' || status === 'aborted' || status === 'waiting') {
+      const command = run.command === 'destroy' ? 'ig destroy' : 'ig apply'
+      logger.info(`Run ${run.id} stopped. Continue it with '${command} --resume ${run.id}'`)
+    }
+  }
+
+  private async recordRunOutcome(workspace: Workspace, status: RunWorkspaceStatus, error?: unknown): Promise<void> {
+    if (!this.run) return
+
+    const now = new Date().toISOString()
+    const entry: IRunWorkspaceEntry = { status, updated_at: now }
+    if (error !== undefined) {
+      entry.error = error instanceof Error ? error.message : String(error)
+    }
+    this.run.workspaces[workspace.name] = entry
+    this.run.updated_at = now
+    await this.stateManager.writeRun(this.run)
+  }
+
+  // Returns the workspaces still to run; completed ones reuse the outputs cached in .ig/state.json
+  private async skipCompletedInRun(workspaces: Workspace[]): Promise<Workspace[]> {
+    const run = this.run
+    if (!run) return workspaces
+
+    const completed = workspaces.filter((ws) => isRunWorkspaceCompleted(run.workspaces[ws.name]?.status))
+    if (completed.length === 0) return workspaces
+
+    const state = await this.stateManager.read()
+    for (const ws of completed) {
+      const cachedOutputs = state.workspace(ws.name).outputs
+      if (cachedOutputs && !this.ctx.isDestroy) {
+        this.ctx.storeWorkspaceOutputs(ws, cachedOutputs)
+      }
+      logger.info(`⏭️  Skipping ${ws.name} (completed in run ${run.id})`)
+    }
+
+    return workspaces.filter((ws) => !completed.includes(ws))
+  }
+
+  private logCompletion() {
     logger.info('\n--------------------------------')
     if (this.ctx.isDestroy) {
       logger.info('🎉 Infrastructure destroyed successfully')
     } else {
       logger.info('🎉 Infrastructure applied successfully')
-      if (!this.ctx.currentWorkspace) {
+      if (!this.ctx.currentWorkspace && !this.ctx.selector && !this.ctx.changedWorkspaces) {
         const result: Record<string, string> = {}
         for (const exp of this.ctx.monorepo.exports) {
           const outputValue = exp.workspace ? this.ctx.findAppliedOutput(exp.workspace, exp.key) : undefined
@@ -708,6 +1364,10 @@ export interface DriftResult {
   report: DriftReport
 }
 
+function isRunWorkspaceCompleted(status: RunWorkspaceStatus | undefined): boolean {
+  return status === 'up-to-date' || status === 'applied' || status === 'destroyed'
+}
+
 function zero(): ChangeSummary {
   return {
     add: 0,
@@ -734,6 +1394,11 @@ function add(changes1: ChangeSummary, changes2: ChangeSummary): ChangeSummary {
   }
 }
 
+function planOptions(opts: IPlanExecOptions): { detailed?: boolean; savePlanFile?: boolean } | undefined {
+  if (!opts.detailed && !opts.out) return undefined
+  return { ...(opts.detailed ? { detailed: true } : {}), ...(opts.out ? { savePlanFile: true } : {}) }
+}
+
 function isLevelApproved(approve: number[] | 'all' | undefined, level: number): boolean {
   if (approve === undefined) return false
   if (approve === 'all') return true
@@ -748,12 +1413,24 @@ function formatLevelChangeSummary(wsStates: WorkspaceApplyState[]): string {
   return `  +${add} ~${change} -${remove}`
 }
 
+/**
+ * How workspaces are scheduled:
+ * - `levels` — every workspace of a level finishes before the next level starts
+ * - `dag` — a workspace starts as soon as its own dependencies finish
+ */
+export type ScheduleMode = 'levels' | 'dag'
+
+export const SCHEDULE_MODES: ScheduleMode[] = ['levels', 'dag']
+
 export interface IExecOptions {
   formatter: IFormatter
   integration: IIntegration
   approve?: number[] | 'all' | undefined
   preview?: boolean | undefined
   upToLevel?: number | undefined
+  schedule?: ScheduleMode | undefined
+  // run id to resume, or true for the latest run
+  resume?: string | true | undefined
 }
 
 export interface IPlanExecOptions {
@@ -761,6 +1438,9 @@ export interface IPlanExecOptions {
   detailed?: boolean | undefined
   onLevelPlanned?: ((data: LevelPlanReport) => Promise<void>) | undefined
   startFromLevel?: number | undefined
+  schedule?: ScheduleMode | undefined
+  // path to write a plan bundle to, for 'ig apply <bundle>'
+  out?: string | undefined
 }
 
 export interface PlanResult {
@@ -0,0 +1,67 @@
+import { formatOutputSelector, parseOutputSelector, resolveOutputPath } from './output-path.js'
+
+describe('parseOutputSelector', () => {
+  it('should parse a plain output key', () => {
+    expect(parseOutputSelector('vpc_id')).toEqual({ key: 'vpc_id', path: [] })
+  })
+
+  it('should parse properties, indexes and quoted keys', () => {
+    expect(parseOutputSelector('subnets[0].id')).toEqual({ key: 'subnets', path: [0, 'id'] })
+    expect(parseOutputSelector('connection.host')).toEqual({ key: 'connection', path: ['host'] })
+    expect(parseOutputSelector('tags["app.kubernetes.io/name"]')).toEqual({
+      key: 'tags',
+      path: ['app.kubernetes.io/name'],
+    })
+  })
+
+  it('should reject malformed paths', () => {
+    expect(() => parseOutputSelector('subnets[first]')).toThrow(
+      "Invalid output reference 'subnets[first]' at '[first]'",
+    )
+    expect(() => parseOutputSelector('connection.')).toThrow('Invalid output reference')
+    expect(() => parseOutputSelector('[0]')).toThrow('missing output name')
+  })
+
+  it('should format back to the same selector', () => {
+    for (const selector of ['vpc_id', 'subnets[0].id', 'tags["app.kubernetes.io/name"]']) {
+      const { key, path } = parseOutputSelector(selector)
+      expect(formatOutputSelector(key, path)).toBe(selector)
+    }
+  })
+})
+
+describe('resolveOutputPath', () => {
+  const subnetList = [{ id: 'subnet-1', cidr: { v4: '10.0.0.0/24' } }]
+  const subnets = { value: JSON.stringify(subnetList), secret: true, json: subnetList }
+
+  it('should return the output itself without a path', () => {
+    expect(resolveOutputPath(subnets, 'subnets', [])).toBe(subnets)
+  })
+
+  it('should extract values with their type, keeping the secret flag', () => {
+    expect(resolveOutputPath(subnets, 'subnets', [0, 'id'])).toEqual({ value: 'subnet-1', secret: true })
+    expect(resolveOutputPath(subnets, 'subnets', [0, 'cidr'])).toEqual({
+      value: '{"v4":"10.0.0.0/24"}',
+      secret: true,
+      json: { v4: '10.0.0.0/24' },
+    })
+  })
+
+  it('should parse string outputs holding JSON', () => {
+    expect(resolveOutputPath({ value: '{"port":5432}', secret: false }, 'db', ['port'])).toEqual({
+      value: '5432',
+      secret: false,
+      json: 5432,
+    })
+  })
+
+  it('should explain why a path does not resolve', () => {
+    expect(() => resolveOutputPath(subnets, 'subnets', [1])).toThrow("index 1 is out of range, 'subnets' has 1 items")
+    expect(() => resolveOutputPath(subnets, 'subnets', [0, 'name'])).toThrow("'subnets[0]' has no key 'name'")
+    expect(() => resolveOutputPath(subnets, 'subnets', ['id'])).toThrow("'subnets' is a list, not an object")
+    expect(() => resolveOutputPath(subnets, 'subnets', [0, 'id', 0])).toThrow("'subnets[0].id' is a string, not a list")
+    expect(() => resolveOutputPath({ value: 'vpc-1', secret: false }, 'vpc_id', ['id'])).toThrow(
+      "'vpc_id' is a plain string, not a structured value",
+    )
+  })
+})
@@ -0,0 +1,99 @@
+import { toOutputValue, type OutputValue } from '../providers/index.js'
+
+// Steps into a structured output value: object keys and array indexes
+export type OutputPath = (string | number)[]
+
+const IDENTIFIER = /^[A-Za-z_][\w-]*/
+
+/**
+ * Splits the output part of an injection reference such as `subnets[0].id` or `connection["host"]`
+ * into the output key and the path into the output's value.
+ */
+export function parseOutputSelector(selector: string): { key: string; path: OutputPath } {
+  const keyEnd = selector.search(/[.[]/)
+  const key = keyEnd < 0 ? selector : selector.slice(0, keyEnd)
+  if (!key) {
+    throw new Error(`Invalid output reference '${selector}': missing output name`)
+  }
+
+  const path: OutputPath = []
+  let rest = keyEnd < 0 ? '' : selector.slice(keyEnd)
+  while (rest) {
+    const property = rest.startsWith('.') ? IDENTIFIER.exec(rest.slice(1)) : null
+    const index = /^\[(\d+)\]/.exec(rest)
+    const quoted = /^\["((?:[^"\\]|\\.)*)"\]/.exec(rest)
+    if (property) {
+      path.push(property[0])
+      rest = rest.slice(property[0].length + 1)
+    } else if (index) {
+      path.push(Number(index[1]))
+      rest = rest.slice(index[0].length)
+    } else if (quoted) {
+      path.push(quoted[1].replace(/\\(.)/g, '$1'))
+      rest = rest.slice(quoted[0].length)
+    } else {
+      throw new Error(
+        `Invalid output reference '${selector}' at '${rest}'. Use .name, [index] or ["name"] to select nested values`,
+      )
+    }
+  }
+  return { key, path }
+}
+
+export function formatOutputSelector(key: string, path: OutputPath = []): string {
+  const formatStep = (step: string | number) => {
+    if (typeof step === 'number') return `[${step}]`
+    return IDENTIFIER.exec(step)?.[0] === step ? `.${step}` : `[${JSON.stringify(step)}]`
+  }
+  return key + path.map(formatStep).join('')
+}
+
+/**
+ * Extracts the value at `path` from a structured output, keeping its type. Throws with the
+ * reason when the path does not resolve.
+ */
+export function resolveOutputPath(output: OutputValue, key: string, path: OutputPath): OutputValue {
+  if (path.length === 0) {
+    return output
+  }
+
+  // string outputs may still hold JSON, e.g. from jsonencode() or outputs cached before values were typed
+  let current: unknown = output.json
+  if (current === undefined) {
+    try {
+      current = JSON.parse(output.value)
+    } catch {
+      throw new Error(`'${key}' is a plain string, not a structured value`)
+    }
+  }
+
+  for (let i = 0; i < path.length; i++) {
+    const step = path[i]
+    const at = `'${formatOutputSelector(key, path.slice(0, i))}'`
+    if (typeof step === 'number') {
+      if (!Array.isArray(current)) {
+        throw new Error(`${at} is ${describe(current)}, not a list`)
+      }
+      if (step >= current.length) {
+        throw new Error(`index ${step} is out of range, ${at} has ${current.length} items`)
+      }
+      current = current[step]
+    } else {
+      if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+        throw new Error(`${at} is ${describe(current)}, not an object`)
+      }
+      if (!Object.prototype.hasOwnProperty.call(current, step)) {
+        throw new Error(`${at} has no key '${step}'`)
+      }
+      current = (current as Record<string, unknown>)[step]
+    }
+  }
+
+  return toOutputValue(current, output.secret)
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'a list'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
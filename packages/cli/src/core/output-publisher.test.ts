@@ -0,0 +1,86 @@
+import { publishOutputs } from './output-publisher.js'
+import { Monorepo, Workspace } from './model.js'
+import { MockProvider } from '../__test-utils__/mock-provider.js'
+import type { VaultClient } from '../utils/index.js'
+
+function setup(publish: { workspace?: Workspace['publish']; root?: Monorepo['publish'] }) {
+  const vaultClient = { writeSecret: vi.fn(async () => true) }
+  const db = new Workspace(
+    'db',
+    '/repo/db',
+    '/repo',
+    new MockProvider(),
+    {},
+    [],
+    { dev: {} },
+    {},
+    [],
+    {},
+    publish.workspace,
+  )
+  const exports = [
+    { name: 'db_host', workspace: '/repo/db', key: 'host' },
+    { name: 'app_url', workspace: '/repo/app', key: 'url' },
+  ]
+  const monorepo = new Monorepo(
+    '/repo',
+    [db],
+    exports,
+    undefined,
+    {},
+    publish.root,
+    vaultClient as unknown as VaultClient,
+  )
+  return { monorepo, db, vaultClient }
+}
+
+const outputs = {
+  host: { value: 'db.internal', secret: false },
+  password: { value: 'hunter2', secret: true },
+}
+
+describe('publishOutputs', () => {
+  it('should write the selected outputs of the applied env', async () => {
+    const { monorepo, db, vaultClient } = setup({
+      workspace: {
+        dev: [{ vault: 'secret/data/dev/db', keys: ['host', 'password'] }],
+        prod: [{ vault: 'secret/data/prod/db', keys: ['host'] }],
+      },
+    })
+
+    await publishOutputs(monorepo, db, 'dev', outputs)
+
+    expect(vaultClient.writeSecret).toHaveBeenCalledExactlyOnceWith('secret/data/dev/db', {
+      host: 'db.internal',
+      password: 'hunter2',
+    })
+  })
+
+  it('should publish root outputs of the applied workspace under their root name', async () => {
+    const { monorepo, db, vaultClient } = setup({
+      root: { dev: [{ vault: 'secret/data/dev/platform', keys: ['db_host', 'app_url'] }] },
+    })
+
+    await publishOutputs(monorepo, db, 'dev', outputs)
+
+    expect(vaultClient.writeSecret).toHaveBeenCalledExactlyOnceWith('secret/data/dev/platform', {
+      db_host: 'db.internal',
+    })
+  })
+
+  it('should fail on outputs the workspace does not have', async () => {
+    const { monorepo, db } = setup({ workspace: { dev: [{ vault: 'secret/data/dev/db', keys: ['port'] }] } })
+
+    await expect(publishOutputs(monorepo, db, 'dev', outputs)).rejects.toThrow(
+      "Cannot publish output 'port' of db to 'secret/data/dev/db': no such output",
+    )
+  })
+
+  it('should do nothing without publish targets', async () => {
+    const { monorepo, db, vaultClient } = setup({})
+
+    await publishOutputs(monorepo, db, 'dev', outputs)
+
+    expect(vaultClient.writeSecret).not.toHaveBeenCalled()
+  })
+})
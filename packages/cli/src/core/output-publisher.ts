@@ -0,0 +1,51 @@
+import type { ProviderOutput } from '../providers/index.js'
+import { logger, UserError } from '../utils/index.js'
+import type { Monorepo, Workspace } from './model.js'
+
+/**
+ * Writes the outputs selected by the `publish:` sections of a workspace and of the root ig.yaml to Vault,
+ * once the workspace is applied in `env`. Of root targets, only the root outputs of this workspace are written.
+ * Other fields of a secret are kept, so several workspaces can publish to the same path, and secrets
+ * that already hold the values are not written again.
+ */
+export async function publishOutputs(
+  monorepo: Monorepo,
+  workspace: Workspace,
+  env: string,
+  outputs: ProviderOutput,
+): Promise<void> {
+  const writes = new Map<string, Record<string, string>>()
+  const add = (path: string, key: string, outputKey: string) => {
+    const output = outputs[outputKey]
+    if (!output) {
+      throw new UserError(`Cannot publish output '${outputKey}' of ${workspace.name} to '${path}': no such output`)
+    }
+    writes.set(path, { ...writes.get(path), [key]: output.value })
+  }
+
+  for (const target of workspace.publish[env] ?? []) {
+    for (const key of target.keys) {
+      add(target.vault, key, key)
+    }
+  }
+  for (const target of monorepo.publish[env] ?? []) {
+    for (const name of target.keys) {
+      const rootOutput = monorepo.exports.find((x) => x.name === name)
+      if (rootOutput && rootOutput.workspace === workspace.path) {
+        add(target.vault, name, rootOutput.key)
+      }
+    }
+  }
+
+  if (writes.size === 0) {
+    return
+  }
+  if (!monorepo.vaultClient) {
+    throw new UserError(`Cannot publish outputs of ${workspace.name}: no vault configuration provided`)
+  }
+  for (const [path, values] of writes) {
+    const written = await monorepo.vaultClient.writeSecret(path, values)
+    const keys = Object.keys(values).join(', ')
+    logger.debug(`${workspace.name}: ${written ? 'published' : 'unchanged'} ${keys} at vault:${path}`)
+  }
+}
@@ -0,0 +1,95 @@
+import { formatOutputs, parseOutputFormat } from './outputs.js'
+import type { ProviderOutput } from '../providers/index.js'
+
+const subnets = [{ id: 'subnet-1', cidr: '10.0.0.0/24' }]
+const outputs: ProviderOutput = {
+  host: { value: 'db.local', secret: false },
+  port: { value: '5432', secret: false, json: 5432 },
+  password: { value: "it's a secret", secret: true },
+  subnets: { value: JSON.stringify(subnets), secret: false, json: subnets },
+}
+
+describe('formatOutputs', () => {
+  it('should keep value types in json', () => {
+    expect(JSON.parse(formatOutputs(outputs, 'json'))).toEqual({
+      host: 'db.local',
+      port: 5432,
+      password: '[secret]',
+      subnets,
+    })
+  })
+
+  it('should print secrets when requested', () => {
+    expect(JSON.parse(formatOutputs(outputs, 'json', { showSecrets: true })).password).toBe("it's a secret")
+  })
+
+  it('should format yaml', () => {
+    expect(formatOutputs(outputs, 'yaml')).toBe(
+      [
+        'host: db.local',
+        'port: 5432',
+        'password: "[secret]"',
+        'subnets:',
+        '  - id: subnet-1',
+        '    cidr: 10.0.0.0/24',
+      ].join('\n'),
+    )
+  })
+
+  it('should format tfvars as HCL', () => {
+    expect(formatOutputs(outputs, 'tfvars', { showSecrets: true })).toBe(
+      [
+        'host = "db.local"',
+        'port = 5432',
+        `password = "it's a secret"`,
+        'subnets = [',
+        '  {',
+        '    id = "subnet-1"',
+        '    cidr = "10.0.0.0/24"',
+        '  },',
+        ']',
+      ].join('\n'),
+    )
+  })
+
+  it('should escape HCL template sequences', () => {
+    expect(formatOutputs({ tpl: { value: '${var.x} %{if}', secret: false } }, 'tfvars')).toBe(
+      'tpl = "$${var.x} %%{if}"',
+    )
+  })
+
+  it('should format dotenv, quoting values when needed', () => {
+    expect(formatOutputs(outputs, 'dotenv', { showSecrets: true })).toBe(
+      [
+        'host=db.local',
+        'port=5432',
+        `password="it's a secret"`,
+        `subnets="[{\\"id\\":\\"subnet-1\\",\\"cidr\\":\\"10.0.0.0/24\\"}]"`,
+      ].join('\n'),
+    )
+  })
+
+  it('should format shell exports', () => {
+    expect(formatOutputs(outputs, 'shell', { showSecrets: true })).toBe(
+      [
+        `export host='db.local'`,
+        `export port='5432'`,
+        `export password='it'\\''s a secret'`,
+        `export subnets='[{"id":"subnet-1","cidr":"10.0.0.0/24"}]'`,
+      ].join('\n'),
+    )
+  })
+
+  it('should reject names that are not variable names in dotenv and shell formats', () => {
+    expect(() => formatOutputs({ 'db-host': { value: 'x', secret: false } }, 'shell')).toThrow(
+      "Output 'db-host' is not a valid variable name for dotenv and shell formats",
+    )
+  })
+})
+
+describe('parseOutputFormat', () => {
+  it('should reject unknown formats', () => {
+    expect(parseOutputFormat('dotenv')).toBe('dotenv')
+    expect(() => parseOutputFormat('xml')).toThrow('Invalid output format: "xml"')
+  })
+})
@@ -0,0 +1,117 @@
+import { stringify as stringifyYaml } from 'yaml'
+import { jsonValueOf, type JsonValue, type OutputValue, type ProviderOutput } from '../providers/index.js'
+import { UserError } from '../utils/index.js'
+import type { Monorepo, Workspace } from './model.js'
+import { WorkspaceInterop } from './workspace-interop.js'
+
+export const OUTPUT_FORMATS = ['json', 'dotenv', 'tfvars', 'yaml', 'shell'] as const
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+const SECRET_PLACEHOLDER = '[secret]'
+const HCL_IDENTIFIER = /^[A-Za-z_][\w-]*$/
+const SHELL_NAME = /^[A-Za-z_]\w*$/
+
+/**
+ * Outputs of a workspace, or the root `output:` exports when no workspace is given.
+ * Read from `.ig/state.json` when cached there, from the providers otherwise or with `fresh`.
+ */
+export async function readOutputs(
+  monorepo: Monorepo,
+  env: string,
+  workspace: Workspace | undefined,
+  opts?: { fresh?: boolean },
+): Promise<ProviderOutput> {
+  const outputsOf = async (ws: Workspace) => {
+    if (!ws.hasEnv(env)) {
+      throw new UserError(`Workspace ${ws.name} doesn't contain environment ${env}`)
+    }
+    const { outputs } = await new WorkspaceInterop(monorepo, ws, env).getOutputs({ stale: !opts?.fresh })
+    return outputs
+  }
+
+  if (workspace) {
+    return outputsOf(workspace)
+  }
+
+  const result: ProviderOutput = {}
+  const fetched = new Map<Workspace, ProviderOutput>()
+  for (const exp of monorepo.exports) {
+    const ws = monorepo.getWorkspace(exp.workspace)
+    if (!fetched.has(ws)) {
+      fetched.set(ws, await outputsOf(ws))
+    }
+    const output = fetched.get(ws)![exp.key]
+    if (output === undefined) {
+      throw new UserError(`Value to output ${exp.key} from workspace ${ws.name} is not found`)
+    }
+    result[exp.name] = output
+  }
+  return result
+}
+
+export function parseOutputFormat(value: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new UserError(`Invalid output format: "${value}". Must be one of: ${OUTPUT_FORMATS.join(', ')}.`)
+  }
+  return value as OutputFormat
+}
+
+export function formatOutputs(outputs: ProviderOutput, format: OutputFormat, opts?: { showSecrets?: boolean }): string {
+  const entries = Object.entries(outputs).map(([name, output]): [string, OutputValue] => [
+    name,
+    output.secret && !opts?.showSecrets ? { value: SECRET_PLACEHOLDER, secret: true } : output,
+  ])
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(Object.fromEntries(entries.map(([name, output]) => [name, jsonValueOf(output)])), null, 2)
+    case 'yaml':
+      return stringifyYaml(Object.fromEntries(entries.map(([name, output]) => [name, jsonValueOf(output)]))).trimEnd()
+    case 'tfvars':
+      return entries.map(([name, output]) => `${hclKey(name)} = ${toHcl(jsonValueOf(output), '')}`).join('\n')
+    case 'dotenv':
+      return entries.map(([name, output]) => `${shellName(name)}=${dotenvQuote(output.value)}`).join('\n')
+    case 'shell':
+      return entries.map(([name, output]) => `export ${shellName(name)}=${shellQuote(output.value)}`).join('\n')
+  }
+}
+
+function shellName(name: string): string {
+  if (!SHELL_NAME.test(name)) {
+    throw new UserError(`Output '${name}' is not a valid variable name for dotenv and shell formats`)
+  }
+  return name
+}
+
+function dotenvQuote(value: string): string {
+  if (/^[\w.,:/@+-]*$/.test(value)) {
+    return value
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function hclKey(key: string): string {
+  return HCL_IDENTIFIER.test(key) ? key : JSON.stringify(key)
+}
+
+function toHcl(value: JsonValue, indent: string): string {
+  if (typeof value === 'string') {
+    // ${ and %{ start template sequences in HCL strings
+    return JSON.stringify(value).replace(/([$%])\{/g, '$1$1{')
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
+  }
+  const inner = indent + '  '
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '[]' : `[\n${value.map((x) => `${inner}${toHcl(x, inner)},`).join('\n')}\n${indent}]`
+  }
+  const entries = Object.entries(value)
+  return entries.length === 0
+    ? '{}'
+    : `{\n${entries.map(([k, v]) => `${inner}${hclKey(k)} = ${toHcl(v, inner)}`).join('\n')}\n${indent}}`
+}
@@ -0,0 +1,152 @@
+import {
+  changedInputs,
+  describeInputs,
+  hashWorkspaceSources,
+  type IPlanBundle,
+  PLAN_BUNDLE_VERSION,
+  plannedChanges,
+  readPlanBundle,
+  writePlanBundle,
+} from './plan-bundle.js'
+import { createProviderPlan } from '../__test-utils__/mock-provider.js'
+import type { ResourceChange } from '../providers/index.js'
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+describe('hashWorkspaceSources', () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'ig-plan-bundle-test-'))
+    await mkdir(join(tmpDir, 'modules'))
+    await writeFile(join(tmpDir, 'main.tf'), 'resource "a" "b" {}')
+    await writeFile(join(tmpDir, 'modules', 'net.tf'), 'variable "x" {}')
+  })
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true })
+  })
+
+  it('should change when a source file changes', async () => {
+    const before = await hashWorkspaceSources(tmpDir)
+    await writeFile(join(tmpDir, 'modules', 'net.tf'), 'variable "y" {}')
+    expect(await hashWorkspaceSources(tmpDir)).not.toBe(before)
+  })
+
+  it('should change when a source file is renamed', async () => {
+    const before = await hashWorkspaceSources(tmpDir)
+    await rm(join(tmpDir, 'main.tf'))
+    await writeFile(join(tmpDir, 'other.tf'), 'resource "a" "b" {}')
+    expect(await hashWorkspaceSources(tmpDir)).not.toBe(before)
+  })
+
+  it('should ignore provider caches and local state', async () => {
+    const before = await hashWorkspaceSources(tmpDir)
+    await mkdir(join(tmpDir, '.terraform'))
+    await writeFile(join(tmpDir, '.terraform', 'cache'), 'x')
+    await writeFile(join(tmpDir, 'terraform.tfstate'), '{}')
+    await writeFile(join(tmpDir, 'terraform.tfstate.backup'), '{}')
+    expect(await hashWorkspaceSources(tmpDir)).toBe(before)
+  })
+})
+
+describe('describeInputs', () => {
+  it('should keep plain values and only hash secret ones', () => {
+    const described = describeInputs({
+      host: { value: 'db.local', secret: false },
+      password: { value: 'hunter2', secret: true },
+    })
+
+    expect(described['host']).toEqual({ value: 'db.local', secret: false, sha256: expect.any(String) })
+    expect(described['password']).toEqual({ secret: true, sha256: expect.any(String) })
+    expect(JSON.stringify(described)).not.toContain('hunter2')
+  })
+})
+
+describe('changedInputs', () => {
+  const bundled = describeInputs({
+    host: { value: 'db.local', secret: false },
+    password: { value: 'hunter2', secret: true },
+  })
+
+  it('should return nothing when inputs are the same', () => {
+    expect(
+      changedInputs(bundled, {
+        host: { value: 'db.local', secret: false },
+        password: { value: 'hunter2', secret: true },
+      }),
+    ).toEqual([])
+  })
+
+  it('should return changed, added and removed inputs', () => {
+    expect(
+      changedInputs(bundled, {
+        password: { value: 'changed', secret: true },
+        port: { value: '5432', secret: false },
+      }),
+    ).toEqual(['host', 'password', 'port'])
+  })
+})
+
+describe('plannedChanges', () => {
+  function change(address: string, actions: ResourceChange['actions']): ResourceChange {
+    return { address, type: 't', name: address, actions, status: 'pending', before: null, after: null, metadata: {} }
+  }
+
+  it('should ignore no-op resources and resource order', () => {
+    const a = createProviderPlan({ resourceChanges: [change('a', ['create']), change('b', ['update'])] })
+    const b = createProviderPlan({
+      resourceChanges: [change('c', ['no-op']), change('b', ['update']), change('a', ['create'])],
+    })
+    expect(plannedChanges(a)).toEqual(plannedChanges(b))
+  })
+
+  it('should tell different actions apart', () => {
+    const a = createProviderPlan({ resourceChanges: [change('a', ['update'])] })
+    const b = createProviderPlan({ resourceChanges: [change('a', ['delete', 'create'])] })
+    expect(plannedChanges(a)).not.toEqual(plannedChanges(b))
+  })
+})
+
+describe('readPlanBundle', () => {
+  let tmpDir: string
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'ig-plan-bundle-test-'))
+  })
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true })
+  })
+
+  it('should read back a written bundle', async () => {
+    const bundle: IPlanBundle = {
+      version: PLAN_BUNDLE_VERSION,
+      env: 'dev',
+      config_fingerprint: 'fingerprint',
+      ignore_dependencies: false,
+      levels_count: 1,
+      created_at: '2025-01-01T00:00:00.000Z',
+      workspaces: [{ name: 'ws1', level: 0, sources_hash: 'hash', inputs: {}, plan: createProviderPlan() }],
+    }
+    const path = join(tmpDir, 'plan.igplan')
+
+    await writePlanBundle(path, bundle)
+    const read = await readPlanBundle(path)
+
+    expect(read).toEqual(bundle)
+    expect(read.workspaces[0].plan?.timestamp).toBeInstanceOf(Date)
+  })
+
+  it('should reject files that are not plan bundles', async () => {
+    const path = join(tmpDir, 'plan.json')
+    await writeFile(path, JSON.stringify({ version: 99, workspaces: [] }))
+
+    await expect(readPlanBundle(path)).rejects.toThrow('is not a plan bundle')
+  })
+
+  it('should reject missing files', async () => {
+    await expect(readPlanBundle(join(tmpDir, 'missing.igplan'))).rejects.toThrow('Cannot read plan bundle')
+  })
+})
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto'
+import { readdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { jsonValueOf, type ProviderInput, type ProviderPlan } from '../providers/index.js'
+import { UserError } from '../utils/index.js'
+
+export const PLAN_BUNDLE_VERSION = 1
+
+// provider caches, ig state and local provider state are not sources
+const IGNORED_SOURCE_DIRS = new Set(['.git', '.ig', '.terraform', 'node_modules'])
+const IGNORED_SOURCE_FILE = /(\.tfstate|\.tfstate\.backup|\.tfstate\.lock\.info)$/
+
+/**
+ * Saved result of `ig plan --out`. `ig apply <bundle>` applies exactly these plans and
+ * refuses when the sources, inputs or config they were planned from changed since.
+ */
+export interface IPlanBundle {
+  version: number
+  env: string
+  config_fingerprint: string
+  project?: string | undefined
+  select?: string[] | undefined
+  ignore_dependencies: boolean
+  levels_count: number
+  created_at: string
+  workspaces: IPlanBundleWorkspace[]
+}
+
+export interface IPlanBundleWorkspace {
+  name: string
+  // 0-based index of the execution level
+  level: number
+  sources_hash: string
+  inputs: Record<string, IPlanBundleInput>
+  // null when the workspace was up to date
+  plan: ProviderPlan | null
+  // base64 content of the saved provider plan file, when the provider produces one
+  plan_file?: string | undefined
+}
+
+export interface IPlanBundleInput {
+  // secret values are never written to the bundle, only their hash
+  value?: string | undefined
+  secret: boolean
+  sha256: string
+}
+
+export async function writePlanBundle(path: string, bundle: IPlanBundle): Promise<void> {
+  await writeFile(path, JSON.stringify(bundle, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+export async function readPlanBundle(path: string): Promise<IPlanBundle> {
+  let bundle: IPlanBundle
+  try {
+    bundle = JSON.parse(await readFile(path, 'utf-8')) as IPlanBundle
+  } catch (error) {
+    throw new UserError(`Cannot read plan bundle ${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (bundle.version !== PLAN_BUNDLE_VERSION || !Array.isArray(bundle.workspaces)) {
+    throw new UserError(`${path} is not a plan bundle written by this version of ig`)
+  }
+
+  for (const ws of bundle.workspaces) {
+    if (ws.plan) {
+      ws.plan = { ...ws.plan, timestamp: new Date(ws.plan.timestamp) }
+    }
+  }
+  return bundle
+}
+
+/**
+ * Hash of every file in the workspace directory, by relative path and content.
+ */
+export async function hashWorkspaceSources(workspacePath: string): Promise<string> {
+  const hash = createHash('sha256')
+
+  const visit = async (dir: string, prefix: string) => {
+    const entries = await readdir(dir, { withFileTypes: true })
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    for (const entry of entries) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        if (!IGNORED_SOURCE_DIRS.has(entry.name)) {
+          await visit(join(dir, entry.name), relativePath)
+        }
+      } else if (entry.isFile() && !IGNORED_SOURCE_FILE.test(entry.name)) {
+        hash.update(relativePath).update('\0')
+        hash.update(await readFile(join(dir, entry.name))).update('\0')
+      }
+    }
+  }
+
+  await visit(workspacePath, '')
+  return hash.digest('hex')
+}
+
+export function describeInputs(inputs: ProviderInput): Record<string, IPlanBundleInput> {
+  const result: Record<string, IPlanBundleInput> = {}
+  for (const [key, input] of Object.entries(inputs)) {
+    const sha256 = createHash('sha256')
+      .update(JSON.stringify(jsonValueOf(input)))
+      .digest('hex')
+    result[key] = input.secret ? { secret: true, sha256 } : { value: input.value, secret: false, sha256 }
+  }
+  return result
+}
+
+// Names of the inputs that were added, removed or changed since the bundle was written
+export function changedInputs(bundled: Record<string, IPlanBundleInput>, inputs: ProviderInput): string[] {
+  const current = describeInputs(inputs)
+  const keys = new Set([...Object.keys(bundled), ...Object.keys(current)])
+  return [...keys].filter((key) => bundled[key]?.sha256 !== current[key]?.sha256).sort()
+}
+
+// Resource changes of a plan reduced to address and actions, for comparing two plans of the same workspace
+export function plannedChanges(plan: ProviderPlan): string[] {
+  return plan.resourceChanges
+    .filter((change) => change.actions.some((action) => action !== 'no-op'))
+    .map((change) => `${change.address} ${change.actions.join(',')}`)
+    .sort()
+}
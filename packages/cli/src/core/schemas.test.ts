@@ -50,6 +50,11 @@ describe('workspaceConfigSchema', () => {
     expect(result.envs).toBeUndefined()
   })
 
+  it('should reject tags that cannot be used in selectors', () => {
+    const result = workspaceConfigSchema.safeParse({ tags: ['a,b'] })
+    expect(result.success).toBe(false)
+  })
+
   it('should accept full workspace config', () => {
     const result = workspaceConfigSchema.parse({
       provider: 'terraform',
@@ -58,12 +63,61 @@ describe('workspaceConfigSchema', () => {
       depends_on: ['../network'],
       envs: { dev: { vars: { port: 3000 } } },
       alias: 'my-workspace',
+      tags: ['network', 'team/platform'],
     })
     expect(result.provider).toBe('terraform')
     expect(result.alias).toBe('my-workspace')
+    expect(result.tags).toEqual(['network', 'team/platform'])
     expect(result.depends_on).toEqual(['../network'])
   })
 
+  it('should accept wildcard injections with exclude', () => {
+    const result = workspaceConfigSchema.parse({
+      injection: { '*': '../network:*', db_: { from: '../postgres:*', exclude: ['admin_password'] } },
+    })
+    expect(result.injection).toEqual({
+      '*': '../network:*',
+      db_: { from: '../postgres:*', exclude: ['admin_password'] },
+    })
+  })
+
+  it('should accept env injection and depends_on', () => {
+    const result = workspaceConfigSchema.parse({
+      injection: { vpc_id: '../network:vpc_id' },
+      envs: { prod: { injection: { vpc_id: '../shared-network:vpc_id' }, depends_on: ['../audit'] } },
+    })
+    expect(result.envs?.['prod']?.injection).toEqual({ vpc_id: '../shared-network:vpc_id' })
+    expect(result.envs?.['prod']?.depends_on).toEqual(['../audit'])
+  })
+
+  it('should accept injection files passed as variables or env vars', () => {
+    const result = workspaceConfigSchema.parse({
+      injection_files: { kubeconfig_path: '../cluster:kubeconfig' },
+      envs: { prod: { injection_files: { KUBECONFIG: { from: '../cluster:kubeconfig', as: 'env' } } } },
+    })
+    expect(result.injection_files).toEqual({ kubeconfig_path: '../cluster:kubeconfig' })
+    expect(result.envs?.['prod']?.injection_files).toEqual({ KUBECONFIG: { from: '../cluster:kubeconfig', as: 'env' } })
+    expect(workspaceConfigSchema.safeParse({ injection_files: { ca: { from: '../pki:ca', as: 'arg' } } }).success).toBe(
+      false,
+    )
+  })
+
+  it('should accept one or several publish targets', () => {
+    const single = workspaceConfigSchema.parse({ publish: { vault: 'secret/data/${ig.env}/db', keys: ['host'] } })
+    expect(single.publish).toEqual({ vault: 'secret/data/${ig.env}/db', keys: ['host'] })
+    const several = workspaceConfigSchema.parse({
+      publish: [
+        { vault: 'secret/data/db', keys: ['host'] },
+        { vault: 'secret/data/db-admin', keys: ['password'] },
+      ],
+    })
+    expect(several.publish).toHaveLength(2)
+  })
+
+  it('should reject publish targets without keys', () => {
+    expect(workspaceConfigSchema.safeParse({ publish: { vault: 'secret/data/db', keys: [] } }).success).toBe(false)
+  })
+
   it('should reject invalid depends_on type', () => {
     const result = workspaceConfigSchema.safeParse({
       depends_on: 'not-an-array',
@@ -147,6 +201,16 @@ describe('monorepoConfigSchema', () => {
     expect(result.vault).toBeUndefined()
   })
 
+  it('should accept config with parallelism', () => {
+    const result = monorepoConfigSchema.parse({ workspace: ['./*'], parallelism: 4 })
+    expect(result.parallelism).toBe(4)
+  })
+
+  it('should reject non-positive or fractional parallelism', () => {
+    expect(monorepoConfigSchema.safeParse({ workspace: ['./*'], parallelism: 0 }).success).toBe(false)
+    expect(monorepoConfigSchema.safeParse({ workspace: ['./*'], parallelism: 1.5 }).success).toBe(false)
+  })
+
   it('should accept empty vault block', () => {
     const result = monorepoConfigSchema.parse({
       workspace: ['./*'],
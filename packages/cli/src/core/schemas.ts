@@ -1,6 +1,22 @@
 import { z } from 'zod'
 import type { ZodError } from 'zod'
 
+export const injectionSchema = z.union([
+  z.string(),
+  z.object({
+    from: z.string(),
+    exclude: z.array(z.string()).optional(),
+  }),
+])
+
+export const injectionFileSchema = z.union([
+  z.string(),
+  z.object({
+    from: z.string(),
+    as: z.enum(['var', 'env']).optional(),
+  }),
+])
+
 export const envConfigSchema = z.object({
   backend_file: z.string().optional(),
   backend_type: z.string().optional(),
@@ -15,20 +31,72 @@ export const envConfigSchema = z.object({
     .optional()
     .nullable()
     .transform((v) => v ?? undefined),
+  env: z.record(z.coerce.string()).optional(),
+  injection: z.record(injectionSchema).optional(),
+  injection_files: z.record(injectionFileSchema).optional(),
+  depends_on: z.array(z.string()).optional(),
+  extends: z.string().optional(),
+})
+
+const publishTargetSchema = z.object({
+  vault: z.string().min(1, 'vault must be a KV path'),
+  keys: z.array(z.string()).min(1, 'At least one key is required'),
 })
 
+export const publishConfigSchema = z.union([publishTargetSchema, z.array(publishTargetSchema)])
+
 export const workspaceConfigSchema = z.object({
   provider: z.string().optional(),
-  injection: z.record(z.string()).optional(),
+  injection: z.record(injectionSchema).optional(),
+  injection_files: z.record(injectionFileSchema).optional(),
   output: z.record(z.string()).optional(),
   depends_on: z.array(z.string()).optional(),
   envs: z.record(envConfigSchema).optional(),
+  publish: publishConfigSchema.optional(),
   alias: z.string().optional(),
+  tags: z
+    .array(z.string().regex(/^[\w./-]+$/, 'tags may only contain letters, digits, "_", "-", "." and "/"'))
+    .optional(),
+})
+
+export const workspaceDefaultsSchema = z.object({
+  provider: z.string().optional(),
+  depends_on: z.array(z.string()).optional(),
+  envs: z.record(envConfigSchema.omit({ injection: true, injection_files: true, depends_on: true })).optional(),
+})
+
+export const vaultAuthConfigSchema = z.object({
+  method: z.enum(['approle', 'kubernetes', 'jwt', 'token']),
+  mount: z.string().optional(),
+  role: z.string().optional(),
+  role_id: z.string().optional(),
+  token_path: z.string().optional(),
 })
 
 export const vaultConfigSchema = z.object({
   address: z.string().optional(),
   role: z.string().optional(),
+  namespace: z.string().optional(),
+  kv_version: z.union([z.literal(1), z.literal(2)]).optional(),
+  auth: vaultAuthConfigSchema.optional(),
+})
+
+// `false` disables a resolver, `true` enables it, and an object configures it
+const resolverToggle = <T extends z.ZodRawShape>(shape: T) =>
+  z.union([z.boolean(), z.object({ enabled: z.boolean().optional(), ...shape })])
+
+export const resolversConfigSchema = z.object({
+  vault: z.boolean().optional(),
+  'vault-dynamic': resolverToggle({ revoke: z.boolean().optional() }).optional(),
+  file: resolverToggle({ allow_outside_root: z.boolean().optional() }).optional(),
+  cmd: resolverToggle({
+    timeout: z.number().positive('timeout must be a positive number of seconds').optional(),
+  }).optional(),
+  sops: resolverToggle({
+    binary: z.string().optional(),
+    age_key_file: z.string().optional(),
+    allow_outside_root: z.boolean().optional(),
+  }).optional(),
 })
 
 export const monorepoConfigSchema = z.object({
@@ -40,6 +108,10 @@ export const monorepoConfigSchema = z.object({
     .nullable()
     .transform((v) => v ?? undefined),
   vault: vaultConfigSchema.optional(),
+  resolvers: resolversConfigSchema.optional(),
+  publish: publishConfigSchema.optional(),
+  defaults: workspaceDefaultsSchema.optional(),
+  parallelism: z.number().int().positive('parallelism must be a positive integer').optional(),
 })
 
 export function formatZodError(error: ZodError): string {
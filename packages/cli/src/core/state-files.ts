@@ -1,3 +1,5 @@
+import type { OutputValue } from '../providers/index.js'
+
 export interface IState {
   version?: string | undefined
   current_environment?: string | undefined
@@ -9,5 +11,34 @@ export interface IState {
 
 export interface IWorkspaceState {
   env?: string | undefined
-  outputs?: Record<string, { value: string; secret: boolean }> | undefined
+  outputs?: Record<string, OutputValue> | undefined
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'aborted' | 'waiting'
+
+// up-to-date, applied and destroyed workspaces are skipped when a run is resumed
+export type RunWorkspaceStatus = 'planned' | 'up-to-date' | 'applied' | 'destroyed' | 'failed'
+
+export interface IRunJournal {
+  id: string
+  command: 'apply' | 'destroy'
+  env: string
+  config_fingerprint: string
+  project?: string | undefined
+  select?: string[] | undefined
+  // workspaces --changed-since found changed, by name
+  changed_workspaces?: string[] | undefined
+  ignore_dependencies: boolean
+  status: RunStatus
+  started_at: string
+  updated_at: string
+  workspaces: {
+    [key: string]: IRunWorkspaceEntry
+  }
+}
+
+export interface IRunWorkspaceEntry {
+  status: RunWorkspaceStatus
+  error?: string | undefined
+  updated_at: string
 }
@@ -1,4 +1,5 @@
-import { StateManager, State } from './state-manager.js'
+import { StateManager, State, newRunId } from './state-manager.js'
+import type { IRunJournal } from './state-files.js'
 import { mkdtemp, rm, readFile, access, constants } from 'fs/promises'
 import { join } from 'path'
 import { tmpdir } from 'os'
@@ -83,6 +84,56 @@ describe('StateManager', () => {
     })
   })
 
+  describe('run journal', () => {
+    function createRun(id: string): IRunJournal {
+      return {
+        id,
+        command: 'apply',
+        env: 'dev',
+        config_fingerprint: 'abc',
+        ignore_dependencies: false,
+        status: 'running',
+        started_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        workspaces: { ws1: { status: 'applied', updated_at: '2026-01-01T00:00:00.000Z' } },
+      }
+    }
+
+    it('should write runs under .ig/runs and read them back', async () => {
+      await stateManager.writeRun(createRun('20260101000000-aaaaaa'))
+
+      const content = await readFile(join(tmpDir, '.ig', 'runs', '20260101000000-aaaaaa.json'), 'utf-8')
+      expect(JSON.parse(content).workspaces.ws1.status).toBe('applied')
+      expect(await stateManager.readRun('20260101000000-aaaaaa')).toEqual(createRun('20260101000000-aaaaaa'))
+    })
+
+    it('should return null for unknown runs', async () => {
+      expect(await stateManager.readRun('20260101000000-aaaaaa')).toBeNull()
+      expect(await stateManager.latestRunId()).toBeNull()
+    })
+
+    it('should reject run ids that are not file names in .ig/runs', async () => {
+      await expect(stateManager.readRun('../state')).rejects.toThrow("Invalid run id '../state'")
+      await expect(stateManager.readRun('20260101000000-aaaaaa/../../x')).rejects.toThrow('Invalid run id')
+    })
+
+    it('should return the latest run id and prune the oldest runs', async () => {
+      for (const id of ['20260101000000-aaaaaa', '20260103000000-cccccc', '20260102000000-bbbbbb']) {
+        await stateManager.writeRun(createRun(id))
+      }
+
+      expect(await stateManager.latestRunId()).toBe('20260103000000-cccccc')
+
+      await stateManager.pruneRuns(2)
+      expect(await stateManager.readRun('20260101000000-aaaaaa')).toBeNull()
+      expect(await stateManager.readRun('20260102000000-bbbbbb')).not.toBeNull()
+    })
+
+    it('should generate sortable run ids', () => {
+      expect(newRunId()).toMatch(/^\d{14}-[0-9a-f]{6}$/)
+    })
+  })
+
   describe('storeWorkspaceTempFile', () => {
     it('should create temp file and return relative path', async () => {
       const workspacePath = join(tmpDir, 'my-workspace')
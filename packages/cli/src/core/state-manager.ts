@@ -1,26 +1,51 @@
-import { join, relative } from 'path'
-import { readFile, writeFile, mkdir } from 'fs/promises'
-import type { IState, IWorkspaceState } from './state-files.js'
-import { Mutex } from '../utils/index.js'
+import { dirname, join, relative } from 'path'
+import { readFile, writeFile, mkdir, readdir, rm } from 'fs/promises'
+import { randomBytes } from 'crypto'
+import type { IRunJournal, IState, IWorkspaceState } from './state-files.js'
+import { Mutex, UserError } from '../utils/index.js'
 
 const STATE_FILE_DIR = '.ig'
 const STATE_FILE_NAME = `state.json`
 const TEMPORAL_FILE_DIR = '.temp'
+const RUNS_DIR = 'runs'
+const MAX_KEPT_RUNS = 20
 const GIT_IGNORE_FILE_NAME = '.gitignore'
 const STATE_FILE_ENCODING = 'utf-8'
 const mutex = new Mutex()
 
+// files written by storeRunTempFile, see removeRunTempFiles
+const runTempFiles = new Set<string>()
+
+// removes the temp files the run wrote with storeRunTempFile
+export async function removeRunTempFiles(): Promise<void> {
+  const files = [...runTempFiles]
+  runTempFiles.clear()
+  for (const file of files) {
+    await rm(file, { force: true })
+  }
+}
+
+const RUN_ID_PATTERN = /^\d{14}-[0-9a-f]{6}$/
+
+// Run ids start with a UTC timestamp, so sorting them by name sorts them by start time
+export function newRunId(): string {
+  const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14)
+  return `${timestamp}-${randomBytes(3).toString('hex')}`
+}
+
 export class StateManager {
   private readonly stateFilePath: string
   private readonly stateFolderPath: string
   private readonly gitIgnoreFilePath: string
   private readonly tempDirPath: string
+  private readonly runsDirPath: string
 
   public constructor(private readonly rootPath: string) {
     this.stateFolderPath = join(this.rootPath, STATE_FILE_DIR)
     this.stateFilePath = join(this.stateFolderPath, STATE_FILE_NAME)
     this.gitIgnoreFilePath = join(this.rootPath, GIT_IGNORE_FILE_NAME)
     this.tempDirPath = join(this.stateFolderPath, TEMPORAL_FILE_DIR)
+    this.runsDirPath = join(this.stateFolderPath, RUNS_DIR)
   }
 
   public async read(): Promise<State> {
@@ -43,21 +68,95 @@ export class StateManager {
     }
   }
 
+  public async readRun(runId: string): Promise<IRunJournal | null> {
+    // the id comes from --resume; it names a file in .ig/runs and nothing else
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new UserError(`Invalid run id '${runId}'. Run ids look like ${newRunId()}, see .ig/runs`)
+    }
+    try {
+      const content = await readFile(join(this.runsDirPath, `${runId}.json`), STATE_FILE_ENCODING)
+      return JSON.parse(content) as IRunJournal
+    } catch (e) {
+      if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw e
+    }
+  }
+
+  public async latestRunId(): Promise<string | null> {
+    const runIds = await this.listRunIds()
+    return runIds.length > 0 ? runIds[runIds.length - 1] : null
+  }
+
+  // Writes the whole journal; callers share one journal object, so the last write always has every change
+  public async writeRun(run: IRunJournal): Promise<void> {
+    const unlock = await mutex.lock()
+    try {
+      await this.ensureInitialized()
+      await mkdir(this.runsDirPath, { recursive: true })
+      const content = JSON.stringify(run, null, 2)
+      await writeFile(join(this.runsDirPath, `${run.id}.json`), content, { encoding: STATE_FILE_ENCODING, mode: 0o600 })
+    } finally {
+      unlock()
+    }
+  }
+
+  public async pruneRuns(keep = MAX_KEPT_RUNS): Promise<void> {
+    const runIds = await this.listRunIds()
+    for (const runId of runIds.slice(0, Math.max(0, runIds.length - keep))) {
+      await rm(join(this.runsDirPath, `${runId}.json`), { force: true })
+    }
+  }
+
+  private async listRunIds(): Promise<string[]> {
+    try {
+      const files = await readdir(this.runsDirPath)
+      return files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => f.slice(0, -'.json'.length))
+        .sort()
+    } catch (e) {
+      if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw e
+    }
+  }
+
   // TODO: extract temp file mangement from here
   public async storeWorkspaceTempFile(
     workspacePath: string,
     fileName: string,
     content: string | Buffer,
   ): Promise<string> {
-    const wsRelativePath = relative(this.rootPath, workspacePath)
-    const folderPath = join(this.tempDirPath, wsRelativePath)
+    const filePath = this.workspaceTempFilePath(workspacePath, fileName)
     await this.ensureInitialized()
-    await mkdir(folderPath, { recursive: true })
-    const filePath = join(folderPath, fileName)
+    await mkdir(dirname(filePath), { recursive: true })
     await writeFile(filePath, content, { encoding: STATE_FILE_ENCODING, mode: 0o600 })
     return relative(workspacePath, filePath)
   }
 
+  // absolute path of a file storeWorkspaceTempFile writes: .ig/.temp/<workspace path>/<file name>
+  public workspaceTempFilePath(workspacePath: string, fileName: string): string {
+    return join(this.tempDirPath, relative(this.rootPath, workspacePath), fileName)
+  }
+
+  // like storeWorkspaceTempFile, but the file is removed when the run ends; returns its absolute path
+  public async storeRunTempFile(workspacePath: string, fileName: string, content: string | Buffer): Promise<string> {
+    const filePath = join(workspacePath, await this.storeWorkspaceTempFile(workspacePath, fileName, content))
+    runTempFiles.add(filePath)
+    return filePath
+  }
+
+  // reads a file written by storeWorkspaceTempFile and removes it
+  public async takeWorkspaceTempFile(workspacePath: string, relativePath: string): Promise<Buffer> {
+    const filePath = join(workspacePath, relativePath)
+    const content = await readFile(filePath)
+    await rm(filePath, { force: true })
+    return content
+  }
+
   private async readInternalState(): Promise<IState | null> {
     try {
       const content = await readFile(this.stateFilePath, STATE_FILE_ENCODING)
@@ -0,0 +1,166 @@
+import { mkdtemp, mkdir, writeFile, rm, realpath } from 'fs/promises'
+import { dirname, join } from 'path'
+import { tmpdir } from 'os'
+import { Monorepo, Workspace, type WorkspaceInjection } from './model.js'
+import { terraformProvider } from '../providers/index.js'
+import { validateMonorepo } from './validator.js'
+
+describe('validateMonorepo', () => {
+  let rootDir: string
+
+  async function writeFiles(files: Record<string, string>) {
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(rootDir, path)), { recursive: true })
+      await writeFile(join(rootDir, path), content)
+    }
+  }
+
+  // a terraform workspace as the reader builds it from `<name>/ig.yaml`
+  function workspace(
+    name: string,
+    opts: {
+      // injected and depended on workspaces are relative to the root here
+      injections?: Record<string, WorkspaceInjection>
+      dependsOn?: string[]
+      envs?: string[]
+      alias?: string
+    } = {},
+  ) {
+    const injections = Object.fromEntries(
+      Object.entries(opts.injections ?? {}).map(([key, x]) => [key, { ...x, workspace: join(rootDir, x.workspace) }]),
+    )
+    return new Workspace(
+      opts.alias ?? name,
+      join(rootDir, name),
+      rootDir,
+      terraformProvider,
+      injections,
+      (opts.dependsOn ?? []).map((x) => join(rootDir, x)),
+      Object.fromEntries((opts.envs ?? ['dev']).map((env) => [env, {}])),
+    )
+  }
+
+  async function validate(workspaces: Workspace[], exports: Monorepo['exports'] = []) {
+    return validateMonorepo(new Monorepo(rootDir, workspaces, exports, undefined))
+  }
+
+  beforeEach(async () => {
+    rootDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-validate-test-')))
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should accept a valid monorepo', async () => {
+    await writeFiles({
+      'ig.yaml': "workspace: ['./*']\noutput:\n  vpc: './network:vpc_id'\n",
+      'network/main.tf': 'output "vpc_id" {\n  value = "vpc-1"\n}\n',
+      'app/main.tf': 'variable "vpc_id" {}\n',
+      'app/ig.yaml': "injection:\n  vpc_id: '../network:vpc_id'\n",
+    })
+    const issues = await validate(
+      [workspace('network'), workspace('app', { injections: { vpc_id: { workspace: 'network', key: 'vpc_id' } } })],
+      [{ name: 'vpc', workspace: join(rootDir, 'network'), key: 'vpc_id' }],
+    )
+    expect(issues).toEqual([])
+  })
+
+  it('should report injected outputs the upstream workspace does not declare', async () => {
+    await writeFiles({
+      'network/main.tf': '# output "subnet_id" {}\noutput "vpc_id" {\n  value = "vpc-1"\n}\n',
+      'app/main.tf': 'variable "subnet_id" {}\n',
+      'app/ig.yaml': "envs:\n  dev: {}\ninjection:\n  subnet_id: '../network:subnet_id'\n",
+    })
+    const issues = await validate([
+      workspace('network'),
+      workspace('app', { injections: { subnet_id: { workspace: 'network', key: 'subnet_id' } } }),
+    ])
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        message: "Injection 'subnet_id': network does not declare output 'subnet_id'",
+        file: 'app/ig.yaml',
+        line: 4,
+      },
+    ])
+  })
+
+  it('should warn about injections without a matching variable', async () => {
+    await writeFiles({
+      'network/main.tf': 'output "vpc_id" {}\n',
+      'app/main.tf': '',
+      'app/ig.yaml': "injection:\n  vpc: '../network:vpc_id'\n",
+    })
+    const issues = await validate([
+      workspace('network'),
+      workspace('app', { injections: { vpc: { workspace: 'network', key: 'vpc_id' } } }),
+    ])
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        message: "Injection 'vpc': app has no variable 'vpc' to receive it",
+        file: 'app/ig.yaml',
+        line: 2,
+      },
+    ])
+  })
+
+  it('should report dangling references and missing environments', async () => {
+    await writeFiles({
+      'network/main.tf': '',
+      'app/main.tf': '',
+      'app/ig.yaml': "depends_on:\n  - '../network'\n  - '../dns'\n",
+    })
+    const issues = await validate([
+      workspace('network'),
+      workspace('app', { dependsOn: ['network', 'dns'], envs: ['dev', 'prod'] }),
+    ])
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        message: 'app depends on network in environment prod, but network does not have it',
+        file: 'app/ig.yaml',
+        line: 2,
+      },
+      {
+        severity: 'error',
+        message: 'depends_on references ../dns, which is not a workspace',
+        file: 'app/ig.yaml',
+        line: 3,
+      },
+    ])
+  })
+
+  it('should report dependency cycles', async () => {
+    await writeFiles({
+      'a/main.tf': '',
+      'a/ig.yaml': "depends_on: ['../b']\n",
+      'b/main.tf': '',
+      'b/ig.yaml': "depends_on: ['../a']\n",
+    })
+    const issues = await validate([workspace('a', { dependsOn: ['b'] }), workspace('b', { dependsOn: ['a'] })])
+    expect(issues).toEqual([
+      { severity: 'error', message: 'Dependency cycle a -> b -> a in environment dev', file: 'a/ig.yaml', line: 1 },
+    ])
+  })
+
+  it('should report duplicate workspace names', async () => {
+    await writeFiles({ 'a/ig.yaml': 'alias: db\n', 'b/ig.yaml': 'alias: db\n' })
+    const issues = await validate([workspace('a', { alias: 'db' }), workspace('b', { alias: 'db' })])
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        message: "Workspace name 'db' is used by a, b. Set a unique alias",
+        file: 'a/ig.yaml',
+        line: 1,
+      },
+      {
+        severity: 'error',
+        message: "Workspace name 'db' is used by a, b. Set a unique alias",
+        file: 'b/ig.yaml',
+        line: 1,
+      },
+    ])
+  })
+})
@@ -0,0 +1,291 @@
+import { relative } from 'path'
+import { LineCounter, parseDocument, type Document } from 'yaml'
+import type { SourceDeclarations } from '../providers/index.js'
+import { logger } from '../utils/index.js'
+import { ALL_OUTPUTS, type Monorepo, type Workspace, type WorkspaceInjection } from './model.js'
+import { readRawConfigFile } from './monorepo-reader.js'
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning'
+  message: string
+  // config file relative to the monorepo root, with the line of the offending entry when it can be found
+  file: string
+  line?: number | undefined
+}
+
+type YamlPath = (string | number)[]
+
+// a workspace reference of a workspace ig.yaml: an injection or a depends_on entry
+interface Reference {
+  workspace: Workspace
+  target: string
+  // envs.<env> the reference is declared in; top-level references apply to every env
+  declaredIn: string | undefined
+  at: YamlPath
+  injection?: { name: string; value: WorkspaceInjection }
+}
+
+interface ConfigSource {
+  file: string
+  doc: Document
+  lines: LineCounter
+}
+
+/**
+ * Checks the monorepo config without running providers: workspace references, dependency cycles,
+ * env coverage along dependencies, workspace names, and injected outputs against the ones the
+ * upstream workspace source declares.
+ */
+export async function validateMonorepo(monorepo: Monorepo): Promise<ValidationIssue[]> {
+  return new MonorepoValidator(monorepo).validate()
+}
+
+class MonorepoValidator {
+  private readonly issues: ValidationIssue[] = []
+  private readonly sources = new Map<string, ConfigSource>()
+  private readonly declarations = new Map<Workspace, Promise<SourceDeclarations>>()
+
+  public constructor(private readonly monorepo: Monorepo) {}
+
+  public async validate(): Promise<ValidationIssue[]> {
+    for (const dir of [this.monorepo.path, ...this.monorepo.workspaces.map((ws) => ws.path)]) {
+      await this.loadSource(dir)
+    }
+
+    const references = this.monorepo.workspaces.flatMap((ws) => referencesOf(ws))
+    this.checkNames()
+    this.checkReferences(references)
+    this.checkCycles(references)
+    await this.checkInjectedKeys(references)
+    await this.checkExports()
+    return this.issues
+  }
+
+  private checkNames() {
+    const byName = new Map<string, Workspace[]>()
+    for (const ws of this.monorepo.workspaces) {
+      byName.set(ws.name, [...(byName.get(ws.name) ?? []), ws])
+    }
+    for (const [name, workspaces] of byName) {
+      if (workspaces.length < 2) continue
+      const paths = workspaces.map((ws) => relative(this.monorepo.path, ws.path)).join(', ')
+      for (const ws of workspaces) {
+        this.error(ws.path, ['alias'], `Workspace name '${name}' is used by ${paths}. Set a unique alias`)
+      }
+    }
+  }
+
+  private checkReferences(references: Reference[]) {
+    for (const ref of references) {
+      const target = this.monorepo.findWorkspace(ref.target)
+      const what = ref.injection ? `Injection '${ref.injection.name}'` : 'depends_on'
+      if (!target) {
+        const path = relative(ref.workspace.path, ref.target)
+        this.error(ref.workspace.path, ref.at, `${what} references ${path}, which is not a workspace`)
+        continue
+      }
+
+      const crossEnv = ref.injection?.value.env
+      if (crossEnv !== undefined) {
+        if (!target.hasEnv(crossEnv)) {
+          this.error(
+            ref.workspace.path,
+            ref.at,
+            `${what} reads environment ${crossEnv} of ${target.name}, which it does not have`,
+          )
+        }
+        continue
+      }
+
+      const missing = envsOf(ref).filter((env) => !target.hasEnv(env))
+      if (missing.length > 0) {
+        this.error(
+          ref.workspace.path,
+          ref.at,
+          `${ref.workspace.name} depends on ${target.name} in environment ${missing.join(', ')}, but ${target.name} does not have it`,
+        )
+      }
+    }
+  }
+
+  private checkCycles(references: Reference[]) {
+    const cycles = new Map<string, { cycle: Workspace[]; envs: string[] }>()
+    const envs = [...new Set(this.monorepo.workspaces.flatMap((ws) => Object.keys(ws.envs)))]
+    for (const env of envs) {
+      for (const cycle of findCycles(this.monorepo, env)) {
+        const key = cycle
+          .map((ws) => ws.name)
+          .sort()
+          .join('\0')
+        const existing = cycles.get(key)
+        if (existing) {
+          if (!existing.envs.includes(env)) existing.envs.push(env)
+        } else {
+          cycles.set(key, { cycle, envs: [env] })
+        }
+      }
+    }
+
+    for (const { cycle, envs: cycleEnvs } of cycles.values()) {
+      const [first, second] = cycle
+      const ref = references.find((x) => x.workspace === first && second.matchKey(x.target))
+      const names = [...cycle, first].map((ws) => ws.name).join(' -> ')
+      this.error(first.path, ref?.at ?? [], `Dependency cycle ${names} in environment ${cycleEnvs.join(', ')}`)
+    }
+  }
+
+  private async checkInjectedKeys(references: Reference[]) {
+    for (const ref of references) {
+      const target = this.monorepo.findWorkspace(ref.target)
+      if (!target || !ref.injection || ref.injection.value.key === ALL_OUTPUTS) continue
+      const { name, value } = ref.injection
+
+      const outputs = (await this.declarationsOf(target)).outputs
+      if (outputs && !outputs.includes(value.key)) {
+        this.error(
+          ref.workspace.path,
+          ref.at,
+          `Injection '${name}': ${target.name} does not declare output '${value.key}'`,
+        )
+      }
+
+      // files passed as env vars need no variable
+      const inputs = (await this.declarationsOf(ref.workspace)).inputs
+      if (inputs && value.file !== 'env' && !inputs.includes(name)) {
+        this.warning(
+          ref.workspace.path,
+          ref.at,
+          `Injection '${name}': ${ref.workspace.name} has no variable '${name}' to receive it`,
+        )
+      }
+    }
+  }
+
+  private async checkExports() {
+    for (const exp of this.monorepo.exports) {
+      const at = ['output', exp.name]
+      const target = this.monorepo.findWorkspace(exp.workspace)
+      if (!target) {
+        const path = relative(this.monorepo.path, exp.workspace)
+        this.error(this.monorepo.path, at, `Output '${exp.name}' references ${path}, which is not a workspace`)
+        continue
+      }
+      const outputs = (await this.declarationsOf(target)).outputs
+      if (outputs && !outputs.includes(exp.key)) {
+        this.error(this.monorepo.path, at, `Output '${exp.name}': ${target.name} does not declare output '${exp.key}'`)
+      }
+    }
+  }
+
+  private declarationsOf(ws: Workspace): Promise<SourceDeclarations> {
+    let declarations = this.declarations.get(ws)
+    if (!declarations) {
+      declarations = ws.provider.readDeclarations(ws.path).catch((error: unknown) => {
+        logger.debug(`Cannot read declarations of ${ws.name}: ${error}`)
+        return { inputs: undefined, outputs: undefined }
+      })
+      this.declarations.set(ws, declarations)
+    }
+    return declarations
+  }
+
+  private async loadSource(dir: string) {
+    const raw = await readRawConfigFile(dir)
+    if (raw) {
+      const lines = new LineCounter()
+      const doc = parseDocument(raw.content, { lineCounter: lines })
+      this.sources.set(dir, { file: relative(this.monorepo.path, raw.path), doc, lines })
+    }
+  }
+
+  private error(dir: string, at: YamlPath, message: string) {
+    this.issues.push({ severity: 'error', message, ...this.locate(dir, at) })
+  }
+
+  private warning(dir: string, at: YamlPath, message: string) {
+    this.issues.push({ severity: 'warning', message, ...this.locate(dir, at) })
+  }
+
+  // the entry at `at`, or its closest parent present in the file
+  private locate(dir: string, at: YamlPath): { file: string; line?: number | undefined } {
+    const source = this.sources.get(dir)
+    if (!source) {
+      return { file: relative(this.monorepo.path, dir) }
+    }
+    for (let path = at; path.length > 0; path = path.slice(0, -1)) {
+      const node = source.doc.getIn(path, true) as { range?: [number, number, number] } | undefined
+      if (node?.range) {
+        return { file: source.file, line: source.lines.linePos(node.range[0]).line }
+      }
+    }
+    return { file: source.file }
+  }
+}
+
+function referencesOf(ws: Workspace): Reference[] {
+  const references: Reference[] = []
+  const add = (declaredIn: string | undefined, injections: Record<string, WorkspaceInjection>, dependsOn: string[]) => {
+    const prefix = declaredIn === undefined ? [] : ['envs', declaredIn]
+    for (const [name, value] of Object.entries(injections)) {
+      references.push({
+        workspace: ws,
+        target: value.workspace,
+        declaredIn,
+        at: [...prefix, value.file ? 'injection_files' : 'injection', name],
+        injection: { name, value },
+      })
+    }
+    dependsOn.forEach((target, i) =>
+      references.push({ workspace: ws, target, declaredIn, at: [...prefix, 'depends_on', i] }),
+    )
+  }
+
+  add(undefined, ws.injections, ws.dependsOn)
+  for (const [env, dependencies] of Object.entries(ws.envDependencies)) {
+    add(env, dependencies.injections, dependencies.dependsOn)
+  }
+  return references
+}
+
+// environments a reference applies in: its own env, or every env of the workspace not overriding the injection
+function envsOf(ref: Reference): string[] {
+  if (ref.declaredIn !== undefined) {
+    return [ref.declaredIn]
+  }
+  return Object.keys(ref.workspace.envs).filter(
+    (env) => !ref.injection || ref.workspace.envDependencies[env]?.injections[ref.injection.name] === undefined,
+  )
+}
+
+// each cycle once, starting at the workspace that comes first in the monorepo
+function findCycles(monorepo: Monorepo, env: string): Workspace[][] {
+  const workspaces = monorepo.workspaces.filter((ws) => ws.hasEnv(env))
+  const dependencies = (ws: Workspace) =>
+    ws
+      .allDependsOn(env)
+      .map((key) => monorepo.findWorkspace(key))
+      .filter((x): x is Workspace => x !== null && workspaces.includes(x))
+
+  const cycles: Workspace[][] = []
+  const done = new Set<Workspace>()
+  const path: Workspace[] = []
+  const visit = (ws: Workspace) => {
+    const index = path.indexOf(ws)
+    if (index >= 0) {
+      cycles.push(path.slice(index))
+      return
+    }
+    if (done.has(ws)) return
+    path.push(ws)
+    dependencies(ws).forEach(visit)
+    path.pop()
+    done.add(ws)
+  }
+  workspaces.forEach(visit)
+
+  return cycles.map((cycle) => {
+    const start = cycle.reduce((a, b) => (workspaces.indexOf(a) <= workspaces.indexOf(b) ? a : b))
+    const i = cycle.indexOf(start)
+    return [...cycle.slice(i), ...cycle.slice(0, i)]
+  })
+}
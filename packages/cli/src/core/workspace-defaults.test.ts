@@ -0,0 +1,68 @@
+import { applyWorkspaceDefaults } from './workspace-defaults.js'
+import type { WorkspaceDefaultsConfig } from './config-files.js'
+
+describe('applyWorkspaceDefaults', () => {
+  const defaults: WorkspaceDefaultsConfig = {
+    provider: 'terraform',
+    depends_on: ['./audit'],
+    envs: {
+      dev: {
+        backend_type: 's3',
+        backend_config: { bucket: 'tf-state-dev', region: 'eu-west-1' },
+        var_files: ['./shared/dev.tfvars'],
+      },
+      prod: {
+        extends: 'dev',
+        backend_config: { bucket: 'tf-state-prod' },
+        var_files: ['./shared/prod.tfvars', '${SHARED_DIR}/prod.tfvars'],
+      },
+    },
+  }
+
+  it('should merge the workspace config over the defaults', () => {
+    const config = applyWorkspaceDefaults(
+      {
+        depends_on: ['../network'],
+        envs: {
+          prod: { backend_config: { key: 'app' }, vars: { replicas: '3' }, var_files: ['./prod.tfvars'] },
+          qa: { vars: { replicas: '1' } },
+        },
+      },
+      defaults,
+      '/repo/stacks/app',
+      '/repo',
+    )
+    expect(config).toEqual({
+      provider: 'terraform',
+      depends_on: ['../network', '../../audit'],
+      envs: {
+        prod: {
+          backend_type: 's3',
+          backend_config: { bucket: 'tf-state-prod', region: 'eu-west-1', key: 'app' },
+          vars: { replicas: '3' },
+          var_files: [
+            '../../shared/dev.tfvars',
+            '../../shared/prod.tfvars',
+            '${SHARED_DIR}/prod.tfvars',
+            './prod.tfvars',
+          ],
+        },
+        qa: { vars: { replicas: '1' } },
+      },
+    })
+  })
+
+  it('should give workspaces without envs every default env', () => {
+    const config = applyWorkspaceDefaults({ provider: 'pulumi' }, defaults, '/repo/cache', '/repo')
+    expect(config?.provider).toBe('pulumi')
+    expect(Object.keys(config?.envs ?? {})).toEqual(['dev', 'prod'])
+  })
+
+  it('should not make a workspace depend on itself', () => {
+    expect(applyWorkspaceDefaults({}, defaults, '/repo/audit', '/repo')?.depends_on).toBeUndefined()
+  })
+
+  it('should only apply the default provider to folders with an ig.yaml', () => {
+    expect(applyWorkspaceDefaults(null, defaults, '/repo/docs', '/repo')?.provider).toBeUndefined()
+  })
+})
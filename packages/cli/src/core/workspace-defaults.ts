@@ -0,0 +1,70 @@
+import { isAbsolute, relative, resolve } from 'path'
+import type { WorkspaceConfig, WorkspaceDefaultsConfig, WorkspaceEnvConfig } from './config-files.js'
+import { mergeEnvConfig, resolveEnvInheritance } from './env-inheritance.js'
+
+/**
+ * Applies the root `defaults:` to a workspace config, with the workspace ig.yaml winning: its `provider`
+ * replaces the default one, shared `depends_on` entries are added to its own, and each of its envs is
+ * merged over the default env of the same name like an env over the one it extends. A workspace
+ * without an `envs` block gets every default env. The default provider only applies to folders with
+ * an ig.yaml. Paths of the defaults are rebased onto the workspace.
+ */
+export function applyWorkspaceDefaults(
+  config: WorkspaceConfig | null,
+  defaults: WorkspaceDefaultsConfig | undefined,
+  workspacePath: string,
+  rootPath: string,
+): WorkspaceConfig | null {
+  if (!defaults) {
+    return config
+  }
+
+  const defaultEnvs = resolveEnvInheritance(defaults.envs ?? {}, rootPath)
+  const rebase = (path: string) => rebasePath(path, workspacePath, rootPath)
+  const envDefaults = (env: string): WorkspaceEnvConfig | undefined => {
+    const envConfig = defaultEnvs[env]
+    if (!envConfig) {
+      return undefined
+    }
+    const rebased: WorkspaceEnvConfig = { ...envConfig }
+    if (envConfig.backend_file !== undefined) rebased.backend_file = rebase(envConfig.backend_file)
+    if (envConfig.var_files !== undefined) rebased.var_files = envConfig.var_files.map(rebase)
+    return rebased
+  }
+
+  const envs = config?.envs
+    ? Object.fromEntries(
+        Object.entries(config.envs).map(([env, envConfig]) => {
+          const defaultEnv = envDefaults(env)
+          return [env, defaultEnv ? mergeEnvConfig(defaultEnv, envConfig) : envConfig]
+        }),
+      )
+    : Object.fromEntries(Object.keys(defaultEnvs).map((env) => [env, envDefaults(env)!]))
+
+  const sharedDependsOn = (defaults.depends_on ?? [])
+    .filter((dependency) => resolve(rootPath, dependency) !== workspacePath)
+    .map(rebase)
+  const dependsOn = [...(config?.depends_on ?? [])]
+  for (const dependency of sharedDependsOn) {
+    if (!dependsOn.some((x) => resolve(workspacePath, x) === resolve(workspacePath, dependency))) {
+      dependsOn.push(dependency)
+    }
+  }
+
+  // folders without an ig.yaml stay workspaces only when their provider is detected
+  const provider = config?.provider ?? (config ? defaults.provider : undefined)
+  return {
+    ...config,
+    ...(provider !== undefined ? { provider } : {}),
+    ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+    ...(Object.keys(envs).length > 0 ? { envs } : {}),
+  }
+}
+
+// root-relative path as seen from the workspace; absolute and interpolated paths are kept
+function rebasePath(path: string, workspacePath: string, rootPath: string): string {
+  if (isAbsolute(path) || path.startsWith('$')) {
+    return path
+  }
+  return relative(workspacePath, resolve(rootPath, path)) || '.'
+}
@@ -20,12 +20,12 @@ vi.mock('./state-manager.js', async (importOriginal) => {
   }
 })
 
-function setup(opts?: { cachedOutputs?: Record<string, string> }) {
+function setup(opts?: { cachedOutputs?: Record<string, string>; stateEnv?: string }) {
   const provider = new MockProvider()
   const ws = new Workspace('ws1', '/path/to/ws1', '/path/to/monorepo', provider, {}, [], { dev: {} })
   const monorepo = new Monorepo('/path/to/monorepo', [ws], [], undefined)
 
-  if (opts?.cachedOutputs) {
+  if (opts?.cachedOutputs || opts?.stateEnv) {
     const mockStateManager = vi.mocked(StateManager)
     mockStateManager.mockImplementation(
       () =>
@@ -34,7 +34,7 @@ function setup(opts?: { cachedOutputs?: Record<string, string> }) {
             const state = new State()
             state.restore({
               current_environment: 'dev',
-              workspaces: { ws1: { env: 'dev', outputs: opts.cachedOutputs } },
+              workspaces: { ws1: { env: opts.stateEnv ?? 'dev', outputs: opts.cachedOutputs } },
             })
             return state
           }),
@@ -172,6 +172,38 @@ describe('WorkspaceInterop', () => {
     expect(provider.getOutputs).not.toHaveBeenCalled()
   })
 
+  it('should read cross-env outputs through the provider when the workspace is initialized for the selected env', async () => {
+    // selected env prod: ws1 is initialized for prod and its prod outputs are cached
+    const { provider, interop } = setup({ stateEnv: 'prod', cachedOutputs: { key: 'prod-value' } })
+    provider.getEnvOutputs.mockResolvedValue({ key: { value: 'dev-value', secret: false } })
+
+    expect(await interop.getCrossEnvOutputs()).toEqual({ key: { value: 'dev-value', secret: false } })
+    expect(provider.getEnvOutputs).toHaveBeenCalledWith(expect.objectContaining({ alias: 'ws1' }), 'dev')
+    expect(provider.getOutputs).not.toHaveBeenCalled()
+  })
+
+  it('should resolve deferred references of its env just before calling the provider', async () => {
+    const provider = new MockProvider()
+    provider.getOutputs.mockResolvedValue({})
+    const password = '${vault-dynamic:database/creds/app#password}'
+    const ws = new Workspace('ws1', '/path/to/ws1', '/path/to/monorepo', provider, {}, [], {
+      dev: { vars: { db_password: password } },
+      prod: { vars: { db_password: password } },
+    })
+    const resolve = vi.fn(async () => 'dev-password')
+    const resolvers = { 'vault-dynamic': { deferred: true, resolve } }
+    const monorepo = new Monorepo('/path/to/monorepo', [ws], [], undefined, {}, {}, undefined, resolvers)
+    const interop = new WorkspaceInterop(monorepo, ws, 'dev')
+    expect(resolve).not.toHaveBeenCalled()
+
+    await interop.getOutputs()
+
+    const config = provider.getOutputs.mock.calls[0]![0]
+    expect(config.envs?.['dev']?.vars).toEqual({ db_password: 'dev-password' })
+    expect(config.envs?.['prod']?.vars).toEqual({ db_password: password })
+    expect(resolve).toHaveBeenCalledOnce()
+  })
+
   it('should delegate getDriftPlan to provider', async () => {
     const { provider, interop } = setup()
     const mockPlan: ProviderPlan = {
@@ -338,4 +370,33 @@ describe('WorkspaceInterop', () => {
       undefined,
     )
   })
+
+  it('should pass the paths of injection files as env vars of the selected env', async () => {
+    vi.mocked(StateManager).mockImplementation(
+      () =>
+        ({
+          workspaceTempFilePath: (workspacePath: string, fileName: string) => `${workspacePath}/.temp/${fileName}`,
+        }) as unknown as StateManager,
+    )
+    const provider = new MockProvider()
+    const injections = {
+      KUBECONFIG: { workspace: 'cluster', key: 'kubeconfig', file: 'env' as const },
+      ca_bundle_path: { workspace: 'cluster', key: 'ca_bundle', file: 'var' as const },
+    }
+    const envs = { dev: { env: { AWS_PROFILE: 'dev' } }, prod: {} }
+    const ws = new Workspace('ws1', '/path/to/ws1', '/path/to/monorepo', provider, injections, [], envs)
+    const interop = new WorkspaceInterop(new Monorepo('/path/to/monorepo', [ws], [], undefined), ws, 'dev')
+    provider.isDestroyed.mockResolvedValue(false)
+
+    await interop.isDestroyed()
+    expect(provider.isDestroyed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        envs: {
+          dev: { env: { AWS_PROFILE: 'dev', KUBECONFIG: '/path/to/ws1/.temp/injected-KUBECONFIG' } },
+          prod: {},
+        },
+      }),
+      'dev',
+    )
+  })
 })
@@ -1,5 +1,7 @@
+import { relative } from 'path'
 import { type Monorepo, Workspace } from './model.js'
 import type {
+  EnvironmentConfig,
   IProvider,
   ProviderConfig,
   ProviderInput,
@@ -8,8 +10,9 @@ import type {
   ProviderEvent,
 } from '../providers/index.js'
 import { StateManager } from './state-manager.js'
-import { logger } from '../utils/index.js'
+import { logger, resolveDeferredReferences, type BuiltinVariables } from '../utils/index.js'
 import { globalConfig } from './global-config.js'
+import { publishOutputs } from './output-publisher.js'
 
 /*
   Calls provider commands on Workspace
@@ -41,46 +44,56 @@ export class WorkspaceInterop {
       }
     }
 
-    const outputs = await this.provider.getOutputs(this.providerConfig(), this.env)
+    const outputs = await this.provider.getOutputs(await this.providerConfig(), this.env)
     await this.storeOutputs(outputs)
     return { outputs, actual: true }
   }
 
-  public getPlan(
+  /*
+    Outputs in this.env when it is not the selected environment, for cross-env injections.
+    They are read through the provider with the backend of this.env, apart from the environment the
+    workspace is initialized for, and are not stored: the state holds the outputs of the selected env.
+   */
+  public async getCrossEnvOutputs(): Promise<ProviderOutput> {
+    return this.provider.getEnvOutputs(await this.providerConfig(), this.env)
+  }
+
+  public async getPlan(
     input: ProviderInput,
     options?: { detailed?: boolean; refresh?: boolean; savePlanFile?: boolean },
   ): Promise<ProviderPlan> {
-    return this.provider.getPlan(this.providerConfig(), input, this.env, options)
+    return this.provider.getPlan(await this.providerConfig(), input, this.env, options)
   }
 
   public async apply(
     input: ProviderInput,
     options?: { onEvent?: (event: ProviderEvent) => void; planFile?: string },
   ): Promise<ProviderOutput> {
-    const outputs = await this.provider.apply(this.providerConfig(), input, this.env, options)
+    const outputs = await this.provider.apply(await this.providerConfig(), input, this.env, options)
     await this.storeOutputs(outputs)
+    await publishOutputs(this.monorepo, this.workspace, this.env, outputs)
     return outputs
   }
 
-  public destroyPlan(input: ProviderInput, options?: { savePlanFile?: boolean }): Promise<ProviderPlan> {
-    return this.provider.destroyPlan(this.providerConfig(), input, this.env, options)
+  public async destroyPlan(input: ProviderInput, options?: { savePlanFile?: boolean }): Promise<ProviderPlan> {
+    return this.provider.destroyPlan(await this.providerConfig(), input, this.env, options)
   }
 
-  public destroy(
+  public async destroy(
     input: ProviderInput,
     options?: { onEvent?: (event: ProviderEvent) => void; planFile?: string },
   ): Promise<void> {
-    return this.provider.destroy(this.providerConfig(), input, this.env, options)
+    return this.provider.destroy(await this.providerConfig(), input, this.env, options)
   }
 
-  public isDestroyed(): Promise<boolean> {
-    return this.provider.isDestroyed(this.providerConfig(), this.env)
+  public async isDestroyed(): Promise<boolean> {
+    return this.provider.isDestroyed(await this.providerConfig(), this.env)
   }
 
   public async selectEnvironment(): Promise<void> {
     await this.storeOutputs(null)
     logger.debug(`Selecting environment for ${this.workspace.name}`)
-    await this.provider.selectEnvironment(this.providerConfig(), this.env)
+    await this.provider.selectEnvironment(await this.providerConfig(), this.env)
     logger.debug(`Selected environment for ${this.workspace.name}`)
   }
 
@@ -88,24 +101,24 @@ export class WorkspaceInterop {
     return this.provider.existsInFolder(folderPath)
   }
 
-  public getDriftPlan(input: ProviderInput): Promise<ProviderPlan> {
-    return this.provider.getDriftPlan(this.providerConfig(), input, this.env)
+  public async getDriftPlan(input: ProviderInput): Promise<ProviderPlan> {
+    return this.provider.getDriftPlan(await this.providerConfig(), input, this.env)
   }
 
-  public refresh(input: ProviderInput): Promise<void> {
-    return this.provider.refresh(this.providerConfig(), input, this.env)
+  public async refresh(input: ProviderInput): Promise<void> {
+    return this.provider.refresh(await this.providerConfig(), input, this.env)
   }
 
-  public importResource(args: string[], input: ProviderInput): Promise<string> {
-    return this.provider.importResource(this.providerConfig(), args, input, this.env)
+  public async importResource(args: string[], input: ProviderInput): Promise<string> {
+    return this.provider.importResource(await this.providerConfig(), args, input, this.env)
   }
 
-  public generateCode(args: string[], input: ProviderInput): Promise<string> {
-    return this.provider.generateCode(this.providerConfig(), args, input, this.env)
+  public async generateCode(args: string[], input: ProviderInput): Promise<string> {
+    return this.provider.generateCode(await this.providerConfig(), args, input, this.env)
   }
 
-  public execAnyCommand(command: string[], input: () => Promise<ProviderInput>): Promise<void> {
-    return this.provider.execAnyCommand(command, this.providerConfig(), input, this.env)
+  public async execAnyCommand(command: string[], input: () => Promise<ProviderInput>): Promise<void> {
+    return this.provider.execAnyCommand(command, await this.providerConfig(), input, this.env)
   }
 
   private async storeOutputs(outputs: ProviderOutput | null): Promise<void> {
@@ -117,16 +130,40 @@ export class WorkspaceInterop {
     })
   }
 
-  private providerConfig(): ProviderConfig {
+  // with the deferred references of this.env, such as `${vault-dynamic:...}`, resolved
+  private async providerConfig(): Promise<ProviderConfig> {
+    const envs = this.providerEnvs()
+    const resolvers = this.monorepo.secretResolvers
+    const builtins: BuiltinVariables = {
+      root: this.monorepo.path,
+      workspace: this.workspace.name,
+      workspace_path: relative(this.monorepo.path, this.workspace.path),
+      env: this.env,
+    }
+    const ctx = `workspace ${this.workspace.path} env '${this.env}'`
     return {
       rootMonoRepoFolder: this.workspace.monorepoPath,
-      envs: this.workspace.envs,
+      envs: { ...envs, [this.env]: await resolveDeferredReferences(envs[this.env]!, resolvers, ctx, builtins) },
       alias: this.workspace.name,
       rootPath: this.workspace.path,
       provider: this.workspace.providerName,
-      depends_on: this.workspace.allDependsOn,
-      injections: this.workspace.injections,
-      rootVars: this.workspace.rootVars,
+      depends_on: this.workspace.allDependsOn(this.env),
+      injections: this.workspace.injectionsFor(this.env),
+      rootVars: await resolveDeferredReferences(this.workspace.rootVars, resolvers, 'root ig.yaml vars', builtins),
+    }
+  }
+
+  // envs of the workspace, with the paths of `injection_files` passed as env vars added to the process env of this.env
+  private providerEnvs(): Record<string, EnvironmentConfig> {
+    const envFiles = Object.entries(this.workspace.injectionsFor(this.env)).filter(([, x]) => x.file === 'env')
+    if (envFiles.length === 0) {
+      return this.workspace.envs
+    }
+    const envConfig = this.workspace.envs[this.env]
+    const env = { ...envConfig?.env }
+    for (const [name] of envFiles) {
+      env[name] = this.workspace.injectionFilePath(name)
     }
+    return { ...this.workspace.envs, [this.env]: { ...envConfig, env } }
   }
 }
@@ -0,0 +1,57 @@
+import { WorkspaceSelector } from './workspace-selector.js'
+import { Workspace } from './model.js'
+import { createWorkspace, MockProvider } from '../__test-utils__/mock-provider.js'
+
+describe('WorkspaceSelector', () => {
+  const network = createWorkspace('network', [], {}, ['dev'], undefined, {}, ['network', 'core'])
+  const legacyNetwork = createWorkspace('legacy-network', [], {}, ['dev'], undefined, {}, ['network', 'legacy'])
+  const db = createWorkspace('db-main', [], {}, ['dev'], undefined, {}, ['data'])
+
+  function select(...expressions: string[]) {
+    const selector = WorkspaceSelector.parse(expressions)
+    return [network, legacyNetwork, db].filter((ws) => selector.matches(ws)).map((ws) => ws.name)
+  }
+
+  it('should select by tag', () => {
+    expect(select('tag=network')).toEqual(['network', 'legacy-network'])
+  })
+
+  it('should require every term of an expression to match', () => {
+    expect(select('tag=network,!tag=legacy')).toEqual(['network'])
+    expect(select('tag=network,tag=core')).toEqual(['network'])
+  })
+
+  it('should match names with globs', () => {
+    expect(select('name=db-*')).toEqual(['db-main'])
+    expect(select('name=*network')).toEqual(['network', 'legacy-network'])
+    expect(select('name=db-mai?')).toEqual(['db-main'])
+  })
+
+  it('should not treat other characters as patterns', () => {
+    expect(select('name=db.main')).toEqual([])
+  })
+
+  it('should select workspaces matching any of several expressions', () => {
+    expect(select('tag=data', 'name=network')).toEqual(['network', 'db-main'])
+  })
+
+  it('should select by path relative to the monorepo root and by provider', () => {
+    const provider = new MockProvider()
+    provider.getProviderName.mockReturnValue('pulumi')
+    const ws = new Workspace('app', '/repo/apps/app', '/repo', provider, {}, [], { dev: {} })
+
+    expect(WorkspaceSelector.parse(['path=apps/*']).matches(ws)).toBe(true)
+    expect(WorkspaceSelector.parse(['provider=pulumi']).matches(ws)).toBe(true)
+    expect(WorkspaceSelector.parse(['provider=terraform']).matches(ws)).toBe(false)
+  })
+
+  it('should reject malformed terms', () => {
+    expect(() => WorkspaceSelector.parse(['network'])).toThrow('Invalid selector term "network"')
+    expect(() => WorkspaceSelector.parse(['label=x'])).toThrow('key one of: name, tag, path, provider')
+    expect(() => WorkspaceSelector.parse(['tag='])).toThrow('Invalid selector term "tag="')
+  })
+
+  it('should describe itself as command line options', () => {
+    expect(WorkspaceSelector.parse(['tag=a', 'name=b']).toString()).toBe('--select tag=a --select name=b')
+  })
+})
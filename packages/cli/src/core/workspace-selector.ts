@@ -0,0 +1,80 @@
+import { relative } from 'path'
+import type { Workspace } from './model.js'
+import { UserError } from '../utils/index.js'
+
+const SELECTOR_KEYS = ['name', 'tag', 'path', 'provider'] as const
+type SelectorKey = (typeof SELECTOR_KEYS)[number]
+
+interface SelectorTerm {
+  key: SelectorKey
+  pattern: RegExp
+  negated: boolean
+}
+
+/**
+ * Workspaces targeted by `--select`. Each expression is a comma-separated list of
+ * `key=glob` terms that must all match, e.g. `tag=network,!tag=legacy` or `name=db-*`.
+ * A workspace is selected when any of the expressions matches it.
+ */
+export class WorkspaceSelector {
+  private constructor(
+    public readonly expressions: string[],
+    private readonly alternatives: SelectorTerm[][],
+  ) {}
+
+  public static parse(expressions: string[]): WorkspaceSelector {
+    return new WorkspaceSelector(expressions, expressions.map(parseExpression))
+  }
+
+  public matches(workspace: Workspace): boolean {
+    return this.alternatives.some((terms) => terms.every((term) => matchesTerm(workspace, term)))
+  }
+
+  public toString(): string {
+    return this.expressions.map((e) => `--select ${e}`).join(' ')
+  }
+}
+
+function parseExpression(expression: string): SelectorTerm[] {
+  const parts = expression.split(',').map((part) => part.trim())
+  return parts.map((part) => {
+    const negated = part.startsWith('!')
+    const term = negated ? part.slice(1) : part
+    const eq = term.indexOf('=')
+    const key = SELECTOR_KEYS.find((k) => k === term.slice(0, eq).trim())
+    const value = term.slice(eq + 1).trim()
+    if (eq < 0 || !key || !value) {
+      throw new UserError(
+        `Invalid selector term "${part}" in "${expression}". Use <key>=<glob> or !<key>=<glob> with key one of: ${SELECTOR_KEYS.join(', ')}`,
+      )
+    }
+    return { key, pattern: globToRegExp(value), negated }
+  })
+}
+
+function matchesTerm(workspace: Workspace, term: SelectorTerm): boolean {
+  const values = selectorValues(workspace, term.key)
+  const matched = values.some((value) => term.pattern.test(value))
+  return term.negated ? !matched : matched
+}
+
+function selectorValues(workspace: Workspace, key: SelectorKey): string[] {
+  switch (key) {
+    case 'name':
+      return [workspace.name]
+    case 'tag':
+      return workspace.tags
+    case 'path':
+      return [relative(workspace.monorepoPath, workspace.path)]
+    case 'provider':
+      return [workspace.providerName]
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[\\^$.|+()[\]{}]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`)
+}
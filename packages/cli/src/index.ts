@@ -1,14 +1,32 @@
 #!/usr/bin/env node
 
 import { Command, Help } from 'commander'
-import { dirname, join, resolve } from 'path'
+import { dirname, join, relative, resolve } from 'path'
 import { readFile, access } from 'fs/promises'
 import {
   globalConfig,
   EnvManager,
   ExecutionContext,
   tryResolveMonorepo,
+  findRootConfigFile,
   MultistageExecutor,
+  readPlanBundle,
+  WorkspaceSelector,
+  findChangedWorkspaces,
+  readOutputs,
+  formatOutputs,
+  parseOutputFormat,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  buildWorkspaceGraph,
+  formatGraph,
+  parseGraphFormat,
+  GRAPH_FORMATS,
+  type GraphFormat,
+  validateMonorepo,
+  initConfig,
+  removeRunTempFiles,
+  type ValidationIssue,
   type Monorepo,
   type Workspace,
 } from './core/index.js'
@@ -16,9 +34,20 @@ import { fileURLToPath } from 'url'
 import { randomUUID } from 'crypto'
 import { getFormatter } from './formatters/index.js'
 import { getIntegration } from './integrations/index.js'
+import { waitForRunningCommands } from './providers/index.js'
 import { GitLabClient, GitLabPipeline, formatLevelComment } from './integrations/gitlab-integration.js'
-import type { LevelPlanReport } from './core/multistage-executor.js'
-import { logger, UserError, IgError, isDebug, formatUnexpectedError, detectIntegration } from './utils/index.js'
+import { type LevelPlanReport, type ScheduleMode, SCHEDULE_MODES } from './core/multistage-executor.js'
+import {
+  logger,
+  UserError,
+  ConfigError,
+  IgError,
+  isDebug,
+  formatUnexpectedError,
+  detectIntegration,
+  getChangedFilesSince,
+  releaseSecretResolvers,
+} from './utils/index.js'
 import { generateBashCompletion, generateZshCompletion, generateFishCompletion } from './completions.js'
 import { runGitLabCi } from './ci/gitlab-ci-command.js'
 import { installSkill } from './install-skill.js'
@@ -43,6 +72,13 @@ program
   .option('-v, --verbose', 'Show verbose output')
   .option('-q, --quiet', 'Show quiet output')
   .option('--strict', 'Fail on most warnings')
+  .option('--parallelism <n>', 'Maximum number of provider processes running at once', (value: string) => {
+    const n = parseInt(value, 10)
+    if (isNaN(n) || n < 1) {
+      throw new Error(`Invalid parallelism: "${value}". Must be a positive integer.`)
+    }
+    return n
+  })
   .option(
     '-d, --directory <directory>',
     'Root directory of infrastructure monorepo (defaults to current directory)',
@@ -60,13 +96,23 @@ program
     if (thisCommand.opts().strict) {
       globalConfig.strict = true
     }
+    if (thisCommand.opts().parallelism !== undefined) {
+      globalConfig.parallelism = thisCommand.opts().parallelism
+    }
     const disableStateOutputs = process.env['IG_DISABLE_STATE_OUTPUTS']
     if (disableStateOutputs === '1' || disableStateOutputs === 'true') {
       globalConfig.disableStateOutputs = true
     }
     currentDir = resolve(thisCommand.opts().directory)
-    const envName = actionCommand?.opts?.()?.env ?? (await peekStateEnv(currentDir))
-    monorepo = await tryResolveMonorepo(currentDir, envName)
+    // ig validate loads the monorepo itself to report config errors as issues
+    if (actionCommand.name() !== 'validate') {
+      // `ig env select <env>` reads the config for the env it selects
+      const selecting = actionCommand.parent?.name() === 'env' && actionCommand.name() === 'select'
+      const envName = selecting
+        ? actionCommand.args[0]
+        : (actionCommand?.opts?.()?.env ?? (await peekStateEnv(currentDir)))
+      monorepo = await tryResolveMonorepo(currentDir, envName)
+    }
   })
 
 const envCommand = program.command('env')
@@ -92,10 +138,38 @@ interface IApplyOptions {
   approve?: number[] | 'all'
   env: string
   project?: string
+  // false with --no-deps
+  deps: boolean
   startWithProject?: string
   upToLevel?: number
+  schedule?: ScheduleMode
+  resume?: string | true
+  select?: string[]
+  changedSince?: string
 }
 
+function parseScheduleMode(value: string): ScheduleMode {
+  const mode = SCHEDULE_MODES.find((m) => m === value)
+  if (!mode) {
+    throw new Error(`Invalid schedule mode: "${value}". Use one of: ${SCHEDULE_MODES.join(', ')}`)
+  }
+  return mode
+}
+
+const SELECT_DESCRIPTION =
+  'Select workspaces by name, tag, path or provider, e.g. "tag=network,!tag=legacy" or "name=db-*" (repeatable)'
+
+function collectSelect(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
+function workspaceSelector(select?: string[] | undefined): WorkspaceSelector | undefined {
+  return select ? WorkspaceSelector.parse(select) : undefined
+}
+
+const CHANGED_SINCE_DESCRIPTION =
+  'Only workspaces changed since this git ref (merge base with HEAD, plus uncommitted changes) and their dependants'
+
 const execCommands = [
   { name: 'apply', desc: 'Apply the platform configuration', isDestroy: false },
   { name: 'destroy', desc: 'Destroy the platform configuration', isDestroy: true },
@@ -110,6 +184,14 @@ program
   .option('--no-deps', 'Ignore dependencies')
   .option('--detailed', 'Show attribute-level diffs for changed resources')
   .option('--start-with-project <project>', 'Skip levels before this project, use cached outputs')
+  .option('--select <expr>', SELECT_DESCRIPTION, collectSelect)
+  .option('--changed-since <ref>', CHANGED_SINCE_DESCRIPTION)
+  .option(
+    '--schedule <mode>',
+    'Scheduling: "levels" (level by level) or "dag" (as dependencies complete)',
+    parseScheduleMode,
+  )
+  .option('-o, --out <file>', 'Save the plans to a bundle that "ig apply <file>" applies without planning again')
   .action(
     async ({
       format,
@@ -118,6 +200,10 @@ program
       deps,
       detailed,
       startWithProject,
+      schedule,
+      out,
+      select,
+      changedSince,
     }: {
       format?: string
       env: string
@@ -125,6 +211,10 @@ program
       deps: boolean
       detailed?: boolean
       startWithProject?: string
+      schedule?: ScheduleMode
+      out?: string
+      select?: string[]
+      changedSince?: string
     }) => {
       const monorepo = requireMonorepo()
       env = await resolveEnv(env)
@@ -132,11 +222,13 @@ program
       const startWithWorkspace = startWithProject ? monorepo.getWorkspace(startWithProject) : undefined
       const execContext = new ExecutionContext(
         monorepo,
-        currentWorkspace(project),
+        targetWorkspace(project, select, changedSince),
         !deps,
         false,
         env,
         startWithWorkspace,
+        workspaceSelector(select),
+        await changedWorkspacesSince(monorepo, env, changedSince),
       )
 
       let onLevelPlanned: ((data: LevelPlanReport) => Promise<void>) | undefined
@@ -164,14 +256,21 @@ program
         formatter: getFormatter(format),
         detailed: detailed ?? false,
         onLevelPlanned,
+        schedule,
+        out,
       })
       process.exitCode = result.hasChanges ? 2 : 0
     },
   )
 
 for (const execCmd of execCommands) {
-  program
-    .command(execCmd.name)
+  const command = program.command(execCmd.name)
+  if (!execCmd.isDestroy) {
+    command
+      .argument('[bundle]', 'Plan bundle written by "ig plan --out"; applies exactly the saved plans')
+      .option('--changed-since <ref>', CHANGED_SINCE_DESCRIPTION)
+  }
+  command
     .description(execCmd.desc)
     .option('-f, --format <format>', 'Select formatter for the plan', 'default')
     .option('-i, --integration <integration>', 'Integration to use', 'cli')
@@ -196,6 +295,7 @@ for (const execCmd of execCommands) {
     .option('-e, --env <env>', 'environment to apply. If provided, the environment will be selected before applying')
     .option('--no-deps', 'Ignore dependencies')
     .option('--start-with-project <project>', 'Skip levels before this project, use cached outputs')
+    .option('--select <expr>', SELECT_DESCRIPTION, collectSelect)
     .option('-u, --up-to-level <level>', 'Stop execution after this level number (1-indexed)', (value: string) => {
       const n = parseInt(value, 10)
       if (isNaN(n) || n < 1) {
@@ -203,63 +303,125 @@ for (const execCmd of execCommands) {
       }
       return n
     })
-    .action(
-      async ({
-        format,
-        integration,
-        approve,
-        env,
-        project,
-        deps,
-        startWithProject,
-        upToLevel,
-      }: IApplyOptions & { deps: boolean }) => {
-        const monorepo = requireMonorepo()
-
-        // Read IG_ env vars from bridge-triggered pipeline
-        const igAction = process.env['IG_ACTION']
-        const igApprovedLevel = process.env['IG_APPROVED_LEVEL']
-        if (igAction === 'apply' && igApprovedLevel) {
-          const level = parseInt(igApprovedLevel, 10)
-          if (!isNaN(level) && level >= 1) {
-            logger.info(`Bridge trigger detected: IG_ACTION=${igAction} IG_APPROVED_LEVEL=${igApprovedLevel}`)
-            if (approve === undefined) approve = 'all'
-            if (upToLevel === undefined) upToLevel = level
-          }
-        }
+    .option(
+      '--schedule <mode>',
+      'Scheduling: "levels" (level by level) or "dag" (as dependencies complete)',
+      parseScheduleMode,
+    )
+    .option(
+      '--resume [run-id]',
+      'Resume a failed or stopped run, skipping workspaces it completed (default: latest run)',
+    )
+  if (execCmd.isDestroy) {
+    command.action((options: IApplyOptions) => runExecCommand(true, undefined, options))
+  } else {
+    command.action((bundle: string | undefined, options: IApplyOptions) => runExecCommand(false, bundle, options))
+  }
+}
 
-        env = await resolveEnv(env)
-        validateStartWithProject(startWithProject, project, deps)
-        const startWithWorkspace = startWithProject ? monorepo.getWorkspace(startWithProject) : undefined
-
-        const execContext = new ExecutionContext(
-          monorepo,
-          currentWorkspace(project),
-          !deps,
-          execCmd.isDestroy,
-          env,
-          startWithWorkspace,
-        )
-
-        await new MultistageExecutor(execContext).exec({
-          approve: approve,
-          integration: getIntegration(detectIntegration(integration)),
-          formatter: getFormatter(format),
-          preview: false,
-          upToLevel,
-        })
-      },
+// apply and destroy; `bundlePath` is the optional [bundle] argument of apply
+async function runExecCommand(isDestroy: boolean, bundlePath: string | undefined, options: IApplyOptions) {
+  const { format, integration, project, deps, startWithProject, schedule, resume, select, changedSince } = options
+  let { approve, env, upToLevel } = options
+  const monorepo = requireMonorepo()
+
+  // Read IG_ env vars from bridge-triggered pipeline
+  const igAction = process.env['IG_ACTION']
+  const igApprovedLevel = process.env['IG_APPROVED_LEVEL']
+  if (igAction === 'apply' && igApprovedLevel) {
+    const level = parseInt(igApprovedLevel, 10)
+    if (!isNaN(level) && level >= 1) {
+      logger.info(`Bridge trigger detected: IG_ACTION=${igAction} IG_APPROVED_LEVEL=${igApprovedLevel}`)
+      if (approve === undefined) approve = 'all'
+      if (upToLevel === undefined) upToLevel = level
+    }
+  }
+
+  env = await resolveEnv(env)
+
+  if (bundlePath) {
+    // the workspace selection is the one the bundle was planned with
+    if (project || select || changedSince || !deps || startWithProject || resume || schedule === 'dag') {
+      throw new UserError(
+        'A plan bundle cannot be combined with --project, --select, --changed-since, --no-deps, --start-with-project, --resume or --schedule dag.',
+      )
+    }
+    const bundle = await readPlanBundle(bundlePath)
+    const execContext = new ExecutionContext(
+      monorepo,
+      bundle.project ? monorepo.getWorkspace(bundle.project) : undefined,
+      bundle.ignore_dependencies,
+      false,
+      env,
+      undefined,
+      workspaceSelector(bundle.select),
     )
+    await new MultistageExecutor(execContext).applyBundle(bundle, {
+      approve,
+      integration: getIntegration(detectIntegration(integration)),
+      formatter: getFormatter(format),
+      upToLevel,
+    })
+    return
+  }
+
+  validateStartWithProject(startWithProject, project, deps)
+  if (resume && startWithProject) {
+    throw new UserError('--resume and --start-with-project are mutually exclusive.')
+  }
+  const startWithWorkspace = startWithProject ? monorepo.getWorkspace(startWithProject) : undefined
+
+  const execContext = new ExecutionContext(
+    monorepo,
+    targetWorkspace(project, select, changedSince),
+    !deps,
+    isDestroy,
+    env,
+    startWithWorkspace,
+    workspaceSelector(select),
+    await changedWorkspacesSince(monorepo, env, changedSince),
+  )
+
+  await new MultistageExecutor(execContext).exec({
+    approve: approve,
+    integration: getIntegration(detectIntegration(integration)),
+    formatter: getFormatter(format),
+    preview: false,
+    upToLevel,
+    schedule,
+    resume,
+  })
 }
 
 const configCommand = program.command('config')
 
 configCommand
   .command('init')
-  .description('To be implemented. Initialize a new platform configuration for a directory')
-  .action(async () => {
+  .description('Write ig.yaml files for the Terraform and Pulumi projects found in a directory')
+  .option('--envs <envs>', 'Comma-separated environments of the starter envs block', 'dev')
+  .option('-i, --interactive', 'Confirm each suggested injection')
+  .option('--force', 'Overwrite existing ig.yaml files')
+  .addHelpText(
+    'after',
+    `
+Injections are suggested where a Terraform variable is named like an output of another workspace.
+Without --interactive, only suggestions with a single matching output are written.
+
+Examples:
+  $ ig config init
+  $ ig config init --envs dev,staging,prod --interactive`,
+  )
+  .action(async ({ envs, interactive, force }: { envs: string; interactive?: boolean; force?: boolean }) => {
     logger.info(`Initializing platform configuration in: ${currentDir}`)
-    logger.error('Not implemented yet')
+    const integration = getIntegration('cli')
+    const written = await initConfig(currentDir, {
+      envs: envs.split(',').map((x) => x.trim()),
+      force: force ?? false,
+      confirm: interactive && integration.interactive ? integration.askForConfirmation : undefined,
+    })
+    for (const file of written) {
+      logger.info(`Wrote ${relative(currentDir, file)}`)
+    }
   })
 
 configCommand
@@ -286,7 +448,8 @@ configCommand
             name: ws.name,
             path: ws.path,
             provider: ws.providerName,
-            dependencies: ws.allDependsOn,
+            tags: ws.tags,
+            dependencies: ws.allDependsOn(),
           })),
           outputs: monorepo.exports,
           config: monorepo.configFile,
@@ -318,6 +481,8 @@ program
   .option('-p, --project <project>', 'Project to check')
   .option('-e, --env <env>', 'Environment to check')
   .option('--no-deps', 'Ignore dependencies')
+  .option('--select <expr>', SELECT_DESCRIPTION, collectSelect)
+  .option('--changed-since <ref>', CHANGED_SINCE_DESCRIPTION)
   .option('-j, --json', 'Output drift report as JSON')
   .option('--refresh-only', 'Only check infrastructure drift (cloud vs state), skip configuration drift')
   .addHelpText(
@@ -327,6 +492,8 @@ Examples:
   $ ig drift --env staging
   $ ig drift --env production --project postgres
   $ ig drift --env dev --json
+  $ ig drift --env dev --select tag=network
+  $ ig drift --env dev --changed-since origin/main
   $ ig drift --env dev --refresh-only`,
   )
   .action(
@@ -337,6 +504,8 @@ Examples:
       deps,
       json,
       refreshOnly,
+      select,
+      changedSince,
     }: {
       format?: string
       env: string
@@ -344,10 +513,21 @@ Examples:
       deps: boolean
       json?: boolean
       refreshOnly?: boolean
+      select?: string[]
+      changedSince?: string
     }) => {
       const monorepo = requireMonorepo()
       env = await resolveEnv(env)
-      const execContext = new ExecutionContext(monorepo, currentWorkspace(project), !deps, false, env)
+      const execContext = new ExecutionContext(
+        monorepo,
+        targetWorkspace(project, select, changedSince),
+        !deps,
+        false,
+        env,
+        undefined,
+        workspaceSelector(select),
+        await changedWorkspacesSince(monorepo, env, changedSince),
+      )
       const result = await new MultistageExecutor(execContext).drift({
         formatter: getFormatter(format),
         json: json ?? false,
@@ -367,6 +547,7 @@ program
   .option('-p, --project <project>', 'Project to refresh')
   .option('-e, --env <env>', 'Environment to refresh')
   .option('--no-deps', 'Ignore dependencies')
+  .option('--select <expr>', SELECT_DESCRIPTION, collectSelect)
   .addHelpText(
     'after',
     `
@@ -374,11 +555,163 @@ Examples:
   $ ig refresh --env staging
   $ ig refresh --env production --project postgres`,
   )
-  .action(async ({ env, project, deps }: { format?: string; env: string; project?: string; deps: boolean }) => {
+  .action(
+    async ({
+      env,
+      project,
+      deps,
+      select,
+    }: {
+      format?: string
+      env: string
+      project?: string
+      deps: boolean
+      select?: string[]
+    }) => {
+      const monorepo = requireMonorepo()
+      env = await resolveEnv(env)
+      const execContext = new ExecutionContext(
+        monorepo,
+        targetWorkspace(project, select),
+        !deps,
+        false,
+        env,
+        undefined,
+        workspaceSelector(select),
+      )
+      await new MultistageExecutor(execContext).refreshState()
+    },
+  )
+
+program
+  .command('output')
+  .description('Print root outputs, or the outputs of a workspace with --project')
+  .argument('[name]', 'Output to print; its value is printed as is unless --format is given')
+  .option('-p, --project <project>', 'Print the outputs of this project instead of the root outputs')
+  .option('-e, --env <env>', 'Environment to read outputs from')
+  .option('-f, --format <format>', `Output format: ${OUTPUT_FORMATS.join(', ')} (default: json)`, parseOutputFormat)
+  .option('--show-secrets', 'Print secret values instead of [secret]')
+  .option('--fresh', 'Read outputs from the providers instead of the .ig/state.json cache')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ ig output --env dev
+  $ ig output db_host
+  $ ig output --project postgres --format dotenv --show-secrets > .env
+  $ eval "$(ig output --format shell)"
+  $ ig output --format tfvars --fresh > outputs.auto.tfvars`,
+  )
+  .action(
+    async (
+      name: string | undefined,
+      {
+        project,
+        env,
+        format,
+        showSecrets,
+        fresh,
+      }: { project?: string; env?: string; format?: OutputFormat; showSecrets?: boolean; fresh?: boolean },
+    ) => {
+      const monorepo = requireMonorepo()
+      env = await resolveEnv(env)
+      const ws = currentWorkspace(project)
+      const outputs = await readOutputs(monorepo, env, ws, { fresh: fresh ?? false })
+
+      if (name === undefined) {
+        process.stdout.write(formatOutputs(outputs, format ?? 'json', { showSecrets: showSecrets ?? false }) + '\n')
+        return
+      }
+
+      const output = outputs[name]
+      if (output === undefined) {
+        const available = Object.keys(outputs).join(', ') || 'none'
+        throw new UserError(`Output '${name}' not found in ${ws ? ws.name : 'root outputs'}. Available: ${available}`)
+      }
+      if (format) {
+        process.stdout.write(formatOutputs({ [name]: output }, format, { showSecrets: showSecrets ?? false }) + '\n')
+      } else if (output.secret && !showSecrets) {
+        throw new UserError(`Output '${name}' is secret. Pass --show-secrets to print it.`)
+      } else {
+        process.stdout.write(output.value + '\n')
+      }
+    },
+  )
+
+program
+  .command('graph')
+  .description('Print the workspace dependency graph, grouped by execution level')
+  .option('-f, --format <format>', `Graph format: ${GRAPH_FORMATS.join(', ')}`, parseGraphFormat, 'dot')
+  .option('-e, --env <env>', 'Only workspaces that have this environment, with its dependencies')
+  .option('--focus <project>', 'Only this project with its transitive dependencies and dependants')
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ ig graph | dot -Tsvg > graph.svg
+  $ ig graph --format mermaid --env prod
+  $ ig graph --focus postgres --format json`,
+  )
+  .action(({ format, env, focus }: { format: GraphFormat; env?: string; focus?: string }) => {
     const monorepo = requireMonorepo()
-    env = await resolveEnv(env)
-    const execContext = new ExecutionContext(monorepo, currentWorkspace(project), !deps, false, env)
-    await new MultistageExecutor(execContext).refreshState()
+    const graph = buildWorkspaceGraph(monorepo, { env, focus: focus ? monorepo.getWorkspace(focus) : undefined })
+    process.stdout.write(formatGraph(graph, format) + '\n')
+  })
+
+program
+  .command('validate')
+  .description('Check the configuration for errors without running providers')
+  .option('-j, --json', 'Output issues as JSON')
+  .addHelpText(
+    'after',
+    `
+Checks workspace references, dependency cycles, environments along dependencies, duplicate names,
+and injected outputs against the outputs declared in Terraform and Pulumi sources.
+
+Examples:
+  $ ig validate
+  $ ig validate --json`,
+  )
+  .action(async ({ json }: { json?: boolean }) => {
+    let issues: ValidationIssue[]
+    try {
+      monorepo = await tryResolveMonorepo(currentDir, await peekStateEnv(currentDir))
+      issues = await validateMonorepo(requireMonorepo())
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        const file = error.filePath
+          .split(' or ')
+          .map((x) => relative(currentDir, x))
+          .join(' or ')
+        issues = [{ severity: 'error', message: error.reason, file }]
+      } else if (error instanceof UserError) {
+        // e.g. an unset ${VAR} or an unreachable Vault while loading the config
+        const rootConfig = await findRootConfigFile(currentDir)
+        issues = [
+          {
+            severity: 'error',
+            message: error.message,
+            file: rootConfig ? relative(currentDir, rootConfig) : 'ig.yaml',
+          },
+        ]
+      } else {
+        throw error
+      }
+    }
+
+    const errors = issues.filter((x) => x.severity === 'error').length
+    if (json) {
+      process.stdout.write(JSON.stringify({ valid: errors === 0, issues }, null, 2) + '\n')
+    } else {
+      for (const issue of issues) {
+        const location = issue.line ? `${issue.file}:${issue.line}` : issue.file
+        const severity = issue.severity === 'error' ? pc.red('error') : pc.yellow('warning')
+        logger.info(`${location}: ${severity} ${issue.message}`)
+      }
+      const warnings = issues.length - errors
+      logger.info(issues.length === 0 ? 'Configuration is valid' : `${errors} error(s), ${warnings} warning(s)`)
+    }
+    process.exitCode = errors > 0 ? 1 : 0
   })
 
 program
@@ -519,7 +852,10 @@ Examples:
   $ ig ${execCmd.name} --env production --approve all
   $ ig ${execCmd.name} --env production --approve all --up-to-level 2
   $ ig ${execCmd.name} --env dev --project postgres
-  $ ig ${execCmd.name} --env dev --start-with-project postgres --approve all`,
+  $ ig ${execCmd.name} --env dev --start-with-project postgres --approve all
+  $ ig ${execCmd.name} --env dev --select 'tag=network,!tag=legacy'
+  $ ig ${execCmd.name} --env production --schedule dag
+  $ ig ${execCmd.name} --env production --resume${execCmd.isDestroy ? '' : '\n  $ ig apply --env production plan.igplan\n  $ ig apply --env dev --changed-since origin/main'}`,
   )
 }
 
@@ -593,6 +929,45 @@ function currentWorkspace(project?: string | undefined): Workspace | undefined {
   return undefined
 }
 
+// --select and --changed-since target the whole monorepo, not the workspace of the current directory
+function targetWorkspace(
+  project: string | undefined,
+  select: string[] | undefined,
+  changedSince?: string | undefined,
+): Workspace | undefined {
+  if (select && changedSince) {
+    throw new UserError('--select and --changed-since are mutually exclusive.')
+  }
+  if (!select && !changedSince) {
+    return currentWorkspace(project)
+  }
+  if (project) {
+    throw new UserError(`${select ? '--select' : '--changed-since'} and --project are mutually exclusive.`)
+  }
+  return undefined
+}
+
+async function changedWorkspacesSince(
+  monorepo: Monorepo,
+  env: string,
+  ref: string | undefined,
+): Promise<Workspace[] | undefined> {
+  if (!ref) {
+    return undefined
+  }
+  const changed = findChangedWorkspaces(monorepo, env, await getChangedFilesSince(monorepo.path, ref))
+  if (changed === 'all') {
+    logger.info(`Root ig.yaml or .ig/.env files changed since ${ref}, selecting all workspaces`)
+    return undefined
+  }
+  logger.info(
+    changed.length > 0
+      ? `Changed since ${ref}: ${changed.map((ws) => ws.name).join(', ')}`
+      : `No workspaces changed since ${ref}`,
+  )
+  return changed
+}
+
 function validateStartWithProject(startWithProject?: string, project?: string, deps?: boolean) {
   if (!startWithProject) return
   if (project) {
@@ -620,7 +995,8 @@ function displayPlatformInfo(monorepo: Monorepo) {
   if (monorepo.workspaces.length > 0) {
     logger.info(`\n${pc.bold(`Workspaces (${monorepo.workspaces.length})`)}:`)
     monorepo.workspaces.forEach((workspace) => {
-      logger.info(`  • ${pc.cyan(workspace.name)} ${pc.dim(`(${workspace.providerName})`)}`)
+      const tags = workspace.tags.length > 0 ? ` ${pc.dim(`[${workspace.tags.join(', ')}]`)}` : ''
+      logger.info(`  • ${pc.cyan(workspace.name)} ${pc.dim(`(${workspace.providerName})`)}${tags}`)
     })
   } else {
     logger.info('\nNo workspaces found')
@@ -643,14 +1019,30 @@ if (process.env['__DEV_CWD']) {
   process.chdir(process.env['__DEV_CWD'])
 }
 
+// Revokes dynamic secret leases and removes the injected files of the run.
+// Called once the run ends, whether it succeeded, failed or was interrupted.
+async function endRun(): Promise<void> {
+  try {
+    await releaseSecretResolvers()
+  } finally {
+    await removeRunTempFiles()
+  }
+}
+
+// how long an interrupted run waits for Terraform and Pulumi to stop before revoking leases
+const INTERRUPT_GRACE_MS = 10_000
+
 process.on('SIGINT', () => {
-  process.exit(130)
+  // the providers got the SIGINT as well and may still use the secrets while they shut down
+  void waitForRunningCommands(INTERRUPT_GRACE_MS)
+    .then(endRun)
+    .finally(() => process.exit(130))
 })
 
 process.on('uncaughtException', (err) => {
   handleError(err)
-  // uncaughtException: unsafe to continue, force exit
-  process.exit(process.exitCode ?? 1)
+  // uncaughtException: unsafe to continue, exit once the run is cleaned up
+  void endRun().finally(() => process.exit(process.exitCode ?? 1))
 })
 
 process.on('unhandledRejection', (err) => {
@@ -684,7 +1076,10 @@ getPackageJsonVersion()
   })
   .catch(() => {})
 
-await program.parseAsync().catch((err: unknown) => {
-  if (err instanceof Error) handleError(err)
-  else process.exitCode = 1
-})
+await program
+  .parseAsync()
+  .catch((err: unknown) => {
+    if (err instanceof Error) handleError(err)
+    else process.exitCode = 1
+  })
+  .finally(endRun)
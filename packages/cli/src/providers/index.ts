@@ -10,6 +10,7 @@ export * from './provider-plan.js'
 export * from './provider-events.js'
 export * from './stream-parser.js'
 export * from './spawn-command.js'
+export * from './source-declarations.js'
 
 export const providers = [pulumiProvider, terraformProvider]
 
@@ -1,14 +1,31 @@
 import type { ProviderPlan } from './provider-plan.js'
 import type { ProviderEvent } from './provider-events.js'
+import type { SourceDeclarations } from './source-declarations.js'
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
 
 export interface OutputValue {
+  // strings as is, any other value as JSON
   value: string
   secret: boolean
+  // the original value of non-string outputs: numbers, bools, null, lists and maps
+  json?: JsonValue | undefined
 }
 
 export type ProviderOutput = Record<string, OutputValue>
 export type ProviderInput = Record<string, OutputValue>
 
+export function toOutputValue(value: unknown, secret: boolean): OutputValue {
+  return typeof value === 'string'
+    ? { value, secret }
+    : { value: JSON.stringify(value), secret, json: value as JsonValue }
+}
+
+// The value with its original type; strings and outputs read before values were typed stay strings
+export function jsonValueOf(output: OutputValue): JsonValue {
+  return output.json !== undefined ? output.json : output.value
+}
+
 export interface PlatformInjection {
   workspace: string | null
   key: string
@@ -33,6 +50,8 @@ export interface EnvironmentConfig {
   backend_config?: Record<string, string>
   var_files?: string[]
   vars?: Record<string, string>
+  // process environment of every provider command, on top of ig's own
+  env?: Record<string, string>
 }
 
 export interface IProvider {
@@ -50,6 +69,8 @@ export interface IProvider {
     options?: { onEvent?: (event: ProviderEvent) => void; planFile?: string },
   ): Promise<ProviderOutput>
   getOutputs(configuration: ProviderConfig, env: string): Promise<ProviderOutput>
+  // outputs of `env` read apart from the environment the workspace is initialized for, for cross-env references
+  getEnvOutputs(configuration: ProviderConfig, env: string): Promise<ProviderOutput>
 
   destroyPlan(
     configuration: ProviderConfig,
@@ -68,6 +89,8 @@ export interface IProvider {
   selectEnvironment(configuration: ProviderConfig, env: string): Promise<void>
 
   existsInFolder(folderPath: string): Promise<boolean>
+  // variables and outputs declared in the workspace source, for `ig validate`; never runs the provider
+  readDeclarations(folderPath: string): Promise<SourceDeclarations>
 
   getDriftPlan(configuration: ProviderConfig, input: ProviderInput, env: string): Promise<ProviderPlan>
   refresh(configuration: ProviderConfig, input: ProviderInput, env: string): Promise<void>
@@ -152,6 +152,49 @@ describe('PulumiProvider.setPulumiConfig (via getPlan)', () => {
     )
   })
 
+  it('should set structured values leaf by leaf with --path', async () => {
+    const subnets = [{ id: 'subnet-1' }, { id: 'subnet-2' }]
+    const input: ProviderInput = {
+      subnets: { value: JSON.stringify(subnets), secret: false, json: subnets },
+      'app.name': { value: 'my-app', secret: false },
+      tags: {
+        value: '{"team-name":"infra","cost.center":"42"}',
+        secret: true,
+        json: { 'team-name': 'infra', 'cost.center': '42' },
+      },
+    }
+
+    try {
+      await pulumiProvider.getPlan(makeConfig(), input, 'dev')
+    } catch {
+      // ignore parse error
+    }
+
+    expect(execFile).toHaveBeenCalledWith(
+      'pulumi',
+      ['config', 'rm-all', 'subnets', 'tags'],
+      expect.any(Object),
+      expect.any(Function),
+    )
+    expect(getSetAllArgs()).toEqual([
+      [
+        'config',
+        'set-all',
+        '--path',
+        '--plaintext',
+        'subnets[0].id=subnet-1',
+        '--plaintext',
+        'subnets[1].id=subnet-2',
+        '--plaintext',
+        '["app.name"]=my-app',
+        '--secret',
+        'tags.team-name=infra',
+        '--secret',
+        'tags["cost.center"]=42',
+      ],
+    ])
+  })
+
   it('should skip execFile call when there are no vars to set', async () => {
     try {
       await pulumiProvider.getPlan(makeConfig(), {}, 'dev')
@@ -192,3 +235,31 @@ describe('PulumiProvider.setPulumiConfig (via getPlan)', () => {
     expect(args).not.toContain('shared=env-val')
   })
 })
+
+describe('PulumiProvider process environment', () => {
+  it('should pass envs.<env>.env over backend_config to pulumi commands', async () => {
+    vi.mocked(execFile).mockClear()
+    const config = makeConfig({
+      envs: {
+        dev: {
+          backend_config: { PULUMI_BACKEND_URL: 's3://state', AWS_PROFILE: 'backend' },
+          env: { AWS_PROFILE: 'dev', ARM_SUBSCRIPTION_ID: 'sub-1' },
+        },
+      },
+    })
+
+    try {
+      await pulumiProvider.getPlan(config, { key: { value: 'v', secret: false } }, 'dev')
+    } catch {
+      // ignore parse error
+    }
+
+    const options = vi.mocked(execFile).mock.calls[0][2] as { env: NodeJS.ProcessEnv }
+    expect(options.env).toMatchObject({
+      PULUMI_BACKEND_URL: 's3://state',
+      AWS_PROFILE: 'dev',
+      ARM_SUBSCRIPTION_ID: 'sub-1',
+    })
+    expect(options.env['PATH']).toBe(process.env['PATH'])
+  })
+})
@@ -1,24 +1,40 @@
 import { exec, execFile, spawn } from 'child_process'
 import { promisify } from 'util'
-import { basename, join, resolve } from 'path'
+import { basename, extname, join, resolve } from 'path'
 import { homedir } from 'os'
 import { access, constants as fsConstants } from 'fs'
-import type { ProviderConfig, ProviderInput, ProviderOutput, OutputValue } from './provider.js'
+import type { ProviderConfig, ProviderInput, ProviderOutput, OutputValue, JsonValue } from './provider.js'
+import { jsonValueOf, toOutputValue } from './provider.js'
 import type { ProviderPlan, ResourceChange, Output, Diagnostic, ChangeSummary, ChangeAction } from './provider-plan.js'
 import type { ProviderEvent } from './provider-events.js'
 import type { IProvider } from './provider.js'
 import type { ExecOptions } from 'node:child_process'
 import { logger, UserError, ProviderError, formatProviderErrorMessage } from '../utils/index.js'
-import { mkdir } from 'fs/promises'
+import { mkdir, readFile } from 'fs/promises'
+import { parse as parseYaml } from 'yaml'
 import { extractPulumiDiagnostics } from './diagnostic-extraction.js'
 import { spawnWithLineStream } from './spawn-command.js'
 import { parsePulumiStreamLine } from './stream-parser.js'
+import { parsePulumiExports, UNKNOWN_DECLARATIONS, type SourceDeclarations } from './source-declarations.js'
 
 const execAsync = promisify(exec)
 const execFileAsync = promisify(execFile)
 const spawnAsync = promisify(spawn)
 const accessAsync = promisify(access)
 
+// entry files of a program by runtime, looked up in `main` or the project folder
+const PULUMI_ENTRY_FILES: Record<string, string[]> = {
+  nodejs: ['index.ts', 'index.js'],
+  python: ['__main__.py'],
+  go: ['main.go'],
+}
+
+interface PulumiProject {
+  runtime?: string | { name?: string }
+  main?: string
+  outputs?: Record<string, unknown>
+}
+
 class PulumiProvider implements IProvider {
   getProviderName(): string {
     return 'pulumi'
@@ -58,6 +74,11 @@ class PulumiProvider implements IProvider {
     return this.getOutputsWithSecretDetection(configuration, env)
   }
 
+  // --stack reads the stack without selecting it
+  async getEnvOutputs(configuration: ProviderConfig, env: string): Promise<ProviderOutput> {
+    return this.getOutputsWithSecretDetection(configuration, env)
+  }
+
   async destroyPlan(
     configuration: ProviderConfig,
     input: ProviderInput,
@@ -117,6 +138,25 @@ class PulumiProvider implements IProvider {
     }
   }
 
+  async readDeclarations(folderPath: string): Promise<SourceDeclarations> {
+    const project = parseYaml(await readFile(join(folderPath, 'Pulumi.yaml'), 'utf-8')) as PulumiProject | null
+    const runtime = typeof project?.runtime === 'string' ? project.runtime : project?.runtime?.name
+    if (runtime === 'yaml') {
+      return { inputs: undefined, outputs: Object.keys(project?.outputs ?? {}) }
+    }
+
+    const main = resolve(folderPath, project?.main ?? '.')
+    const entryFiles = extname(main) ? [main] : (PULUMI_ENTRY_FILES[runtime ?? ''] ?? []).map((x) => join(main, x))
+    for (const file of entryFiles) {
+      try {
+        return { inputs: undefined, outputs: parsePulumiExports(runtime!, await readFile(file, 'utf-8')) }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      }
+    }
+    return UNKNOWN_DECLARATIONS
+  }
+
   private mapPulumiOutputToProviderPlan(pulumiOutput: string, projectName: string): ProviderPlan {
     return parsePulumiPreviewOutput(pulumiOutput, projectName)
   }
@@ -163,7 +203,7 @@ class PulumiProvider implements IProvider {
 
   private async getOutputsWithSecretDetection(configuration: ProviderConfig, env: string): Promise<ProviderOutput> {
     // First call without --show-secrets to detect which keys are secret
-    const publicStdout = await this.execCommand(`pulumi stack output --json`, configuration, env)
+    const publicStdout = await this.execCommand(`pulumi stack output --json --stack ${env}`, configuration, env)
     const publicOutputs = JSON.parse(publicStdout) as Record<string, unknown>
     const secretKeys = new Set<string>()
     for (const [key, value] of Object.entries(publicOutputs)) {
@@ -173,17 +213,15 @@ class PulumiProvider implements IProvider {
     }
 
     // Second call with --show-secrets to get actual values
-    const secretStdout = await this.execCommand(`pulumi stack output --json --show-secrets`, configuration, env)
+    const secretStdout = await this.execCommand(
+      `pulumi stack output --json --show-secrets --stack ${env}`,
+      configuration,
+      env,
+    )
     const fullOutputs = JSON.parse(secretStdout) as Record<string, unknown>
 
     return Object.fromEntries(
-      Object.entries(fullOutputs).map(([key, value]) => [
-        key,
-        {
-          value: typeof value === 'string' ? value : JSON.stringify(value),
-          secret: secretKeys.has(key),
-        } satisfies OutputValue,
-      ]),
+      Object.entries(fullOutputs).map(([key, value]) => [key, toOutputValue(value, secretKeys.has(key))]),
     )
   }
 
@@ -198,24 +236,39 @@ class PulumiProvider implements IProvider {
     const entries = Object.entries(allVars)
     if (entries.length === 0) return
 
+    // Structured values are set leaf by leaf with --path, so a list arrives as a list in the stack config.
+    // Their previous values are removed first, otherwise leftover items of a longer list would remain.
+    const structuredKeys = entries.filter(([, outputValue]) => isStructured(outputValue)).map(([key]) => key)
+    if (structuredKeys.length > 0) {
+      await this.execFileCommand('pulumi', ['config', 'rm-all', ...structuredKeys], configuration, env)
+    }
+
     // Use `pulumi config set-all` to set all values in a single process invocation
     // instead of spawning a separate process per key.
-    const args = ['config', 'set-all']
+    const args = structuredKeys.length > 0 ? ['config', 'set-all', '--path'] : ['config', 'set-all']
     for (const [key, outputValue] of entries) {
-      args.push(outputValue.secret ? '--secret' : '--plaintext', `${key}=${outputValue.value}`)
+      const flag = outputValue.secret ? '--secret' : '--plaintext'
+      if (structuredKeys.length === 0) {
+        args.push(flag, `${key}=${outputValue.value}`)
+        continue
+      }
+      for (const [path, value] of configPathEntries(quoteConfigKey(key), jsonValueOf(outputValue))) {
+        args.push(flag, `${path}=${value}`)
+      }
     }
     await this.execFileCommand('pulumi', args, configuration, env)
   }
 
   private getDefaultExecOptions(configuration: ProviderConfig, env: string): ExecOptions {
-    const backendConfig = configuration.envs?.[env]?.backend_config
+    const { backend_config: backendConfig, env: envVars } = configuration.envs?.[env] ?? {}
     const options: ExecOptions = {
       cwd: configuration.rootPath,
     }
-    if (backendConfig) {
+    if (backendConfig || envVars) {
       options.env = {
         ...process.env,
         ...backendConfig,
+        ...envVars,
       }
     }
     return options
@@ -378,6 +431,28 @@ function toNonSecretInput(vars: Record<string, string>): ProviderInput {
   return Object.fromEntries(Object.entries(vars).map(([k, v]) => [k, { value: v, secret: false }]))
 }
 
+function isStructured(outputValue: OutputValue): boolean {
+  return typeof outputValue.json === 'object' && outputValue.json !== null
+}
+
+// With --path, dots and brackets in a key would be read as a path into the value
+function quoteConfigKey(key: string): string {
+  return /[.[\]]/.test(key) ? `[${JSON.stringify(key)}]` : key
+}
+
+// `path=value` pairs for every leaf of a value; empty lists and maps have no leaves and are set as JSON
+function configPathEntries(path: string, value: JsonValue): [string, string][] {
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap((item, i) => configPathEntries(`${path}[${i}]`, item))
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      configPathEntries(/^[A-Za-z_][\w-]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`, item),
+    )
+  }
+  return [[path, typeof value === 'string' ? value : JSON.stringify(value)]]
+}
+
 export function resolveFileBackendPath(rootPath: string, backendUrl: string): string {
   let localPath = backendUrl.substring('file://'.length)
   if (localPath === '~' || localPath.startsWith('~/')) {
@@ -0,0 +1,44 @@
+import { parsePulumiExports, parseTerraformDeclarations } from './source-declarations.js'
+
+describe('parseTerraformDeclarations', () => {
+  it('should read variable and output blocks, skipping comments', () => {
+    const declarations = parseTerraformDeclarations([
+      'variable "region" {\n  type = string\n}\n# variable "old" {}\n/* output "legacy" {} */',
+      'output "vpc_id" {\n  value = aws_vpc.main.id\n}\n  output "subnets" { value = [] }\n',
+    ])
+    expect(declarations).toEqual({ inputs: ['region'], outputs: ['vpc_id', 'subnets'] })
+  })
+})
+
+describe('parsePulumiExports', () => {
+  it('should read named exports of a Node.js program', () => {
+    const source = [
+      'export const networkName = network.name',
+      'export let port = 5432',
+      'const host = "db"',
+      'export { host, secret as password }',
+    ].join('\n')
+    expect(parsePulumiExports('nodejs', source)).toEqual(['networkName', 'port', 'host', 'password'])
+  })
+
+  it('should give up on Node.js programs returning their outputs', () => {
+    expect(parsePulumiExports('nodejs', 'export = async () => ({ url })')).toBeUndefined()
+    expect(parsePulumiExports('nodejs', 'export default async () => ({ url })')).toBeUndefined()
+  })
+
+  it('should read pulumi.export calls of a Python program', () => {
+    expect(parsePulumiExports('python', 'pulumi.export(\'url\', url)\npulumi.export("port", 80)')).toEqual([
+      'url',
+      'port',
+    ])
+    expect(parsePulumiExports('python', "pulumi.export('url', url)\npulumi.export(name, value)")).toBeUndefined()
+  })
+
+  it('should read ctx.Export calls of a Go program', () => {
+    expect(parsePulumiExports('go', 'ctx.Export("url", url)')).toEqual(['url'])
+  })
+
+  it('should not guess for other runtimes', () => {
+    expect(parsePulumiExports('dotnet', '')).toBeUndefined()
+  })
+})
@@ -0,0 +1,63 @@
+// Inputs and outputs a workspace declares in its source, read without running the provider.
+// A list is undefined when it cannot be read statically, e.g. a Pulumi program exporting a function
+export interface SourceDeclarations {
+  inputs: string[] | undefined
+  outputs: string[] | undefined
+}
+
+export const UNKNOWN_DECLARATIONS: SourceDeclarations = { inputs: undefined, outputs: undefined }
+
+// `variable "name" {` and `output "name" {` blocks of the .tf files of a module
+export function parseTerraformDeclarations(sources: string[]): SourceDeclarations {
+  const inputs: string[] = []
+  const outputs: string[] = []
+  for (const source of sources) {
+    const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*(#|\/\/).*$/gm, '')
+    for (const [, kind, name] of code.matchAll(/^\s*(variable|output)\s+"([^"]+)"/gm)) {
+      if (kind === 'variable') {
+        inputs.push(name)
+      } else {
+        outputs.push(name)
+      }
+    }
+  }
+  return { inputs, outputs }
+}
+
+// Stack exports of a Pulumi program's entry file
+export function parsePulumiExports(runtime: string, source: string): string[] | undefined {
+  switch (runtime) {
+    case 'nodejs':
+      return parseNodeExports(source)
+    case 'python':
+      return parseCallExports(source, /\bpulumi\.export\(/g, /\bpulumi\.export\(\s*(['"])([^'"]+)\1/g)
+    case 'go':
+      return parseCallExports(source, /\bctx\.Export\(/g, /\bctx\.Export\(\s*(")([^"]+)"/g)
+    default:
+      return undefined
+  }
+}
+
+function parseNodeExports(source: string): string[] | undefined {
+  // `export = async () => ({ ... })` and default exports return their outputs at runtime
+  if (/^export\s+(=|default\b|\*)/m.test(source)) {
+    return undefined
+  }
+  const names = [...source.matchAll(/^export\s+(?:const|let|var)\s+(\w+)/gm)].map((x) => x[1])
+  for (const [, list] of source.matchAll(/^export\s*\{([^}]*)\}/gm)) {
+    for (const item of list.split(',')) {
+      const name = item
+        .trim()
+        .split(/\s+as\s+/)
+        .pop()
+      if (name) names.push(name)
+    }
+  }
+  return names
+}
+
+// every export call must name its output with a literal, otherwise the list is incomplete
+function parseCallExports(source: string, call: RegExp, literal: RegExp): string[] | undefined {
+  const names = [...source.matchAll(literal)].map((x) => x[2])
+  return names.length === [...source.matchAll(call)].length ? names : undefined
+}
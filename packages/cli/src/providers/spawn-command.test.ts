@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { spawnWithLineStream } from './spawn-command.js'
+import { spawnWithLineStream, waitForRunningCommands } from './spawn-command.js'
 
 describe('spawnWithLineStream', () => {
   it('captures stdout lines via callback', async () => {
@@ -57,3 +57,24 @@ describe('spawnWithLineStream', () => {
     expect(callOrder).toEqual([0, 1, 2])
   })
 })
+
+describe('waitForRunningCommands', () => {
+  it('waits for running commands to exit', async () => {
+    let exited = false
+    void spawnWithLineStream('sleep 0.2', { cwd: '/tmp', onStdoutLine: () => {} }).then(() => (exited = true))
+
+    await waitForRunningCommands(5000)
+
+    expect(exited).toBe(true)
+  })
+
+  it('stops waiting after the timeout', async () => {
+    const command = spawnWithLineStream('sleep 1', { cwd: '/tmp', onStdoutLine: () => {} })
+    const start = Date.now()
+
+    await waitForRunningCommands(50)
+
+    expect(Date.now() - start).toBeLessThan(900)
+    await command
+  })
+})
@@ -13,7 +13,30 @@ export interface SpawnStreamResult {
   stdout: string
 }
 
+// commands that have not exited yet, so an interrupted run can wait for them before cleaning up
+const runningCommands = new Set<Promise<unknown>>()
+
 export function spawnWithLineStream(command: string, options: SpawnStreamOptions): Promise<SpawnStreamResult> {
+  const result = runCommand(command, options)
+  const exited: Promise<unknown> = result.catch(() => {}).finally(() => runningCommands.delete(exited))
+  runningCommands.add(exited)
+  return result
+}
+
+/**
+ * Waits until the commands started by spawnWithLineStream have exited, or at most `timeoutMs`.
+ */
+export async function waitForRunningCommands(timeoutMs: number): Promise<void> {
+  if (runningCommands.size === 0) return
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeoutMs)
+  })
+  await Promise.race([Promise.all(runningCommands), timeout])
+  clearTimeout(timer)
+}
+
+function runCommand(command: string, options: SpawnStreamOptions): Promise<SpawnStreamResult> {
   return new Promise((resolve, reject) => {
     const child = spawn(command, [], {
       shell: true,
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ProviderConfig } from './provider.js'
+
+vi.mock('child_process', () => ({
+  exec: vi.fn((_cmd: string, cb: (err: null, result: { stdout: string; stderr: string }) => void) => {
+    cb(null, { stdout: '', stderr: '' })
+  }),
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}))
+
+const { exec } = await import('child_process')
+const { terraformProvider } = await import('./terraform-provider.js')
+
+function makeConfig(overrides?: Partial<ProviderConfig>): ProviderConfig {
+  return {
+    rootMonoRepoFolder: '/tmp/mono',
+    rootPath: '/tmp/mono/vpc',
+    provider: 'terraform',
+    injections: {},
+    envs: { dev: { backend_type: 's3' }, prod: {} },
+    alias: 'vpc',
+    ...overrides,
+  }
+}
+
+describe('TerraformProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getEnvOutputs', () => {
+    it('should refuse an env without a backend of its own', async () => {
+      await expect(terraformProvider.getEnvOutputs(makeConfig(), 'prod')).rejects.toThrow(
+        "Cannot read outputs of vpc in environment 'prod': it has no backend_file or backend_type",
+      )
+      expect(exec).not.toHaveBeenCalled()
+    })
+  })
+})
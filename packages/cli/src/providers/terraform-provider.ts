@@ -1,9 +1,10 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { basename, extname, join, resolve } from 'path'
-import { readdir, readFile, copyFile, rm, access, constants, writeFile } from 'fs/promises'
+import { readdir, readFile, copyFile, rm, access, constants, writeFile, mkdir } from 'fs/promises'
 import type { IProvider, ProviderConfig } from './provider.js'
-import type { ProviderInput, ProviderOutput, OutputValue } from './provider.js'
+import type { ProviderInput, ProviderOutput } from './provider.js'
+import { jsonValueOf, toOutputValue } from './provider.js'
 import type { ProviderPlan, ResourceChange, Output, Diagnostic } from './provider-plan.js'
 import type { ProviderEvent } from './provider-events.js'
 import { logger, UserError, ProviderError, formatProviderErrorMessage } from '../utils/index.js'
@@ -12,6 +13,7 @@ import { spawn } from 'node:child_process'
 import { extractTerraformDiagnostics } from './diagnostic-extraction.js'
 import { spawnWithLineStream } from './spawn-command.js'
 import { parseTerraformStreamLine } from './stream-parser.js'
+import { parseTerraformDeclarations, type SourceDeclarations } from './source-declarations.js'
 
 const execAsync = promisify(exec)
 const spawnAsync = promisify(spawn)
@@ -37,10 +39,11 @@ class TerraformProvider implements IProvider {
       const stdout = await this.execCommand(
         `terraform plan ${refreshFlag}-out=${planFile} --json ${variables}`,
         configuration,
+        environment,
       )
       const plan = this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath))
 
-      const showOutput = await this.execCommand(`terraform show -json ${planFile}`, configuration)
+      const showOutput = await this.execCommand(`terraform show -json ${planFile}`, configuration, environment)
 
       if (!options.savePlanFile) {
         await rm(join(configuration.rootPath, planFile)).catch(() => {})
@@ -56,12 +59,17 @@ class TerraformProvider implements IProvider {
       const stdout = await this.execCommand(
         `terraform plan ${refreshFlag}-out=${planFile} --json ${variables}`,
         configuration,
+        environment,
       )
 
       return { ...this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath)), planFile }
     }
 
-    const stdout = await this.execCommand(`terraform plan ${refreshFlag}--json ${variables}`, configuration)
+    const stdout = await this.execCommand(
+      `terraform plan ${refreshFlag}--json ${variables}`,
+      configuration,
+      environment,
+    )
 
     return this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath))
   }
@@ -75,9 +83,14 @@ class TerraformProvider implements IProvider {
     if (options?.planFile) {
       const planFilePath = options.planFile
       if (options.onEvent) {
-        await this.execCommandStreaming(`terraform apply --json ${planFilePath}`, configuration, options.onEvent)
+        await this.execCommandStreaming(
+          `terraform apply --json ${planFilePath}`,
+          configuration,
+          environment,
+          options.onEvent,
+        )
       } else {
-        await this.execCommand(`terraform apply --json ${planFilePath}`, configuration)
+        await this.execCommand(`terraform apply --json ${planFilePath}`, configuration, environment)
       }
       await rm(join(configuration.rootPath, planFilePath)).catch(() => {})
     } else {
@@ -86,20 +99,44 @@ class TerraformProvider implements IProvider {
         await this.execCommandStreaming(
           `terraform apply --auto-approve --json ${variables}`,
           configuration,
+          environment,
           options.onEvent,
         )
       } else {
-        await this.execCommand(`terraform apply --auto-approve --json ${variables}`, configuration)
+        await this.execCommand(`terraform apply --auto-approve --json ${variables}`, configuration, environment)
       }
     }
 
-    const stdout = await this.execCommand(`terraform output --json`, configuration)
+    const stdout = await this.execCommand(`terraform output --json`, configuration, environment)
 
     return parseTerraformOutputJson(stdout)
   }
 
-  async getOutputs(configuration: ProviderConfig): Promise<ProviderOutput> {
-    const stdout = await this.execCommand(`terraform output --json`, configuration)
+  async getOutputs(configuration: ProviderConfig, environment: string): Promise<ProviderOutput> {
+    const stdout = await this.execCommand(`terraform output --json`, configuration, environment)
+
+    return parseTerraformOutputJson(stdout)
+  }
+
+  // initializes a folder of its own holding only the backend of `environment`, so the workspace folder keeps its init
+  async getEnvOutputs(configuration: ProviderConfig, environment: string): Promise<ProviderOutput> {
+    // the local state of the workspace folder belongs to whichever env was applied there last
+    const envConfig = configuration.envs?.[environment]
+    if (!envConfig?.backend_file && !envConfig?.backend_type) {
+      throw new UserError(
+        `Cannot read outputs of ${configuration.alias} in environment '${environment}': it has no backend_file or backend_type, so its state is not kept apart from other environments`,
+      )
+    }
+    await this.checkTerraformInstallation()
+
+    const stateManager = new StateManager(configuration.rootMonoRepoFolder)
+    const envConfiguration: ProviderConfig = {
+      ...configuration,
+      rootPath: stateManager.workspaceTempFilePath(configuration.rootPath, `env-${environment}`),
+    }
+    await mkdir(envConfiguration.rootPath, { recursive: true })
+    await this.initializeTerraform(envConfiguration, environment, configuration.rootPath)
+    const stdout = await this.execCommand(`terraform output --json`, envConfiguration, environment)
 
     return parseTerraformOutputJson(stdout)
   }
@@ -119,12 +156,13 @@ class TerraformProvider implements IProvider {
       const stdout = await this.execCommand(
         `terraform plan -destroy -out=${planFile} --json ${variables}`,
         configuration,
+        environment,
       )
 
       return { ...this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath)), planFile }
     }
 
-    const stdout = await this.execCommand(`terraform plan -destroy --json ${variables}`, configuration)
+    const stdout = await this.execCommand(`terraform plan -destroy --json ${variables}`, configuration, environment)
 
     return this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath))
   }
@@ -138,9 +176,14 @@ class TerraformProvider implements IProvider {
     if (options?.planFile) {
       const planFilePath = options.planFile
       if (options.onEvent) {
-        await this.execCommandStreaming(`terraform apply --json ${planFilePath}`, configuration, options.onEvent)
+        await this.execCommandStreaming(
+          `terraform apply --json ${planFilePath}`,
+          configuration,
+          environment,
+          options.onEvent,
+        )
       } else {
-        await this.execCommand(`terraform apply --json ${planFilePath}`, configuration)
+        await this.execCommand(`terraform apply --json ${planFilePath}`, configuration, environment)
       }
       await rm(join(configuration.rootPath, planFilePath)).catch(() => {})
     } else {
@@ -149,16 +192,17 @@ class TerraformProvider implements IProvider {
         await this.execCommandStreaming(
           `terraform destroy --auto-approve --json ${variables}`,
           configuration,
+          environment,
           options.onEvent,
         )
       } else {
-        await this.execCommand(`terraform destroy --auto-approve ${variables}`, configuration)
+        await this.execCommand(`terraform destroy --auto-approve ${variables}`, configuration, environment)
       }
     }
   }
 
-  async isDestroyed(configuration: ProviderConfig): Promise<boolean> {
-    const stdout = await this.execCommand(`terraform state list`, configuration)
+  async isDestroyed(configuration: ProviderConfig, environment: string): Promise<boolean> {
+    const stdout = await this.execCommand(`terraform state list`, configuration, environment)
     return stdout.trim() === ''
   }
 
@@ -177,6 +221,17 @@ class TerraformProvider implements IProvider {
     }
   }
 
+  async readDeclarations(folderPath: string): Promise<SourceDeclarations> {
+    const files = (await readdir(folderPath)).filter((file) => extname(file).toLowerCase() === '.tf')
+    return parseTerraformDeclarations(await Promise.all(files.map((file) => readFile(join(folderPath, file), 'utf-8'))))
+  }
+
+  // ig's environment with `envs.<env>.env` on top, or undefined to inherit it unchanged
+  private processEnv(configuration: ProviderConfig, environment: string): NodeJS.ProcessEnv | undefined {
+    const envVars = configuration.envs?.[environment]?.env
+    return envVars ? { ...process.env, ...envVars } : undefined
+  }
+
   private mapTerraformOutputToProviderPlan(terraformOutput: string, projectName: string): ProviderPlan {
     return parseTerraformPlanOutput(terraformOutput, projectName)
   }
@@ -202,7 +257,12 @@ class TerraformProvider implements IProvider {
       .join(' ')
   }
 
-  private async initializeTerraform(configuration: ProviderConfig, environment: string): Promise<void> {
+  // `sourcePath` is the workspace folder when initializing another folder for it, see getEnvOutputs
+  private async initializeTerraform(
+    configuration: ProviderConfig,
+    environment: string,
+    sourcePath = configuration.rootPath,
+  ): Promise<void> {
     try {
       const BACKEND_CONFIG_FILE = join(configuration.rootPath, '__ig__backend.tf')
 
@@ -211,7 +271,7 @@ class TerraformProvider implements IProvider {
       const backendFile = selectedEnv?.backend_file
       const backendType = selectedEnv?.backend_type
       if (backendFile) {
-        const resolvedBackendFile = resolve(configuration.rootPath, backendFile)
+        const resolvedBackendFile = resolve(sourcePath, backendFile)
         if (!resolvedBackendFile.startsWith(configuration.rootMonoRepoFolder)) {
           throw new UserError(`backend_file '${backendFile}' resolves outside monorepo root`)
         }
@@ -233,7 +293,7 @@ class TerraformProvider implements IProvider {
         }
       }
       const backendConfigArgs = this.backendConfigToArgs(selectedEnv?.backend_config)
-      await this.execCommand(`terraform init ${backendConfigArgs} --reconfigure`, configuration)
+      await this.execCommand(`terraform init ${backendConfigArgs} --reconfigure`, configuration, environment)
     } catch (error) {
       throw new ProviderError(
         `Failed to initialize Terraform in ${configuration.alias}`,
@@ -251,14 +311,13 @@ class TerraformProvider implements IProvider {
       ...toNonSecretInput(vars ?? {}),
       ...input,
     }
-    const variables = Object.entries(allVars)
-      .map(([key, outputValue]) => `${key}="${outputValue.value}"`)
-      .join('\n')
+    // JSON variable files keep lists, maps, numbers and bools typed and need no HCL escaping
+    const variables = Object.fromEntries(Object.entries(allVars).map(([key, value]) => [key, jsonValueOf(value)]))
     const stateManager = new StateManager(configuration.rootMonoRepoFolder)
     const tempVarFile = await stateManager.storeWorkspaceTempFile(
       configuration.rootPath,
-      'terraform-vars.tfvars',
-      variables,
+      'terraform-vars.tfvars.json',
+      JSON.stringify(variables, null, 2),
     )
     const filesStr = var_files?.map((f: string) => `-var-file=${f}`)?.join(' ') || ''
     return `${filesStr} -var-file=${tempVarFile}`
@@ -267,7 +326,11 @@ class TerraformProvider implements IProvider {
   async getDriftPlan(configuration: ProviderConfig, input: ProviderInput, environment: string): Promise<ProviderPlan> {
     const variables = await this.getVariableString(configuration, input, environment)
 
-    const stdout = await this.execCommand(`terraform plan -refresh-only --json ${variables}`, configuration)
+    const stdout = await this.execCommand(
+      `terraform plan -refresh-only --json ${variables}`,
+      configuration,
+      environment,
+    )
 
     return this.mapTerraformOutputToProviderPlan(stdout, basename(configuration.rootPath))
   }
@@ -275,7 +338,11 @@ class TerraformProvider implements IProvider {
   async refresh(configuration: ProviderConfig, input: ProviderInput, environment: string): Promise<void> {
     const variables = await this.getVariableString(configuration, input, environment)
 
-    await this.execCommand(`terraform apply -refresh-only -auto-approve --json ${variables}`, configuration)
+    await this.execCommand(
+      `terraform apply -refresh-only -auto-approve --json ${variables}`,
+      configuration,
+      environment,
+    )
   }
 
   async importResource(
@@ -286,7 +353,7 @@ class TerraformProvider implements IProvider {
   ): Promise<string> {
     const variables = await this.getVariableString(configuration, input, environment)
 
-    return await this.execCommand(`terraform import ${variables} ${args.join(' ')}`, configuration)
+    return await this.execCommand(`terraform import ${variables} ${args.join(' ')}`, configuration, environment)
   }
 
   async generateCode(
@@ -302,6 +369,7 @@ class TerraformProvider implements IProvider {
     await this.execCommand(
       `terraform plan -generate-config-out=${tempFile} --json ${variables} ${args.join(' ')}`,
       configuration,
+      environment,
     )
 
     const generatedPath = join(configuration.rootPath, tempFile)
@@ -329,26 +397,33 @@ class TerraformProvider implements IProvider {
 
     args.push(...command.slice(1))
 
-    await this.execCommandInteractive(args.join(' '), configuration)
+    await this.execCommandInteractive(args.join(' '), configuration, env)
   }
 
-  private async execCommandInteractive(command: string, configuration: ProviderConfig): Promise<void> {
+  private async execCommandInteractive(
+    command: string,
+    configuration: ProviderConfig,
+    environment: string,
+  ): Promise<void> {
     logger.debug(`[terraform] exec: ${command}\n  cwd: ${configuration.rootPath}`)
     await spawnAsync(command, [], {
       shell: true,
       stdio: 'inherit',
       cwd: configuration.rootPath,
+      env: this.processEnv(configuration, environment),
     })
   }
 
   private async execCommandStreaming(
     command: string,
     configuration: ProviderConfig,
+    environment: string,
     onEvent: (event: ProviderEvent) => void,
   ): Promise<string> {
     logger.debug(`[terraform] exec (streaming): ${command}\n  cwd: ${configuration.rootPath}`)
     const result = await spawnWithLineStream(command, {
       cwd: configuration.rootPath,
+      env: this.processEnv(configuration, environment),
       onStdoutLine: (line) => {
         const event = parseTerraformStreamLine(line)
         if (event) onEvent(event)
@@ -367,12 +442,13 @@ class TerraformProvider implements IProvider {
     return result.stdout
   }
 
-  private async execCommand(command: string, configuration: ProviderConfig): Promise<string> {
+  private async execCommand(command: string, configuration: ProviderConfig, environment: string): Promise<string> {
     logger.debug(`[terraform] exec: ${command}\n  cwd: ${configuration.rootPath}`)
 
     const stderrLines: string[] = []
     const result = await spawnWithLineStream(command, {
       cwd: configuration.rootPath,
+      env: this.processEnv(configuration, environment),
       onStdoutLine: () => {},
       onStderrLine: (line) => {
         stderrLines.push(line)
@@ -412,13 +488,7 @@ function parseTerraformOutputJson(stdout: string): ProviderOutput {
     throw new ProviderError('Failed to parse Terraform output JSON', 'terraform', '')
   }
   return Object.fromEntries(
-    Object.entries(outputs).map(([key, output]) => [
-      key,
-      {
-        value: typeof output.value === 'string' ? output.value : JSON.stringify(output.value),
-        secret: output.sensitive ?? false,
-      } satisfies OutputValue,
-    ]),
+    Object.entries(outputs).map(([key, output]) => [key, toOutputValue(output.value, output.sensitive ?? false)]),
   )
 }
 
@@ -30,6 +30,15 @@ describe('formatCompactLine', () => {
     expect(line).toContain('creating')
   })
 
+  it('shows queued workspace', () => {
+    const ws = new WorkspaceApplyState('redis')
+    ws.markQueued()
+
+    const line = formatCompactLine(ws)
+    expect(line).toContain('redis')
+    expect(line).toContain('queued...')
+  })
+
   it('shows completed workspace', () => {
     const ws = new WorkspaceApplyState('postgres')
     ws.markComplete()
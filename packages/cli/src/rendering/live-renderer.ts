@@ -1,6 +1,7 @@
 import logUpdate from 'log-update'
 import pc from 'picocolors'
 import type { WorkspaceApplyState, ResourceState } from './workspace-state.js'
+import { logger } from '../utils/index.js'
 
 export interface ILiveRenderer {
   addWorkspace(state: WorkspaceApplyState): void
@@ -41,7 +42,7 @@ export class LiveRenderer implements ILiveRenderer {
 
   private render(): void {
     const output = this.verbose ? this.renderVerbose() : this.renderCompact()
-    this.logUpdate(output)
+    this.logUpdate(logger.mask(output))
   }
 
   renderCompact(): string {
@@ -64,8 +65,13 @@ export class LiveRenderer implements ILiveRenderer {
 export const SLOW_RESOURCE_THRESHOLD_SECONDS = 60
 
 export function formatCompactLine(ws: WorkspaceApplyState): string {
-  const icon = ws.status === 'complete' ? pc.green('ok') : ws.status === 'failed' ? pc.red('X ') : pc.cyan('* ')
+  const icon = statusIcon(ws)
   const name = ws.name.padEnd(16)
+
+  if (ws.status === 'queued') {
+    return `  ${icon} ${name} ${pc.dim('queued...')}`
+  }
+
   const progress = ws.totalCount > 0 ? `${ws.completedCount}/${ws.totalCount}` : ''
   const hasChangeCounts = ws.addCount > 0 || ws.changeCount > 0 || ws.removeCount > 0
   const changeSummary = hasChangeCounts ? pc.dim(ws.changeSummaryText) : ''
@@ -107,8 +113,8 @@ export function getSlowResources(ws: WorkspaceApplyState, currentAddress?: strin
 
 export function formatVerboseBlock(ws: WorkspaceApplyState): string[] {
   const lines: string[] = []
-  const icon = ws.status === 'complete' ? pc.green('ok') : ws.status === 'failed' ? pc.red('X ') : pc.cyan('* ')
-  lines.push(`  ${icon} ${ws.name}`)
+  const icon = statusIcon(ws)
+  lines.push(ws.status === 'queued' ? `  ${icon} ${ws.name} ${pc.dim('queued...')}` : `  ${icon} ${ws.name}`)
 
   for (const res of ws.resources.values()) {
     const resIcon = res.status === 'complete' ? pc.green('ok') : res.status === 'failed' ? pc.red('X ') : pc.cyan('* ')
@@ -131,6 +137,19 @@ export function formatVerboseBlock(ws: WorkspaceApplyState): string[] {
   return lines
 }
 
+function statusIcon(ws: WorkspaceApplyState): string {
+  switch (ws.status) {
+    case 'queued':
+      return pc.dim('--')
+    case 'complete':
+      return pc.green('ok')
+    case 'failed':
+      return pc.red('X ')
+    case 'in-progress':
+      return pc.cyan('* ')
+  }
+}
+
 function shortAddress(address: string): string {
   // For Pulumi URNs, extract the type::name portion
   if (address.startsWith('urn:pulumi:')) {
@@ -128,6 +128,15 @@ describe('NonTtyRenderer', () => {
     expect(stream.lines).toHaveLength(0)
   })
 
+  it('writes status change lines', () => {
+    const stream = createMockStream()
+    const renderer = new NonTtyRenderer(stream)
+
+    renderer.writeStatusChange('redis', 'queued')
+
+    expect(stream.lines[0]).toBe('[redis] queued\n')
+  })
+
   it('start and stop are no-ops', () => {
     const stream = createMockStream()
     const renderer = new NonTtyRenderer(stream)
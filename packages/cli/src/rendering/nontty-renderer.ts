@@ -1,6 +1,7 @@
 import type { ProviderEvent } from '../providers/provider-events.js'
 import type { ILiveRenderer } from './live-renderer.js'
 import type { WorkspaceApplyState } from './workspace-state.js'
+import { logger } from '../utils/index.js'
 
 export class NonTtyRenderer implements ILiveRenderer {
   private readonly stream: NodeJS.WritableStream
@@ -21,6 +22,10 @@ export class NonTtyRenderer implements ILiveRenderer {
     // no-op
   }
 
+  writeStatusChange(workspaceName: string, message: string): void {
+    this.write(`[${workspaceName}] ${message}`)
+  }
+
   writeEvent(workspaceName: string, event: ProviderEvent): void {
     const prefix = `[${workspaceName}]`
 
@@ -49,6 +54,6 @@ export class NonTtyRenderer implements ILiveRenderer {
   }
 
   private write(line: string): void {
-    this.stream.write(`${line}\n`)
+    this.stream.write(`${logger.mask(line)}\n`)
   }
 }
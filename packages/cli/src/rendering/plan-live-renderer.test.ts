@@ -15,6 +15,14 @@ describe('formatPlanCompactLine', () => {
     expect(line).toContain('waiting...')
   })
 
+  it('shows queued workspace', () => {
+    const ws = new WorkspacePlanState('redis')
+    ws.markQueued()
+    const line = formatPlanCompactLine(ws)
+    expect(line).toContain('redis')
+    expect(line).toContain('queued...')
+  })
+
   it('shows planning workspace', () => {
     const ws = new WorkspacePlanState('redis')
     ws.markPlanning()
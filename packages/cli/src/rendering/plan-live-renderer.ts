@@ -1,6 +1,7 @@
 import logUpdate from 'log-update'
 import pc from 'picocolors'
 import type { WorkspacePlanState } from './workspace-state.js'
+import { logger } from '../utils/index.js'
 
 export interface IPlanRenderer {
   addWorkspace(state: WorkspacePlanState): void
@@ -38,7 +39,7 @@ export class PlanLiveRenderer implements IPlanRenderer {
   }
 
   private render(): void {
-    this.logUpdate(this.renderCompact())
+    this.logUpdate(logger.mask(this.renderCompact()))
   }
 
   renderCompact(): string {
@@ -66,7 +67,7 @@ export class PlanNonTtyRenderer implements IPlanRenderer {
   }
 
   writeStatusChange(workspaceName: string, message: string): void {
-    this.stream.write(`[${workspaceName}] ${message}\n`)
+    this.stream.write(logger.mask(`[${workspaceName}] ${message}\n`))
   }
 }
 
@@ -79,6 +80,11 @@ export function formatPlanCompactLine(ws: WorkspacePlanState): string {
       const name = ws.name.padEnd(20)
       return `  ${icon} ${name} ${pc.dim('waiting...')}  ${pc.dim(elapsed)}`
     }
+    case 'queued': {
+      const icon = pc.dim('--')
+      const name = ws.name.padEnd(20)
+      return `  ${icon} ${name} ${pc.dim('queued...')}`
+    }
     case 'planning': {
       const icon = pc.cyan('* ')
       const name = ws.name.padEnd(20)
@@ -205,6 +205,16 @@ describe('WorkspaceApplyState', () => {
     expect(state.status).toBe('complete')
   })
 
+  it('markStarted after markQueued restarts the elapsed clock', () => {
+    state.markQueued()
+    expect(state.status).toBe('queued')
+    vi.advanceTimersByTime(5000)
+
+    state.markStarted()
+    expect(state.status).toBe('in-progress')
+    expect(state.elapsedSeconds).toBe(0)
+  })
+
   it('markFailed sets status and error', () => {
     state.markFailed('boom')
     expect(state.status).toBe('failed')
@@ -276,4 +286,15 @@ describe('WorkspacePlanState', () => {
     vi.advanceTimersByTime(7000)
     expect(state.elapsedSeconds).toBe(7)
   })
+
+  it('does not count time spent queued', () => {
+    const state = new WorkspacePlanState('redis')
+    state.markQueued()
+    expect(state.status).toBe('queued')
+    vi.advanceTimersByTime(7000)
+
+    state.markPlanning()
+    vi.advanceTimersByTime(2000)
+    expect(state.elapsedSeconds).toBe(2)
+  })
 })
@@ -1,12 +1,12 @@
 import type { ChangeSummary } from '../providers/provider-plan.js'
 import type { ProviderEvent } from '../providers/provider-events.js'
 
-export type PlanStatus = 'pending' | 'planning' | 'done' | 'up-to-date' | 'failed'
+export type PlanStatus = 'pending' | 'queued' | 'planning' | 'done' | 'up-to-date' | 'failed'
 
 export class WorkspacePlanState {
   public readonly name: string
   public status: PlanStatus = 'pending'
-  public readonly startTime: number
+  public startTime: number
   private endTime: number | null = null
   public changeSummary: ChangeSummary | null = null
   public error: string | null = null
@@ -16,7 +16,13 @@ export class WorkspacePlanState {
     this.startTime = Date.now()
   }
 
+  // waiting for a free provider slot (--parallelism)
+  markQueued(): void {
+    this.status = 'queued'
+  }
+
   markPlanning(): void {
+    if (this.status === 'queued') this.startTime = Date.now()
     this.status = 'planning'
   }
 
@@ -49,7 +55,7 @@ export interface ResourceState {
   elapsedSeconds: number
 }
 
-export type WorkspaceStatus = 'in-progress' | 'complete' | 'failed'
+export type WorkspaceStatus = 'queued' | 'in-progress' | 'complete' | 'failed'
 
 export class WorkspaceApplyState {
   public readonly name: string
@@ -62,7 +68,7 @@ export class WorkspaceApplyState {
   public changeCount = 0
   public removeCount = 0
   public readonly diagnostics: Array<{ severity: string; summary: string; address: string | null }> = []
-  public readonly startTime: number
+  public startTime: number
   private endTime: number | null = null
   public error: string | null = null
 
@@ -140,6 +146,16 @@ export class WorkspaceApplyState {
     return `+${this.addCount} ~${this.changeCount} -${this.removeCount}`
   }
 
+  // waiting for a free provider slot (--parallelism)
+  markQueued(): void {
+    this.status = 'queued'
+  }
+
+  markStarted(): void {
+    if (this.status === 'queued') this.startTime = Date.now()
+    this.status = 'in-progress'
+  }
+
   markComplete(): void {
     this.status = 'complete'
     this.endTime = Date.now()
@@ -61,10 +61,10 @@ export function formatProviderErrorMessage(
 
 export class ConfigError extends UserError {
   constructor(
-    message: string,
+    public readonly reason: string,
     public readonly filePath: string,
   ) {
-    super(`${filePath}: ${message}`)
+    super(`${filePath}: ${reason}`)
     this.name = 'ConfigError'
   }
 }
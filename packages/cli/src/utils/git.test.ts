@@ -0,0 +1,86 @@
+import { getChangedFilesSince, getHeadCommit } from './git.js'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { mkdtemp, mkdir, writeFile, rm, realpath } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const execFileAsync = promisify(execFile)
+
+describe('getChangedFilesSince', () => {
+  let repoDir: string
+
+  async function git(...args: string[]) {
+    await execFileAsync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=test', ...args], {
+      cwd: repoDir,
+    })
+  }
+
+  beforeEach(async () => {
+    repoDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-git-test-')))
+    await mkdir(join(repoDir, 'network'))
+    await mkdir(join(repoDir, 'db'))
+    await writeFile(join(repoDir, 'network', 'main.tf'), 'a')
+    await writeFile(join(repoDir, 'db', 'main.tf'), 'a')
+    await writeFile(join(repoDir, '.gitignore'), '*.log\n')
+    await git('init', '-q', '-b', 'main')
+    await git('add', '-A')
+    await git('commit', '-q', '-m', 'initial')
+    await git('checkout', '-q', '-b', 'feature')
+  })
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true })
+  })
+
+  it('should return committed, uncommitted and untracked changes since the merge base', async () => {
+    await writeFile(join(repoDir, 'network', 'main.tf'), 'b')
+    await git('commit', '-q', '-am', 'change network')
+    await writeFile(join(repoDir, 'db', 'main.tf'), 'b')
+    await writeFile(join(repoDir, 'db', 'new.tf'), 'b')
+    await writeFile(join(repoDir, 'db', 'debug.log'), 'ignored')
+
+    const files = await getChangedFilesSince(join(repoDir, 'db'), 'main')
+
+    expect(files.sort()).toEqual(
+      [join(repoDir, 'db', 'main.tf'), join(repoDir, 'db', 'new.tf'), join(repoDir, 'network', 'main.tf')].sort(),
+    )
+  })
+
+  it('should ignore changes made on the base branch after the merge base', async () => {
+    await git('checkout', '-q', 'main')
+    await writeFile(join(repoDir, 'db', 'main.tf'), 'c')
+    await git('commit', '-q', '-am', 'change db on main')
+    await git('checkout', '-q', 'feature')
+
+    expect(await getChangedFilesSince(repoDir, 'main')).toEqual([])
+  })
+
+  it('should fail for unknown refs', async () => {
+    await expect(getChangedFilesSince(repoDir, 'missing')).rejects.toThrow('git merge-base failed')
+  })
+
+  it('should reject refs that look like options', async () => {
+    await expect(getChangedFilesSince(repoDir, '--output=x')).rejects.toThrow("Invalid git ref '--output=x'")
+  })
+})
+
+describe('getHeadCommit', () => {
+  it('should return the checked out commit from a subfolder', async () => {
+    const repoDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-git-test-')))
+    try {
+      await mkdir(join(repoDir, 'db'))
+      await writeFile(join(repoDir, 'db', 'main.tf'), 'a')
+      const git = (...args: string[]) =>
+        execFileAsync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=test', ...args], { cwd: repoDir })
+      await git('init', '-q')
+      await git('add', '-A')
+      await git('commit', '-q', '-m', 'initial')
+      const { stdout } = await git('rev-parse', 'HEAD')
+
+      expect(await getHeadCommit(join(repoDir, 'db'))).toBe(stdout.trim())
+    } finally {
+      await rm(repoDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,41 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { resolve } from 'path'
+import { UserError } from './errors.js'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Absolute paths of the files changed since the merge base of `ref` and HEAD,
+ * including uncommitted and untracked (not ignored) files in the working tree.
+ * Renamed files are reported with both their old and new paths.
+ */
+export async function getChangedFilesSince(cwd: string, ref: string): Promise<string[]> {
+  if (ref.startsWith('-')) {
+    throw new UserError(`Invalid git ref '${ref}'`)
+  }
+
+  const root = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim()
+  const base = (await git(root, ['merge-base', ref, 'HEAD'])).trim()
+  const changed = await git(root, ['diff', '--name-only', '--no-renames', '-z', base])
+  const untracked = await git(root, ['ls-files', '--others', '--exclude-standard', '-z'])
+
+  const files = new Set([...changed.split('\0'), ...untracked.split('\0')].filter((f) => f !== ''))
+  return [...files].map((f) => resolve(root, f))
+}
+
+// full SHA of the commit checked out in the repository containing cwd
+export async function getHeadCommit(cwd: string): Promise<string> {
+  return (await git(cwd, ['rev-parse', 'HEAD'])).trim()
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 })
+    return stdout
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim()
+    const reason = stderr || (error instanceof Error ? error.message : String(error))
+    throw new UserError(`git ${args[0]} failed in ${cwd}: ${reason}`)
+  }
+}
@@ -1,8 +1,11 @@
 export * from './utils.js'
 export * from './errors.js'
 export * from './mutex.js'
+export * from './semaphore.js'
 export * from './logger.js'
 export * from './ci.js'
 export * from './interpolation.js'
 export * from './dotenv.js'
 export * from './vault-client.js'
+export * from './secret-resolvers.js'
+export * from './git.js'
@@ -1,9 +1,16 @@
-import { interpolateString, interpolateConfig } from './interpolation.js'
+import {
+  hasDeferredReferences,
+  interpolateString,
+  interpolateConfig,
+  resolveDeferredReferences,
+} from './interpolation.js'
 import { UserError } from './errors.js'
+import { logger } from './logger.js'
+import { createVaultResolver, type SecretResolvers } from './secret-resolvers.js'
 import type { VaultClient } from './vault-client.js'
 
-function mockVaultClient(secrets: Record<string, Record<string, string>>): VaultClient {
-  return {
+function mockVaultResolvers(secrets: Record<string, Record<string, string>>): SecretResolvers {
+  const client = {
     getSecret: vi.fn(async (path: string, field: string) => {
       const data = secrets[path]
       if (!data) throw new UserError(`Vault secret not found at '${path}'`)
@@ -12,6 +19,7 @@ function mockVaultClient(secrets: Record<string, Record<string, string>>): Vault
       return value
     }),
   } as unknown as VaultClient
+  return { vault: createVaultResolver(client) }
 }
 
 describe('interpolateString', () => {
@@ -69,7 +77,7 @@ describe('interpolateString', () => {
   })
 
   describe('vault references', () => {
-    const vault = mockVaultClient({
+    const vault = mockVaultResolvers({
       'secret/data/aws': { access_key: 'AKIA123', secret_key: 'shhh' },
       'secret/data/db': { password: 'dbpass' },
     })
@@ -131,6 +139,101 @@ describe('interpolateString', () => {
       await expect(interpolateString('${vault:secret/data/db#p}', env, 'root vars')).rejects.toThrow('(in root vars)')
     })
   })
+
+  describe('built-in references', () => {
+    const builtins = { env: 'prod', workspace: 'database', root: '/repo' }
+
+    it('should substitute built-ins next to env vars', async () => {
+      expect(
+        await interpolateString('${REGION}/${ig.env}/${ig.workspace}.tfstate', env, undefined, undefined, builtins),
+      ).toBe('us-east-1/prod/database.tfstate')
+    })
+
+    it('should only call lazy built-ins that are referenced', async () => {
+      const gitSha = vi.fn(async () => 'abc123')
+      expect(await interpolateString('${ig.git_sha}', env, undefined, undefined, { git_sha: gitSha })).toBe('abc123')
+      expect(await interpolateString('plain', env, undefined, undefined, { git_sha: gitSha })).toBe('plain')
+      expect(gitSha).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep escaped built-ins literal', async () => {
+      expect(await interpolateString('$${ig.env}', env, undefined, undefined, builtins)).toBe('${ig.env}')
+    })
+
+    it('should reject unknown built-ins', async () => {
+      await expect(interpolateString('${ig.region}', env, 'root vars', undefined, builtins)).rejects.toThrow(
+        "Unknown built-in variable '${ig.region}' (in root vars). Available: ig.env, ig.workspace, ig.workspace_path, ig.root, ig.git_sha",
+      )
+    })
+
+    it('should explain built-ins that are not available', async () => {
+      await expect(interpolateString('${ig.env}', env, 'root ig.yaml vars')).rejects.toThrow(
+        "Built-in variable '${ig.env}' is not available (in root ig.yaml vars). Pass --env or select an environment",
+      )
+    })
+  })
+
+  describe('defaults and required values', () => {
+    const vault = mockVaultResolvers({ 'secret/data/app': { token: 'vault-token' } })
+
+    it('should fall back to the default when a variable is unset or empty', async () => {
+      expect(await interpolateString('${MISSING:-eu-west-1}', env)).toBe('eu-west-1')
+      expect(await interpolateString('${EMPTY:-fallback}', env)).toBe('fallback')
+      expect(await interpolateString('${REGION:-eu-west-1}', env)).toBe('us-east-1')
+      expect(await interpolateString('${MISSING:-}', env)).toBe('')
+    })
+
+    it('should resolve fallback chains', async () => {
+      const chain = '${vault:secret/data/app#missing:-${MISSING:-${REGION}}}-x'
+      expect(await interpolateString(chain, env, undefined, vault)).toBe('us-east-1-x')
+      expect(await interpolateString('${vault:secret/data/app#token:-${MISSING}}', env, undefined, vault)).toBe(
+        'vault-token',
+      )
+    })
+
+    it('should fall back when no vault is configured', async () => {
+      expect(await interpolateString('${vault:secret/data/app#token:-${HOME}/.token}', env)).toBe('/home/user/.token')
+    })
+
+    it('should fail with the custom message of a required variable', async () => {
+      await expect(interpolateString('${MISSING:?set MISSING to your AWS profile}', env, 'root vars')).rejects.toThrow(
+        'set MISSING to your AWS profile (in root vars)',
+      )
+      expect(await interpolateString('${REGION:?required}', env)).toBe('us-east-1')
+    })
+
+    it('should report the last reference of a chain without a default', async () => {
+      await expect(interpolateString('${MISSING:-${ALSO_MISSING}}', env)).rejects.toThrow(
+        "Environment variable 'ALSO_MISSING' is not set",
+      )
+    })
+
+    it('should not hide invalid references behind a default', async () => {
+      await expect(interpolateString('${ig.region:-x}', env)).rejects.toThrow(
+        "Unknown built-in variable '${ig.region}'",
+      )
+      await expect(interpolateString('${vault:secret/data/app:-x}', env, undefined, vault)).rejects.toThrow(
+        'expected format ${vault:path#field}',
+      )
+    })
+
+    it('should fall back when a resolver is disabled', async () => {
+      expect(await interpolateString('${cmd:pass show infra/db:-local}', env, undefined, {})).toBe('local')
+      await expect(interpolateString('${cmd:pass show infra/db}', env, 'root vars', {})).rejects.toThrow(
+        "'cmd:' references are disabled in the resolvers of root ig.yaml (in root vars). Enable them with resolvers.cmd: true",
+      )
+    })
+
+    it('should mask resolved secrets in logs', async () => {
+      const resolvers: SecretResolvers = { file: { resolve: async () => 'masked-file-secret' } }
+      expect(await interpolateString('${file:./token}', env, undefined, resolvers)).toBe('masked-file-secret')
+      expect(logger.mask('token=masked-file-secret')).toBe('token=***')
+    })
+
+    it('should keep escaped references with defaults literal', async () => {
+      expect(await interpolateString('$${MISSING:-x}', env)).toBe('${MISSING:-x}')
+    })
+  })
 })
 
 describe('interpolateConfig', () => {
@@ -175,7 +278,7 @@ describe('interpolateConfig', () => {
   })
 
   describe('vault references in config', () => {
-    const vault = mockVaultClient({
+    const vault = mockVaultResolvers({
       'secret/data/aws': { access_key: 'AKIA', secret_key: 'secret' },
     })
 
@@ -197,3 +300,58 @@ describe('interpolateConfig', () => {
     })
   })
 })
+
+describe('deferred references', () => {
+  const env = { USER_NAME: 'app' }
+  const resolvers: SecretResolvers = {
+    'vault-dynamic': { deferred: true, resolve: vi.fn(async (reference: string) => `dyn(${reference})`) },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should keep deferred references as written while interpolating', async () => {
+    const input = {
+      vars: { user: '${USER_NAME}', password: '${vault-dynamic:database/creds/app#password:-${USER_NAME}}' },
+      literal: '$${vault-dynamic:database/creds/app#password}',
+    }
+    expect(await interpolateConfig(input, env, undefined, resolvers)).toEqual({
+      vars: { user: 'app', password: '${vault-dynamic:database/creds/app#password:-${USER_NAME}}' },
+      literal: '$${vault-dynamic:database/creds/app#password}',
+    })
+    expect(resolvers['vault-dynamic']!.resolve).not.toHaveBeenCalled()
+  })
+
+  it('should resolve only the deferred references', async () => {
+    const interpolated = await interpolateConfig(
+      { dsn: 'postgres://${USER_NAME}:${vault-dynamic:database/creds/app#password}@db', escaped: '$${HOME}' },
+      env,
+      undefined,
+      resolvers,
+    )
+    expect(await resolveDeferredReferences(interpolated, resolvers)).toEqual({
+      dsn: 'postgres://app:dyn(database/creds/app#password)@db',
+      escaped: '${HOME}',
+    })
+  })
+
+  it('should keep escaped deferred references as literals once resolved', async () => {
+    const interpolated = await interpolateString(
+      '$${vault-dynamic:database/creds/app#password}',
+      env,
+      undefined,
+      resolvers,
+    )
+    expect(await resolveDeferredReferences(interpolated, resolvers)).toBe(
+      '${vault-dynamic:database/creds/app#password}',
+    )
+    expect(resolvers['vault-dynamic']!.resolve).not.toHaveBeenCalled()
+  })
+
+  it('should detect deferred references in config values', () => {
+    expect(hasDeferredReferences({ vars: ['${vault-dynamic:aws/creds/ci#access_key}'] }, resolvers)).toBe(true)
+    expect(hasDeferredReferences({ vars: ['$${vault-dynamic:aws/creds/ci#access_key}'] }, resolvers)).toBe(false)
+    expect(hasDeferredReferences({ vars: ['${vault:secret/app#token}'] }, resolvers)).toBe(false)
+  })
+})
@@ -1,75 +1,80 @@
 import { UserError } from './errors.js'
-import type { VaultClient } from './vault-client.js'
+import { logger } from './logger.js'
+import {
+  InvalidReferenceError,
+  RESOLVER_SCHEMES,
+  type ResolverScheme,
+  type SecretResolvers,
+} from './secret-resolvers.js'
 
 /**
- * Interpolate `${VAR}` and `${vault:path#field}` references in a string.
+ * Values of the `${ig.<name>}` built-in references, by name. Functions are called when a reference
+ * first needs them, so e.g. git is only run for configs using `${ig.git_sha}`.
+ */
+export type BuiltinVariables = Partial<Record<BuiltinVariable, string | (() => Promise<string>)>>
+
+export const BUILTIN_VARIABLES = ['env', 'workspace', 'workspace_path', 'root', 'git_sha'] as const
+export type BuiltinVariable = (typeof BUILTIN_VARIABLES)[number]
+
+/**
+ * Interpolate `${VAR}`, `${ig.<name>}` and secret references such as `${vault:path#field}` or `${file:path}`
+ * in a string. Secret references go to the resolver of their scheme, and resolved secrets are masked in logs.
  * Use `$${VAR}` to produce a literal `${VAR}` in the output (escape syntax).
- * Throws UserError if a referenced variable is not set or a vault secret cannot be resolved.
+ * Like in a shell, `${VAR:-default}` falls back to `default` and `${VAR:?message}` fails with `message`
+ * when the reference is unset or empty. The default may hold references itself, so fallback chains such
+ * as `${vault:secret/app#token:-${APP_TOKEN}}` work; a secret that cannot be read counts as unset.
+ * Throws UserError if a referenced variable is not set or a secret cannot be resolved.
  */
 export async function interpolateString(
   value: string,
   env: Record<string, string | undefined> = process.env,
   context?: string,
-  vaultClient?: VaultClient,
+  resolvers: SecretResolvers = {},
+  builtins: BuiltinVariables = {},
 ): Promise<string> {
   let result = ''
   let i = 0
 
   while (i < value.length) {
     if (value[i] === '$') {
-      // Check for escape: $${...} → literal ${...}
+      // Check for escape: $${...} → literal ${...}; escaped deferred references stay escaped until they are resolved
       if (value[i + 1] === '$' && value[i + 2] === '{') {
         const closeBrace = value.indexOf('}', i + 3)
         if (closeBrace !== -1) {
-          result += value.slice(i + 1, closeBrace + 1)
+          result += value.slice(isDeferred(value, i + 1, resolvers) ? i : i + 1, closeBrace + 1)
           i = closeBrace + 1
           continue
         }
       }
 
-      // Check for interpolation: ${VAR} or ${vault:path#field}
+      // Check for interpolation: ${VAR}, ${vault:path#field} or ${ig.name}, optionally with :- or :?
       if (value[i + 1] === '{') {
-        const closeBrace = value.indexOf('}', i + 2)
+        const closeBrace = findClosingBrace(value, i + 2)
+        if (closeBrace !== -1 && isDeferred(value, i, resolvers)) {
+          result += value.slice(i, closeBrace + 1)
+          i = closeBrace + 1
+          continue
+        }
         if (closeBrace !== -1) {
-          const varName = value.slice(i + 2, closeBrace)
+          const expression = value.slice(i + 2, closeBrace)
+          const operator = findOperator(expression)
+          const reference = operator === -1 ? expression : expression.slice(0, operator)
+          const resolved = await resolveReference(reference, env, context, resolvers, builtins)
 
-          if (varName.startsWith('vault:')) {
-            const ref = varName.slice('vault:'.length)
-            const hashIndex = ref.indexOf('#')
-            if (hashIndex === -1) {
-              const ctx = context ? ` (in ${context})` : ''
-              throw new UserError(
-                `Invalid vault reference '\${${varName}}': expected format \${vault:path#field}${ctx}`,
-              )
-            }
-            const path = ref.slice(0, hashIndex)
-            const field = ref.slice(hashIndex + 1)
-            if (!path || !field) {
-              const ctx = context ? ` (in ${context})` : ''
-              throw new UserError(`Invalid vault reference '\${${varName}}': path and field must not be empty${ctx}`)
-            }
-            if (!vaultClient) {
-              const ctx = context ? ` (in ${context})` : ''
-              throw new UserError(
-                `Vault reference '\${${varName}}' found but no vault configuration provided${ctx}. Set VAULT_ADDR or add vault.address to root ig.yaml`,
-              )
-            }
-            try {
-              result += await vaultClient.getSecret(path, field)
-            } catch (error) {
-              if (error instanceof UserError) {
-                const ctx = context ? ` (in ${context})` : ''
-                throw new UserError(`${error.message}${ctx}`)
-              }
-              throw error
+          if (operator === -1) {
+            if (resolved instanceof UserError) {
+              throw resolved
             }
+            result += resolved
+          } else if (!(resolved instanceof UserError) && resolved !== '') {
+            result += resolved
           } else {
-            const varValue = env[varName]
-            if (varValue === undefined) {
+            const operand = await interpolateString(expression.slice(operator + 2), env, context, resolvers, builtins)
+            if (expression[operator + 1] === '?') {
               const ctx = context ? ` (in ${context})` : ''
-              throw new UserError(`Environment variable '${varName}' is not set${ctx}`)
+              throw new UserError(`${operand || `'${reference}' is not set`}${ctx}`)
             }
-            result += varValue
+            result += operand
           }
 
           i = closeBrace + 1
@@ -85,6 +90,159 @@ export async function interpolateString(
   return result
 }
 
+/**
+ * The value of a reference, or the error to report when it is not set. Invalid references throw right away,
+ * as a fallback must not hide them.
+ */
+async function resolveReference(
+  reference: string,
+  env: Record<string, string | undefined>,
+  context: string | undefined,
+  resolvers: SecretResolvers,
+  builtins: BuiltinVariables,
+): Promise<string | UserError> {
+  const ctx = context ? ` (in ${context})` : ''
+
+  const colon = reference.indexOf(':')
+  const scheme = reference.slice(0, colon) as ResolverScheme
+  if (colon > 0 && RESOLVER_SCHEMES.includes(scheme)) {
+    const resolver = resolvers[scheme]
+    if (!resolver) {
+      return new UserError(
+        scheme === 'vault' || (scheme === 'vault-dynamic' && !resolvers.vault)
+          ? `Vault reference '\${${reference}}' found but no vault configuration provided${ctx}. Set VAULT_ADDR or add vault.address to root ig.yaml`
+          : `'${scheme}:' references are disabled in the resolvers of root ig.yaml${ctx}${scheme === 'cmd' ? '. Enable them with resolvers.cmd: true' : ''}`,
+      )
+    }
+    try {
+      const secret = await resolver.resolve(reference.slice(colon + 1))
+      logger.addSecret(secret)
+      return secret
+    } catch (error) {
+      if (error instanceof InvalidReferenceError) {
+        throw new InvalidReferenceError(`${error.message}${ctx}`)
+      }
+      if (error instanceof UserError) {
+        return new UserError(`${error.message}${ctx}`)
+      }
+      throw error
+    }
+  }
+
+  if (reference.startsWith('ig.')) {
+    const name = reference.slice('ig.'.length)
+    if (!(BUILTIN_VARIABLES as readonly string[]).includes(name)) {
+      const available = BUILTIN_VARIABLES.map((x) => `ig.${x}`).join(', ')
+      throw new UserError(`Unknown built-in variable '\${ig.${name}}'${ctx}. Available: ${available}`)
+    }
+    const value = builtins[name as BuiltinVariable]
+    if (value === undefined) {
+      const hint = name === 'env' ? ". Pass --env or select an environment with 'ig env select <env>'" : ''
+      return new UserError(`Built-in variable '\${ig.${name}}' is not available${ctx}${hint}`)
+    }
+    return typeof value === 'string' ? value : await value()
+  }
+
+  const varValue = env[reference]
+  if (varValue === undefined) {
+    return new UserError(`Environment variable '${reference}' is not set${ctx}`)
+  }
+  return varValue
+}
+
+/**
+ * Resolves the references that interpolateString kept as written because their resolver is `deferred`,
+ * such as `${vault-dynamic:...}`, in the string values of a config structure. The rest of the values was
+ * interpolated already and is kept as it is.
+ */
+export async function resolveDeferredReferences<T>(
+  value: T,
+  resolvers: SecretResolvers,
+  context?: string,
+  builtins: BuiltinVariables = {},
+): Promise<T> {
+  // the same resolvers, resolving the deferred references instead of keeping them
+  const resolving: SecretResolvers = Object.fromEntries(
+    Object.entries(resolvers).map(([scheme, resolver]) => [scheme, { ...resolver, deferred: false }]),
+  )
+  return mapStrings(value, async (text) => {
+    let result = ''
+    let i = 0
+    while (i < text.length) {
+      if (text[i] === '$' && text[i + 1] === '$' && isDeferred(text, i + 1, resolvers)) {
+        const closeBrace = text.indexOf('}', i + 3)
+        result += text.slice(i + 1, closeBrace + 1)
+        i = closeBrace + 1
+        continue
+      }
+      const closeBrace = text[i] === '$' ? findClosingBrace(text, i + 2) : -1
+      if (closeBrace !== -1 && isDeferred(text, i, resolvers)) {
+        result += await interpolateString(text.slice(i, closeBrace + 1), process.env, context, resolving, builtins)
+        i = closeBrace + 1
+        continue
+      }
+      result += text[i]
+      i++
+    }
+    return result
+  })
+}
+
+// whether a string value of a config structure holds a reference that is resolved with resolveDeferredReferences
+export function hasDeferredReferences(value: unknown, resolvers: SecretResolvers): boolean {
+  if (typeof value === 'string') {
+    return [...value.matchAll(/\$\{/g)].some(
+      (match) => value[match.index - 1] !== '$' && isDeferred(value, match.index, resolvers),
+    )
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value).some((item) => hasDeferredReferences(item, resolvers))
+  }
+  return false
+}
+
+// whether `${` at `start` opens a reference whose resolver is deferred
+function isDeferred(value: string, start: number, resolvers: SecretResolvers): boolean {
+  if (value[start] !== '$' || value[start + 1] !== '{') {
+    return false
+  }
+  const scheme = /^([a-z-]+):/.exec(value.slice(start + 2))?.[1] as ResolverScheme | undefined
+  return scheme !== undefined && resolvers[scheme]?.deferred === true
+}
+
+// index of the `}` closing a reference whose body starts at `start`, skipping nested `${...}`
+function findClosingBrace(value: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '$' && value[i + 1] === '{') {
+      depth++
+      i++
+    } else if (value[i] === '}') {
+      if (depth === 0) {
+        return i
+      }
+      depth--
+    }
+  }
+  return -1
+}
+
+// index of the first `:-` or `:?` outside nested references, or -1
+function findOperator(expression: string): number {
+  let depth = 0
+  for (let i = 0; i < expression.length - 1; i++) {
+    if (expression[i] === '$' && expression[i + 1] === '{') {
+      depth++
+      i++
+    } else if (expression[i] === '}') {
+      depth--
+    } else if (depth === 0 && expression[i] === ':' && (expression[i + 1] === '-' || expression[i + 1] === '?')) {
+      return i
+    }
+  }
+  return -1
+}
+
 /**
  * Recursively interpolate all string values in a config structure.
  * Handles strings, arrays of strings, and Record<string, string> objects.
@@ -94,16 +252,22 @@ export async function interpolateConfig<T>(
   value: T,
   env: Record<string, string | undefined> = process.env,
   context?: string,
-  vaultClient?: VaultClient,
+  resolvers: SecretResolvers = {},
+  builtins: BuiltinVariables = {},
 ): Promise<T> {
+  return mapStrings(value, (text) => interpolateString(text, env, context, resolvers, builtins))
+}
+
+// `value` with `map` applied to its strings, one at a time
+async function mapStrings<T>(value: T, map: (text: string) => Promise<string>): Promise<T> {
   if (typeof value === 'string') {
-    return (await interpolateString(value, env, context, vaultClient)) as T
+    return (await map(value)) as T
   }
 
   if (Array.isArray(value)) {
     const results = []
     for (const item of value) {
-      results.push(await interpolateConfig(item, env, context, vaultClient))
+      results.push(await mapStrings(item, map))
     }
     return results as T
   }
@@ -111,7 +275,7 @@ export async function interpolateConfig<T>(
   if (value !== null && typeof value === 'object') {
     const result: Record<string, unknown> = {}
     for (const [k, v] of Object.entries(value)) {
-      result[k] = await interpolateConfig(v, env, context, vaultClient)
+      result[k] = await mapStrings(v, map)
     }
     return result as T
   }
@@ -10,8 +10,13 @@ const order: Record<Level, number> = {
   debug: 3,
 }
 
+// shorter secrets would mask ordinary words all over the output
+const MIN_MASKED_LENGTH = 4
+const MASK = '***'
+
 class Logger {
   private level: Level = 'info'
+  private readonly secrets = new Set<string>()
   setLevel(level: Level) {
     this.level = level
   }
@@ -25,13 +30,32 @@ class Logger {
     return this.should('debug')
   }
 
+  // masks the value, and each of its lines, in everything logged from now on
+  addSecret(value: string) {
+    for (const secret of [value, ...value.split(/\r?\n/)]) {
+      if (secret.trim().length >= MIN_MASKED_LENGTH) {
+        this.secrets.add(secret)
+      }
+    }
+  }
+
+  mask(msg: string): string {
+    let masked = msg
+    // longest first, so a secret containing another one is masked as a whole
+    for (const secret of [...this.secrets].sort((a, b) => b.length - a.length)) {
+      masked = masked.split(secret).join(MASK)
+    }
+    return masked
+  }
+
   private should(level: Level) {
     return order[level] <= order[this.level]
   }
 
   private write(level: Level, msg: string) {
     if (!this.should(level)) return
-    const colored = level === 'error' ? pc.red(msg) : level === 'warn' ? pc.yellow(msg) : msg
+    const masked = this.mask(msg)
+    const colored = level === 'error' ? pc.red(masked) : level === 'warn' ? pc.yellow(masked) : masked
     process.stderr.write(`${colored}\n`)
   }
 
@@ -0,0 +1,19 @@
+import { Mutex } from './mutex'
+
+describe('Mutex', () => {
+  it('should hand the lock to waiters in order', async () => {
+    const mutex = new Mutex()
+    const order: number[] = []
+
+    await Promise.all(
+      [1, 2, 3].map(async (n) => {
+        const unlock = await mutex.lock()
+        order.push(n)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        unlock()
+      }),
+    )
+
+    expect(order).toEqual([1, 2, 3])
+  })
+})
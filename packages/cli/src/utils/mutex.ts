@@ -17,11 +17,8 @@ export class Mutex {
   }
 
   private unlock() {
-    if (this._waiting.length > 0) {
-      const next = this._waiting.shift()
-      if (next) next()
-    } else {
-      this._locked = false
-    }
+    this._locked = false
+    const next = this._waiting.shift()
+    if (next) next()
   }
 }
@@ -0,0 +1,167 @@
+import { chmod, mkdtemp, mkdir, readFile, rm, writeFile, realpath } from 'fs/promises'
+import { basename, join } from 'path'
+import { tmpdir } from 'os'
+import { createSecretResolvers, InvalidReferenceError, releaseSecretResolvers } from './secret-resolvers.js'
+import { UserError } from './errors.js'
+import type { VaultClient } from './vault-client.js'
+
+describe('createSecretResolvers', () => {
+  let rootDir: string
+
+  beforeEach(async () => {
+    rootDir = await realpath(await mkdtemp(join(tmpdir(), 'ig-resolvers-test-')))
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should enable every resolver but vault and the opt-in cmd without a vault client', () => {
+    expect(Object.keys(createSecretResolvers({ rootPath: rootDir }))).toEqual(['file', 'sops'])
+    expect(Object.keys(createSecretResolvers({ rootPath: rootDir, enabled: { cmd: true } }))).toEqual([
+      'file',
+      'cmd',
+      'sops',
+    ])
+    expect(Object.keys(createSecretResolvers({ rootPath: rootDir, enabled: { file: false } }))).toEqual(['sops'])
+  })
+
+  describe('file', () => {
+    it('should read files relative to the root without the trailing newline', async () => {
+      await mkdir(join(rootDir, 'secrets'))
+      await writeFile(join(rootDir, 'secrets', 'token'), 's3cr3t\n')
+      const { file } = createSecretResolvers({ rootPath: rootDir })
+      expect(await file!.resolve('./secrets/token')).toBe('s3cr3t')
+    })
+
+    it('should refuse files outside the root unless allowed', async () => {
+      const outside = join(rootDir, '..', `${basename(rootDir)}-outside`)
+      await writeFile(outside, 'leaked')
+      try {
+        const { file } = createSecretResolvers({ rootPath: rootDir })
+        await expect(file!.resolve(outside)).rejects.toThrow(InvalidReferenceError)
+        await expect(file!.resolve(`../${basename(outside)}`)).rejects.toThrow('the file is outside the monorepo root')
+
+        const allowed = createSecretResolvers({ rootPath: rootDir, file: { allowOutsideRoot: true } })
+        expect(await allowed.file!.resolve(outside)).toBe('leaked')
+      } finally {
+        await rm(outside, { force: true })
+      }
+    })
+
+    it('should report missing files as unreadable', async () => {
+      const { file } = createSecretResolvers({ rootPath: rootDir })
+      await expect(file!.resolve('./missing')).rejects.toThrow("Cannot read secret file './missing'")
+    })
+  })
+
+  describe('cmd', () => {
+    it('should return the stdout of the command run in the root', async () => {
+      await writeFile(join(rootDir, 'db-password'), 'hunter2')
+      const { cmd } = createSecretResolvers({ rootPath: rootDir, enabled: { cmd: true } })
+      expect(await cmd!.resolve('cat db-password && echo')).toBe('hunter2')
+    })
+
+    it('should report failing commands with their stderr', async () => {
+      const { cmd } = createSecretResolvers({ rootPath: rootDir, enabled: { cmd: true } })
+      await expect(cmd!.resolve('echo "not logged in" >&2; exit 1')).rejects.toThrow(
+        `Command 'echo "not logged in" >&2; exit 1' failed: not logged in`,
+      )
+    })
+
+    it('should run each command once', async () => {
+      const { cmd } = createSecretResolvers({ rootPath: rootDir, enabled: { cmd: true } })
+      const command = 'echo run >> runs.log && echo token'
+      expect(await Promise.all([cmd!.resolve(command), cmd!.resolve(command)])).toEqual(['token', 'token'])
+      expect(await cmd!.resolve(command)).toBe('token')
+      expect(await readFile(join(rootDir, 'runs.log'), 'utf-8')).toBe('run\n')
+    })
+
+    it('should reject empty commands as invalid', async () => {
+      const { cmd } = createSecretResolvers({ rootPath: rootDir, enabled: { cmd: true } })
+      await expect(cmd!.resolve(' ')).rejects.toThrow(InvalidReferenceError)
+    })
+  })
+
+  describe('sops', () => {
+    // stands in for sops: prints the file, and records the age key file it was given
+    async function fakeSops() {
+      const binary = join(rootDir, 'fake-sops')
+      await writeFile(binary, '#!/bin/sh\necho "$SOPS_AGE_KEY_FILE" > "$(dirname "$0")/age-key-file"\ncat "$2"\n')
+      await chmod(binary, 0o755)
+      return binary
+    }
+
+    it('should select nested values of the decrypted file', async () => {
+      await writeFile(join(rootDir, 'secrets.enc.yaml'), 'db:\n  password: p4ss\n  port: 5432\n')
+      const { sops } = createSecretResolvers({
+        rootPath: rootDir,
+        sops: { binary: await fakeSops(), ageKeyFile: './keys.txt' },
+      })
+      expect(await sops!.resolve('./secrets.enc.yaml#db.password')).toBe('p4ss')
+      expect(await sops!.resolve('./secrets.enc.yaml#db.port')).toBe('5432')
+      expect((await readFile(join(rootDir, 'age-key-file'), 'utf-8')).trim()).toBe(join(rootDir, 'keys.txt'))
+    })
+
+    it('should report missing values and invalid references', async () => {
+      await writeFile(join(rootDir, 'secrets.enc.yaml'), 'db:\n  password: p4ss\n')
+      const { sops } = createSecretResolvers({ rootPath: rootDir, sops: { binary: await fakeSops() } })
+      await expect(sops!.resolve('./secrets.enc.yaml#db')).rejects.toThrow("'./secrets.enc.yaml' has no value at 'db'")
+      await expect(sops!.resolve('./secrets.enc.yaml')).rejects.toThrow(InvalidReferenceError)
+    })
+
+    it('should only decrypt files inside the root unless allowed', async () => {
+      const outside = await mkdtemp(join(tmpdir(), 'sops-outside-'))
+      try {
+        await writeFile(join(outside, 'secrets.enc.yaml'), 'db:\n  password: p4ss\n')
+        const reference = `${join(outside, 'secrets.enc.yaml')}#db.password`
+        const binary = await fakeSops()
+        const { sops } = createSecretResolvers({ rootPath: rootDir, sops: { binary } })
+        await expect(sops!.resolve(reference)).rejects.toThrow(
+          'the file is outside the monorepo root. Set resolvers.sops.allow_outside_root in root ig.yaml to allow it',
+        )
+        await expect(sops!.resolve('../secrets.enc.yaml#db.password')).rejects.toThrow(InvalidReferenceError)
+
+        const allowed = createSecretResolvers({ rootPath: rootDir, sops: { binary, allowOutsideRoot: true } })
+        expect(await allowed.sops!.resolve(reference)).toBe('p4ss')
+      } finally {
+        await rm(outside, { recursive: true })
+      }
+    })
+
+    it('should report decryption failures', async () => {
+      const { sops } = createSecretResolvers({ rootPath: rootDir, sops: { binary: join(rootDir, 'missing-sops') } })
+      const error = await sops!.resolve('./secrets.enc.yaml#db').catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(UserError)
+      expect(error).not.toBeInstanceOf(InvalidReferenceError)
+      expect((error as Error).message).toContain("sops cannot decrypt './secrets.enc.yaml'")
+    })
+  })
+
+  describe('vault-dynamic', () => {
+    function fakeVaultClient() {
+      return {
+        getDynamicSecret: vi.fn(async () => 'dynamic-password'),
+        revokeLeases: vi.fn(async () => {}),
+      } as unknown as VaultClient
+    }
+
+    it('should revoke leases when the resolvers are released', async () => {
+      const client = fakeVaultClient()
+      const resolvers = createSecretResolvers({ rootPath: rootDir, vaultClient: client })
+      expect(await resolvers['vault-dynamic']!.resolve('database/creds/app#password')).toBe('dynamic-password')
+      expect(client.getDynamicSecret).toHaveBeenCalledWith('database/creds/app', 'password')
+
+      await releaseSecretResolvers()
+      await releaseSecretResolvers()
+      expect(client.revokeLeases).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep leases when revocation is disabled', async () => {
+      const client = fakeVaultClient()
+      createSecretResolvers({ rootPath: rootDir, vaultClient: client, vaultDynamic: { revoke: false } })
+      await releaseSecretResolvers()
+      expect(client.revokeLeases).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,253 @@
+import { exec, execFile } from 'child_process'
+import { readFile } from 'fs/promises'
+import { isAbsolute, relative, resolve } from 'path'
+import { promisify } from 'util'
+import { parse as parseYaml } from 'yaml'
+import { UserError } from './errors.js'
+import { logger } from './logger.js'
+import type { VaultClient } from './vault-client.js'
+
+const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
+
+export const RESOLVER_SCHEMES = ['vault', 'vault-dynamic', 'file', 'cmd', 'sops'] as const
+export type ResolverScheme = (typeof RESOLVER_SCHEMES)[number]
+
+/**
+ * Resolves the `${<scheme>:<reference>}` references of one scheme. A UserError means the value cannot be
+ * read, and a `:-` default applies; an InvalidReferenceError means the reference itself is wrong.
+ */
+export interface SecretResolver {
+  resolve(reference: string): Promise<string>
+  // releases what resolving acquired for the run, such as dynamic secret leases
+  release?(): Promise<void>
+  // true to keep its references as written when the config is read, see resolveDeferredReferences
+  deferred?: boolean
+}
+
+// by scheme; a scheme without a resolver is disabled or, for vault, not configured
+export type SecretResolvers = Partial<Record<ResolverScheme, SecretResolver>>
+
+export class InvalidReferenceError extends UserError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidReferenceError'
+  }
+}
+
+export interface SecretResolversOptions {
+  // base of relative file and sops paths, and working directory of commands
+  rootPath: string
+  vaultClient?: VaultClient | undefined
+  // per scheme: false disables it; opt-in schemes need true
+  enabled?: Partial<Record<ResolverScheme, boolean | undefined>>
+  // true allows file references outside the root, e.g. absolute paths
+  file?: { allowOutsideRoot?: boolean | undefined }
+  cmd?: { timeoutSeconds?: number | undefined }
+  // false keeps dynamic secret leases after the run instead of revoking them
+  vaultDynamic?: { revoke?: boolean | undefined }
+  sops?: { binary?: string | undefined; ageKeyFile?: string | undefined; allowOutsideRoot?: boolean | undefined }
+}
+
+const DEFAULT_CMD_TIMEOUT_SECONDS = 30
+
+// schemes disabled unless enabled explicitly: commands run by any ig.yaml in the repo need the root's consent
+const OPT_IN_SCHEMES: ResolverScheme[] = ['cmd']
+
+// resolvers with something to release when the run ends, see releaseSecretResolvers
+const releasable = new Set<SecretResolver>()
+
+export function createSecretResolvers(options: SecretResolversOptions): SecretResolvers {
+  const enabled = (scheme: ResolverScheme) => options.enabled?.[scheme] ?? !OPT_IN_SCHEMES.includes(scheme)
+  const resolvers: SecretResolvers = {}
+  if (enabled('vault') && options.vaultClient) {
+    resolvers.vault = createVaultResolver(options.vaultClient)
+  }
+  if (enabled('vault-dynamic') && options.vaultClient) {
+    resolvers['vault-dynamic'] = createDynamicVaultResolver(options.vaultClient, options.vaultDynamic?.revoke ?? true)
+  }
+  if (enabled('file')) {
+    resolvers.file = createFileResolver(options.rootPath, options.file?.allowOutsideRoot ?? false)
+  }
+  if (enabled('cmd')) {
+    resolvers.cmd = createCommandResolver(options.rootPath, options.cmd?.timeoutSeconds ?? DEFAULT_CMD_TIMEOUT_SECONDS)
+  }
+  if (enabled('sops')) {
+    resolvers.sops = createSopsResolver(
+      options.rootPath,
+      options.sops?.binary ?? 'sops',
+      options.sops?.ageKeyFile,
+      options.sops?.allowOutsideRoot ?? false,
+    )
+  }
+  for (const resolver of Object.values(resolvers)) {
+    if (resolver.release) releasable.add(resolver)
+  }
+  return resolvers
+}
+
+// releases what the resolvers created so far acquired, e.g. revokes the leases of dynamic Vault secrets
+export async function releaseSecretResolvers(): Promise<void> {
+  const resolvers = [...releasable]
+  releasable.clear()
+  for (const resolver of resolvers) {
+    await resolver.release?.()
+  }
+}
+
+// `path#field` of a KV secret
+export function createVaultResolver(client: VaultClient): SecretResolver {
+  return {
+    resolve: async (reference) => {
+      const { path, field } = splitField('vault', reference)
+      return client.getSecret(path, field)
+    },
+  }
+}
+
+// `path#field` of a dynamic secret such as `database/creds/app#password`; with `revoke`, its lease is revoked on release
+export function createDynamicVaultResolver(client: VaultClient, revoke: boolean): SecretResolver {
+  return {
+    // credentials are created only for the env that runs, just before they are used
+    deferred: true,
+    resolve: async (reference) => {
+      const { path, field } = splitField('vault-dynamic', reference)
+      return client.getDynamicSecret(path, field)
+    },
+    ...(revoke ? { release: () => client.revokeLeases() } : {}),
+  }
+}
+
+// content of a file relative to the root, without its trailing newline; files outside the root need `allowOutsideRoot`
+export function createFileResolver(rootPath: string, allowOutsideRoot: boolean): SecretResolver {
+  return {
+    resolve: async (reference) => {
+      if (!reference) {
+        throw new InvalidReferenceError("Invalid file reference '${file:}': path must not be empty")
+      }
+      const path = resolveInRoot('file', rootPath, reference, reference, allowOutsideRoot)
+      try {
+        return trimTrailingNewline(await readFile(path, 'utf-8'))
+      } catch (error) {
+        throw new UserError(`Cannot read secret file '${reference}': ${(error as Error).message}`)
+      }
+    },
+  }
+}
+
+// stdout of a shell command run in the root, without its trailing newline; each command runs once per run
+export function createCommandResolver(rootPath: string, timeoutSeconds: number): SecretResolver {
+  const outputs = new Map<string, Promise<string>>()
+  const run = async (command: string): Promise<string> => {
+    logger.debug(`[cmd] running '${command}'...`)
+    try {
+      const { stdout } = await execAsync(command, { cwd: rootPath, timeout: timeoutSeconds * 1000 })
+      return trimTrailingNewline(stdout)
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new UserError(`Command '${command}' failed: ${stderr || (error as Error).message}`)
+    }
+  }
+
+  return {
+    resolve: async (command) => {
+      if (!command.trim()) {
+        throw new InvalidReferenceError("Invalid command reference '${cmd:}': command must not be empty")
+      }
+      let output = outputs.get(command)
+      if (!output) {
+        output = run(command)
+        outputs.set(command, output)
+      }
+      return output
+    },
+  }
+}
+
+/*
+  `file#path.to.value` of a SOPS encrypted YAML or JSON file, decrypted once per file with the local sops binary.
+  sops finds age keys in SOPS_AGE_KEY or SOPS_AGE_KEY_FILE; a configured key file sets the latter.
+  Like file references, files outside the root need `allowOutsideRoot`.
+ */
+export function createSopsResolver(
+  rootPath: string,
+  binary: string,
+  ageKeyFile: string | undefined,
+  allowOutsideRoot: boolean,
+): SecretResolver {
+  const decrypted = new Map<string, Promise<unknown>>()
+  const decrypt = async (file: string, path: string): Promise<unknown> => {
+    const env = ageKeyFile ? { ...process.env, SOPS_AGE_KEY_FILE: resolve(rootPath, ageKeyFile) } : process.env
+    let output: string
+    try {
+      const args = ['--decrypt', path]
+      output = (await execFileAsync(binary, args, { cwd: rootPath, env, maxBuffer: 16 * 1024 * 1024 })).stdout
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new UserError(`sops cannot decrypt '${file}': ${stderr || (error as Error).message}`)
+    }
+    try {
+      return parseYaml(output)
+    } catch (error) {
+      throw new UserError(`Decrypted '${file}' is not YAML or JSON: ${(error as Error).message}`)
+    }
+  }
+
+  return {
+    resolve: async (reference) => {
+      const { path: file, field } = splitField('sops', reference)
+      let data = decrypted.get(file)
+      if (!data) {
+        data = decrypt(file, resolveInRoot('sops', rootPath, file, reference, allowOutsideRoot))
+        decrypted.set(file, data)
+      }
+      let value = await data
+      for (const key of field.split('.')) {
+        value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+      }
+      if (value === undefined || value === null || typeof value === 'object') {
+        throw new UserError(`'${file}' has no value at '${field}'`)
+      }
+      return String(value)
+    },
+  }
+}
+
+// absolute path of a file reference, which must be inside the root unless `allowOutsideRoot`
+function resolveInRoot(
+  scheme: ResolverScheme,
+  rootPath: string,
+  file: string,
+  reference: string,
+  allowOutsideRoot: boolean,
+): string {
+  const path = resolve(rootPath, file)
+  const relativePath = relative(rootPath, path)
+  if (!allowOutsideRoot && (relativePath.startsWith('..') || isAbsolute(relativePath))) {
+    throw new InvalidReferenceError(
+      `Invalid ${scheme} reference '\${${scheme}:${reference}}': the file is outside the monorepo root. Set resolvers.${scheme}.allow_outside_root in root ig.yaml to allow it`,
+    )
+  }
+  return path
+}
+
+function splitField(scheme: ResolverScheme, reference: string): { path: string; field: string } {
+  const hashIndex = reference.indexOf('#')
+  if (hashIndex === -1) {
+    throw new InvalidReferenceError(
+      `Invalid ${scheme} reference '\${${scheme}:${reference}}': expected format \${${scheme}:path#field}`,
+    )
+  }
+  const path = reference.slice(0, hashIndex)
+  const field = reference.slice(hashIndex + 1)
+  if (!path || !field) {
+    throw new InvalidReferenceError(
+      `Invalid ${scheme} reference '\${${scheme}:${reference}}': path and field must not be empty`,
+    )
+  }
+  return { path, field }
+}
+
+function trimTrailingNewline(value: string): string {
+  return value.replace(/\r?\n$/, '')
+}
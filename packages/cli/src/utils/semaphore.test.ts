@@ -0,0 +1,31 @@
+import { Semaphore } from './semaphore'
+
+describe('Semaphore', () => {
+  it('should never run more than the permitted number of holders', async () => {
+    const semaphore = new Semaphore(2)
+    let running = 0
+    let maxRunning = 0
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map(async () => {
+        const release = await semaphore.acquire()
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        running--
+        release()
+      }),
+    )
+
+    expect(maxRunning).toBe(2)
+    expect(semaphore.available).toBe(2)
+  })
+
+  it('should not limit holders when unbounded', async () => {
+    const semaphore = new Semaphore(Infinity)
+
+    await Promise.all([semaphore.acquire(), semaphore.acquire(), semaphore.acquire()])
+
+    expect(semaphore.available).toBe(Infinity)
+  })
+})
@@ -0,0 +1,33 @@
+export class Semaphore {
+  private _available: number
+  private _waiting: (() => void)[] = []
+
+  // permits may be Infinity for an unbounded semaphore
+  public constructor(permits: number) {
+    this._available = permits
+  }
+
+  public get available(): number {
+    return this._available
+  }
+
+  public async acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      const tryAcquire = () => {
+        if (this._available > 0) {
+          this._available--
+          resolve(this.release.bind(this))
+        } else {
+          this._waiting.push(tryAcquire)
+        }
+      }
+      tryAcquire()
+    })
+  }
+
+  private release() {
+    this._available++
+    const next = this._waiting.shift()
+    if (next) next()
+  }
+}
@@ -1,4 +1,4 @@
-import { sortGraphNodesByLevels } from './utils'
+import { runGraphNodes, sortGraphNodesByLevels } from './utils'
 
 describe('sortWorkspacesByLevels', () => {
   it('should handle empty workspaces', () => {
@@ -238,3 +238,107 @@ describe('sortWorkspacesByLevels', () => {
     expect(result[0][2]).toBe(C)
   })
 })
+
+describe('runGraphNodes', () => {
+  it('should start a node as soon as its own dependencies are done', async () => {
+    const slow = { id: 'slow' }
+    const fast = { id: 'fast' }
+    const afterFast = { id: 'afterFast' }
+    const dependencies = new Map([[afterFast, [fast]]])
+
+    const order: string[] = []
+    let releaseSlow: () => void = () => {}
+    const slowDone = new Promise<void>((resolve) => (releaseSlow = resolve))
+
+    const results = await runGraphNodes(
+      [slow, fast, afterFast],
+      (node) => dependencies.get(node) || [],
+      async (node) => {
+        if (node === slow) await slowDone
+        if (node === afterFast) releaseSlow()
+        order.push(node.id)
+        return true
+      },
+    )
+
+    expect(order).toEqual(['fast', 'afterFast', 'slow'])
+    expect([...results.values()].every((r) => r.status === 'done')).toBe(true)
+  })
+
+  it('should skip dependants of a failed node and keep running unrelated nodes', async () => {
+    const A = { id: 'A' }
+    const B = { id: 'B' }
+    const C = { id: 'C' }
+    const dependencies = new Map([[B, [A]]])
+    const ran: string[] = []
+
+    const results = await runGraphNodes(
+      [A, B, C],
+      (node) => dependencies.get(node) || [],
+      async (node) => {
+        ran.push(node.id)
+        if (node === A) throw new Error('boom')
+        return true
+      },
+    )
+
+    expect(ran).toEqual(['A', 'C'])
+    expect(results.get(A)).toEqual({ status: 'failed', error: new Error('boom') })
+    expect(results.get(B)).toEqual({ status: 'skipped' })
+    expect(results.get(C)).toEqual({ status: 'done' })
+  })
+
+  it('should skip dependants of a held node', async () => {
+    const A = { id: 'A' }
+    const B = { id: 'B' }
+    const dependencies = new Map([[B, [A]]])
+
+    const results = await runGraphNodes(
+      [A, B],
+      (node) => dependencies.get(node) || [],
+      async (node) => node !== A,
+    )
+
+    expect(results.get(A)).toEqual({ status: 'held' })
+    expect(results.get(B)).toEqual({ status: 'skipped' })
+  })
+
+  it('should treat dependencies outside the node list as done', async () => {
+    const A = { id: 'A' }
+    const B = { id: 'B' }
+
+    const results = await runGraphNodes(
+      [B],
+      () => [A],
+      async () => true,
+    )
+
+    expect(results.get(B)).toEqual({ status: 'done' })
+  })
+
+  it('should run each node once in a diamond', async () => {
+    const A = { id: 'A' }
+    const B = { id: 'B' }
+    const C = { id: 'C' }
+    const D = { id: 'D' }
+    const dependencies = new Map([
+      [B, [A]],
+      [C, [A]],
+      [D, [B, C]],
+    ])
+    const ran: string[] = []
+
+    await runGraphNodes(
+      [A, B, C, D],
+      (node) => dependencies.get(node) || [],
+      async (node) => {
+        ran.push(node.id)
+        return true
+      },
+    )
+
+    expect(ran).toHaveLength(4)
+    expect(ran[0]).toBe('A')
+    expect(ran[3]).toBe('D')
+  })
+})
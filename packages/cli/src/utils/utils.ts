@@ -38,3 +38,46 @@ export function sortGraphNodesByLevels<T>(nodes: T[], dependencies: (n: T) => T[
 
   return levels
 }
+
+export type GraphNodeResult =
+  | { status: 'done' }
+  | { status: 'held' }
+  | { status: 'skipped' }
+  | { status: 'failed'; error: unknown }
+
+/**
+ * Runs every node as soon as all of its own dependencies are done, instead of waiting for a whole level.
+ * `run` resolves to false when a node was not completed (e.g. it awaits approval) — its dependants are skipped,
+ * the same as dependants of a failed node. Dependencies outside `nodes` are treated as already done.
+ * The graph must be acyclic (see sortGraphNodesByLevels).
+ */
+export async function runGraphNodes<T>(
+  nodes: T[],
+  dependencies: (n: T) => T[],
+  run: (n: T) => Promise<boolean>,
+): Promise<Map<T, GraphNodeResult>> {
+  const scheduled = new Map<T, Promise<GraphNodeResult>>()
+
+  const schedule = (node: T): Promise<GraphNodeResult> => {
+    let result = scheduled.get(node)
+    if (!result) {
+      result = (async (): Promise<GraphNodeResult> => {
+        const deps = dependencies(node).filter((dep) => nodes.includes(dep))
+        const depResults = await Promise.all(deps.map(schedule))
+        if (depResults.some((r) => r.status !== 'done')) {
+          return { status: 'skipped' }
+        }
+        try {
+          return (await run(node)) ? { status: 'done' } : { status: 'held' }
+        } catch (error) {
+          return { status: 'failed', error }
+        }
+      })()
+      scheduled.set(node, result)
+    }
+    return result
+  }
+
+  const results = await Promise.all(nodes.map(schedule))
+  return new Map(nodes.map((node, i) => [node, results[i]]))
+}
@@ -1,5 +1,6 @@
 import { VaultClient } from './vault-client.js'
 import { UserError } from './errors.js'
+import { logger } from './logger.js'
 import { readFile } from 'fs/promises'
 
 vi.mock('fs/promises', () => ({
@@ -18,6 +19,15 @@ function kvResponse(data: Record<string, unknown>) {
   return new Response(JSON.stringify({ data: { data } }), { status: 200 })
 }
 
+function loginResponse(token: string, leaseDuration = 3600) {
+  return new Response(
+    JSON.stringify({ auth: { client_token: token, lease_duration: leaseDuration, renewable: true } }),
+    {
+      status: 200,
+    },
+  )
+}
+
 function errorResponse(status: number, body = '') {
   return new Response(body, { status })
 }
@@ -143,7 +153,7 @@ describe('VaultClient', () => {
       await Promise.all([client.getSecret('secret/data/a', 'k'), client.getSecret('secret/data/b', 'k')])
 
       expect(mockedReadFile).toHaveBeenCalledTimes(1)
-      expect(fetchCount).toBe(2) // two different paths
+      expect(fetchCount).toBe(3) // token lookup and two different paths
     })
   })
 
@@ -161,7 +171,7 @@ describe('VaultClient', () => {
 
       expect(r1).toBe('a')
       expect(r2).toBe('b')
-      expect(fetchCount).toBe(1)
+      expect(fetchCount).toBe(2) // token lookup and one read
     })
 
     it('should throw on missing field', async () => {
@@ -246,4 +256,332 @@ describe('VaultClient', () => {
       await expect(client.getSecret('secret/data/app', 'k')).rejects.toThrow('missing client_token')
     })
   })
+
+  describe('KV v1 and namespaces', () => {
+    it('should read KV v1 secrets from the top-level data', async () => {
+      mockFetch(() => new Response(JSON.stringify({ data: { password: 'v1-secret' } }), { status: 200 }))
+      const client = new VaultClient(VAULT_ADDR, { kvVersion: 1, env: { VAULT_TOKEN: 'tok' } })
+
+      expect(await client.getSecret('kv/app', 'password')).toBe('v1-secret')
+    })
+
+    it('should send the namespace with logins and reads', async () => {
+      mockedReadFile.mockRejectedValue(new Error('ENOENT'))
+      mockFetch((url) => (url.includes('/login') ? loginResponse('ns-token') : kvResponse({ k: 'v' })))
+      const client = new VaultClient(VAULT_ADDR, {
+        namespace: 'team-a',
+        role: 'r',
+        env: { VAULT_ID_TOKEN: 'jwt' },
+      })
+
+      await client.getSecret('secret/data/app', 'k')
+
+      for (const [, init] of vi.mocked(fetch).mock.calls) {
+        expect(init?.headers).toMatchObject({ 'X-Vault-Namespace': 'team-a' })
+      }
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { 'X-Vault-Token': 'ns-token', 'X-Vault-Namespace': 'team-a' } }),
+      )
+    })
+  })
+
+  describe('auth methods', () => {
+    it('should log in with AppRole', async () => {
+      mockFetch((url) =>
+        url.includes('/auth/approle/login') ? loginResponse('approle-token') : kvResponse({ k: 'v' }),
+      )
+      const client = new VaultClient(VAULT_ADDR, {
+        auth: { method: 'approle', roleId: 'ci-runner' },
+        env: { VAULT_TOKEN: 'ignored', VAULT_SECRET_ID: 'secret-id' },
+      })
+
+      await client.getSecret('secret/data/app', 'k')
+
+      expect(vi.mocked(fetch)).toHaveBeenCalledWith(
+        `${VAULT_ADDR}/v1/auth/approle/login`,
+        expect.objectContaining({ body: JSON.stringify({ role_id: 'ci-runner', secret_id: 'secret-id' }) }),
+      )
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { 'X-Vault-Token': 'approle-token' } }),
+      )
+    })
+
+    it('should require an AppRole secret id', async () => {
+      const client = new VaultClient(VAULT_ADDR, { auth: { method: 'approle' }, env: { VAULT_ROLE_ID: 'id' } })
+
+      await expect(client.getSecret('secret/data/app', 'k')).rejects.toThrow(
+        'AppRole auth requires a role id and a secret id',
+      )
+    })
+
+    it('should log in with the Kubernetes service account token', async () => {
+      mockedReadFile.mockResolvedValue('sa-jwt\n')
+      mockFetch((url) => (url.includes('/auth/k8s/login') ? loginResponse('k8s-token') : kvResponse({ k: 'v' })))
+      const client = new VaultClient(VAULT_ADDR, {
+        auth: { method: 'kubernetes', mount: 'k8s', role: 'deployer', tokenPath: '/tmp/sa-token' },
+        env: {},
+      })
+
+      await client.getSecret('secret/data/app', 'k')
+
+      expect(mockedReadFile).toHaveBeenCalledWith('/tmp/sa-token', 'utf-8')
+      expect(vi.mocked(fetch)).toHaveBeenCalledWith(
+        `${VAULT_ADDR}/v1/auth/k8s/login`,
+        expect.objectContaining({ body: JSON.stringify({ role: 'deployer', jwt: 'sa-jwt' }) }),
+      )
+    })
+
+    it('should not fall back to JWT auth with token auth', async () => {
+      mockedReadFile.mockRejectedValue(new Error('ENOENT'))
+      const client = new VaultClient(VAULT_ADDR, { auth: { method: 'token' }, env: { VAULT_ID_TOKEN: 'jwt' } })
+
+      await expect(client.getSecret('secret/data/app', 'k')).rejects.toThrow(
+        'no token found. Set VAULT_TOKEN or run `vault login`',
+      )
+    })
+  })
+
+  describe('token renewal', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    function approleClient() {
+      return new VaultClient(VAULT_ADDR, {
+        auth: { method: 'approle', roleId: 'id' },
+        env: { VAULT_SECRET_ID: 'secret' },
+      })
+    }
+
+    it('should renew a login token once two thirds of its TTL have passed', async () => {
+      mockFetch((url) => {
+        if (url.includes('/login')) return loginResponse('login-token', 300)
+        if (url.includes('/renew-self')) return loginResponse('renewed-token', 300)
+        return kvResponse({ k: 'v' })
+      })
+      const client = approleClient()
+
+      await client.getSecret('secret/data/a', 'k')
+      vi.advanceTimersByTime(150_000)
+      await client.getSecret('secret/data/b', 'k')
+      vi.advanceTimersByTime(60_000)
+      await client.getSecret('secret/data/c', 'k')
+
+      const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url).replace(`${VAULT_ADDR}/v1/`, ''))
+      expect(urls).toEqual([
+        'auth/approle/login',
+        'secret/data/a',
+        'secret/data/b',
+        'auth/token/renew-self',
+        'secret/data/c',
+      ])
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { 'X-Vault-Token': 'renewed-token' } }),
+      )
+    })
+
+    it('should log in again when the token cannot be renewed', async () => {
+      let logins = 0
+      mockFetch((url) => {
+        if (url.includes('/login')) return loginResponse(`login-${++logins}`, 60)
+        if (url.includes('/renew-self')) return errorResponse(403)
+        return kvResponse({ k: 'v' })
+      })
+      const client = approleClient()
+
+      await client.getSecret('secret/data/a', 'k')
+      vi.advanceTimersByTime(120_000)
+      await client.getSecret('secret/data/b', 'k')
+
+      expect(logins).toBe(2)
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { 'X-Vault-Token': 'login-2' } }),
+      )
+    })
+
+    it('should renew a VAULT_TOKEN using the TTL it was looked up with', async () => {
+      mockFetch((url) => {
+        if (url.endsWith('/lookup-self')) {
+          return new Response(JSON.stringify({ data: { ttl: 300, renewable: true } }), { status: 200 })
+        }
+        if (url.endsWith('/renew-self')) return loginResponse('tok', 300)
+        return kvResponse({ k: 'v' })
+      })
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await client.getSecret('secret/data/a', 'k')
+      vi.advanceTimersByTime(210_000)
+      await client.getSecret('secret/data/b', 'k')
+
+      const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url).replace(`${VAULT_ADDR}/v1/`, ''))
+      expect(urls).toEqual(['auth/token/lookup-self', 'secret/data/a', 'auth/token/renew-self', 'secret/data/b'])
+    })
+
+    it('should use a given token as it is when it cannot be renewed', async () => {
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+      mockFetch((url) => {
+        if (url.endsWith('/lookup-self')) {
+          return new Response(JSON.stringify({ data: { ttl: 60, renewable: false } }), { status: 200 })
+        }
+        return kvResponse({ k: 'v' })
+      })
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await client.getSecret('secret/data/a', 'k')
+      vi.advanceTimersByTime(50_000)
+      await client.getSecret('secret/data/b', 'k')
+      await client.getSecret('secret/data/c', 'k')
+
+      const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url).replace(`${VAULT_ADDR}/v1/`, ''))
+      expect(urls).toEqual(['auth/token/lookup-self', 'secret/data/a', 'secret/data/b', 'secret/data/c'])
+      expect(warn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should log in again when a login token is denied', async () => {
+      let logins = 0
+      mockFetch((url, init) => {
+        if (url.includes('/login')) return loginResponse(`login-${++logins}`, 0)
+        const headers = init?.headers as Record<string, string>
+        return headers['X-Vault-Token'] === 'login-1' ? errorResponse(403) : kvResponse({ k: 'v' })
+      })
+
+      expect(await approleClient().getSecret('secret/data/a', 'k')).toBe('v')
+      expect(logins).toBe(2)
+    })
+  })
+
+  describe('dynamic secrets', () => {
+    function dynamicResponse(leaseId: string, data: Record<string, unknown>) {
+      return new Response(JSON.stringify({ lease_id: leaseId, lease_duration: 3600, renewable: true, data }), {
+        status: 200,
+      })
+    }
+
+    it('should read each path once and revoke its lease', async () => {
+      let reads = 0
+      mockFetch((url) => {
+        if (url.endsWith('/sys/leases/revoke')) return new Response(null, { status: 204 })
+        if (url.endsWith('/auth/token/lookup-self')) return errorResponse(403)
+        reads++
+        return dynamicResponse(`database/creds/app/${reads}`, { username: `user-${reads}`, password: 'pw' })
+      })
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      expect(await client.getDynamicSecret('database/creds/app', 'username')).toBe('user-1')
+      expect(await client.getDynamicSecret('database/creds/app', 'password')).toBe('pw')
+      await client.revokeLeases()
+      await client.revokeLeases()
+
+      expect(reads).toBe(1)
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        `${VAULT_ADDR}/v1/sys/leases/revoke`,
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ lease_id: 'database/creds/app/1' }) }),
+      )
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(3) // token lookup, read and revoke
+    })
+
+    it('should warn about leases it cannot revoke', async () => {
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+      mockFetch((url) =>
+        url.endsWith('/sys/leases/revoke') ? errorResponse(500) : dynamicResponse('aws/creds/deploy/abc', { k: 'v' }),
+      )
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await client.getDynamicSecret('aws/creds/deploy', 'k')
+      await client.revokeLeases()
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('vault lease revoke aws/creds/deploy/abc'))
+    })
+
+    it('should read a path again after a failed read', async () => {
+      let reads = 0
+      mockFetch((url) => {
+        if (url.endsWith('/auth/token/lookup-self')) return errorResponse(403)
+        return ++reads === 1 ? errorResponse(500) : dynamicResponse('database/creds/app/2', { username: 'user' })
+      })
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await expect(client.getDynamicSecret('database/creds/app', 'username')).rejects.toThrow(UserError)
+      expect(await client.getDynamicSecret('database/creds/app', 'username')).toBe('user')
+      expect(reads).toBe(2)
+    })
+  })
+
+  describe('writing secrets', () => {
+    it('should merge values into the KV v2 secret', async () => {
+      mockFetch((_url, init) =>
+        init?.method === 'POST' ? new Response('{}', { status: 200 }) : kvResponse({ host: 'old', owner: 'team-a' }),
+      )
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      expect(await client.writeSecret('secret/data/db', { host: 'db.internal' })).toBe(true)
+
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        `${VAULT_ADDR}/v1/secret/data/db`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ data: { host: 'db.internal', owner: 'team-a' } }),
+        }),
+      )
+    })
+
+    it('should skip writes when the values have not changed', async () => {
+      mockFetch(() => kvResponse({ host: 'db.internal' }))
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      expect(await client.writeSecret('secret/data/db', { host: 'db.internal' })).toBe(false)
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(2) // token lookup and read
+    })
+
+    it('should create missing KV v1 secrets', async () => {
+      mockFetch((_url, init) => (init?.method === 'POST' ? new Response(null, { status: 204 }) : errorResponse(404)))
+      const client = new VaultClient(VAULT_ADDR, { kvVersion: 1, env: { VAULT_TOKEN: 'tok' } })
+
+      expect(await client.writeSecret('kv/db', { host: 'db.internal' })).toBe(true)
+
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        `${VAULT_ADDR}/v1/kv/db`,
+        expect.objectContaining({ body: JSON.stringify({ host: 'db.internal' }) }),
+      )
+    })
+
+    it('should keep the values of concurrent writes to the same path', async () => {
+      let stored: Record<string, unknown> = { owner: 'team-a' }
+      mockFetch(async (_url, init) => {
+        if (init?.method === 'POST') {
+          stored = (JSON.parse(String(init.body)) as { data: Record<string, unknown> }).data
+          return new Response('{}', { status: 200 })
+        }
+        const response = kvResponse(stored)
+        // let the other write read the secret before this one is written
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        return response
+      })
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await Promise.all([
+        client.writeSecret('secret/data/db', { host: 'db.internal' }),
+        client.writeSecret('secret/data/db', { port: '5432' }),
+      ])
+
+      expect(stored).toEqual({ owner: 'team-a', host: 'db.internal', port: '5432' })
+    })
+
+    it('should throw when writing is denied', async () => {
+      mockFetch((_url, init) => (init?.method === 'POST' ? errorResponse(403) : errorResponse(404)))
+      const client = new VaultClient(VAULT_ADDR, { env: { VAULT_TOKEN: 'tok' } })
+
+      await expect(client.writeSecret('secret/data/db', { host: 'x' })).rejects.toThrow(
+        "Vault access denied for writing 'secret/data/db'",
+      )
+    })
+  })
 })
@@ -3,60 +3,198 @@ import { homedir } from 'os'
 import { join } from 'path'
 import { UserError } from './errors.js'
 import { logger } from './logger.js'
+import { Mutex } from './mutex.js'
+
+export type VaultAuthMethod = 'approle' | 'kubernetes' | 'jwt' | 'token'
+type LoginMethod = Exclude<VaultAuthMethod, 'token'>
+
+export interface VaultAuthOptions {
+  method: VaultAuthMethod
+  // auth mount path, defaults to the method name
+  mount?: string | undefined
+  // jwt and kubernetes role
+  role?: string | undefined
+  // approle role id, falls back to VAULT_ROLE_ID; the secret id is read from VAULT_SECRET_ID
+  roleId?: string | undefined
+  // kubernetes service account token
+  tokenPath?: string | undefined
+}
 
 export interface VaultClientOptions {
   role?: string | undefined
+  namespace?: string | undefined
+  kvVersion?: 1 | 2 | undefined
+  // without an auth method, VAULT_TOKEN, ~/.vault-token and JWT auth via VAULT_ID_TOKEN are tried in turn
+  auth?: VaultAuthOptions | undefined
   env?: Record<string, string | undefined>
 }
 
+interface VaultToken {
+  token: string
+  // set for tokens from a login, which is repeated when the token expires or is revoked; unset for given tokens
+  method?: LoginMethod | undefined
+  renewable?: boolean | undefined
+  // epoch ms after which the token is renewed, unset for tokens without a TTL
+  refreshAt?: number | undefined
+}
+
+interface VaultAuthResponse {
+  auth?: { client_token?: string; lease_duration?: number; renewable?: boolean }
+}
+
+interface VaultTokenLookupResponse {
+  data?: { ttl?: number; renewable?: boolean }
+}
+
+const AUTH_METHOD_NAMES: Record<LoginMethod, string> = { approle: 'AppRole', kubernetes: 'Kubernetes', jwt: 'JWT' }
+const KUBERNETES_TOKEN_PATH = '/var/run/secrets/kubernetes.io/serviceaccount/token'
+
 export class VaultClient {
   private readonly address: string
   private readonly role: string | undefined
+  private readonly namespace: string | undefined
+  private readonly kvVersion: 1 | 2
+  private readonly auth: VaultAuthOptions | undefined
   private readonly env: Record<string, string | undefined>
   private readonly cache = new Map<string, Record<string, unknown>>()
-  private tokenPromise: Promise<string> | null = null
+  private readonly dynamicSecrets = new Map<string, Promise<Record<string, unknown>>>()
+  private readonly leases: { leaseId: string; path: string }[] = []
+  // writes merge into the secret they read, so writes to one path run one at a time
+  private readonly writeLocks = new Map<string, Mutex>()
+  private tokenPromise: Promise<VaultToken> | null = null
 
   constructor(address: string, options?: VaultClientOptions) {
     this.address = address.replace(/\/+$/, '')
     this.role = options?.role
+    this.namespace = options?.namespace
+    this.kvVersion = options?.kvVersion ?? 2
+    this.auth = options?.auth
     this.env = options?.env ?? process.env
   }
 
   async getSecret(path: string, field: string): Promise<string> {
     logger.debug(`[vault] reading ${path}#${field}...`)
-    const data = await this.fetchSecret(path)
-    const value = data[field]
-    if (value === undefined) {
-      throw new UserError(
-        `Vault secret at '${path}' does not contain field '${field}'. Available fields: ${Object.keys(data).join(', ')}`,
-      )
-    }
-    if (typeof value !== 'string') {
-      throw new UserError(`Vault secret field '${field}' at '${path}' is not a string`)
-    }
+    const value = pickField(path, await this.fetchSecret(path), field)
     logger.debug(`[vault] reading ${path}#${field}... OK`)
     return value
   }
 
+  /**
+   * A field of a dynamic secret, e.g. database credentials from `database/creds/<role>`. Each path is read
+   * once per run, so its fields belong to the same credentials, and the lease is recorded for revokeLeases.
+   */
+  async getDynamicSecret(path: string, field: string): Promise<string> {
+    logger.debug(`[vault] reading dynamic secret ${path}#${field}...`)
+    let secret = this.dynamicSecrets.get(path)
+    if (!secret) {
+      secret = this.fetchDynamicSecret(path)
+      this.dynamicSecrets.set(path, secret)
+      // a failed read is not kept, so the next reference reads the path again
+      secret.catch(() => this.dynamicSecrets.delete(path))
+    }
+    const value = pickField(path, await secret, field)
+    logger.debug(`[vault] reading dynamic secret ${path}#${field}... OK`)
+    return value
+  }
+
+  /**
+   * Writes `values` into the KV secret at `path`, keeping its other fields. Returns false without writing
+   * when the secret already holds these values.
+   */
+  async writeSecret(path: string, values: Record<string, string>): Promise<boolean> {
+    let lock = this.writeLocks.get(path)
+    if (!lock) {
+      lock = new Mutex()
+      this.writeLocks.set(path, lock)
+    }
+    const unlock = await lock.lock()
+    try {
+      return await this.mergeSecret(path, values)
+    } finally {
+      unlock()
+    }
+  }
+
+  private async mergeSecret(path: string, values: Record<string, string>): Promise<boolean> {
+    const current = (await this.readKv(path, { allowMissing: true })) ?? {}
+    if (Object.entries(values).every(([key, value]) => current[key] === value)) {
+      logger.debug(`[vault] ${path} is up to date`)
+      return false
+    }
+
+    logger.debug(`[vault] writing ${path}...`)
+    const data = { ...current, ...values }
+    const response = await this.request(path, this.kvVersion === 1 ? data : { data })
+    if (response.status === 403) {
+      throw new UserError(`Vault access denied for writing '${path}'. Check your token permissions`)
+    }
+    if (!response.ok) {
+      throw new UserError(`Vault write failed for '${path}': HTTP ${response.status}`)
+    }
+    this.cache.set(path, data)
+    logger.debug(`[vault] writing ${path}... OK`)
+    return true
+  }
+
+  // revokes the leases of the dynamic secrets read so far; failures are reported but do not throw
+  async revokeLeases(): Promise<void> {
+    const leases = this.leases.splice(0)
+    this.dynamicSecrets.clear()
+    for (const { leaseId, path } of leases) {
+      logger.debug(`[vault] revoking lease ${leaseId}...`)
+      try {
+        const response = await this.request('sys/leases/revoke', { lease_id: leaseId })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        logger.debug(`[vault] revoking lease ${leaseId}... OK`)
+      } catch (error) {
+        logger.warn(
+          `Cannot revoke Vault lease '${leaseId}' of '${path}': ${(error as Error).message}. Revoke it with 'vault lease revoke ${leaseId}'`,
+        )
+      }
+    }
+  }
+
   private async fetchSecret(path: string): Promise<Record<string, unknown>> {
     const cached = this.cache.get(path)
     if (cached) return cached
 
-    const token = await this.resolveToken()
-    const url = `${this.address}/v1/${path}`
+    const data = (await this.readKv(path))!
+    this.cache.set(path, data)
+    return data
+  }
 
-    let response: Response
-    try {
-      response = await fetch(url, {
-        headers: {
-          'X-Vault-Token': token,
-        },
-      })
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error)
-      throw new UserError(`Cannot connect to Vault at ${this.address}: ${msg}`)
+  private async readKv(path: string, options?: { allowMissing?: boolean }): Promise<Record<string, unknown> | null> {
+    const body = (await this.read(path, options)) as { data?: { data?: Record<string, unknown> } } | null
+    if (body === null) {
+      return null
+    }
+    const data = this.kvVersion === 1 ? body?.data : body?.data?.data
+    if (!data || typeof data !== 'object') {
+      throw new UserError(`Vault response at '${path}' has unexpected format (expected KV v${this.kvVersion} secret)`)
+    }
+    return data
+  }
+
+  private async fetchDynamicSecret(path: string): Promise<Record<string, unknown>> {
+    const body = (await this.read(path)) as { lease_id?: string; data?: Record<string, unknown> }
+    if (!body?.data || typeof body.data !== 'object') {
+      throw new UserError(`Vault response at '${path}' has unexpected format (expected a dynamic secret)`)
     }
+    if (body.lease_id) {
+      logger.debug(`[vault] recorded lease ${body.lease_id}`)
+      this.leases.push({ leaseId: body.lease_id, path })
+    }
+    return body.data
+  }
 
+  // the response body, or null for a missing secret with `allowMissing`
+  private async read(path: string, options?: { allowMissing?: boolean | undefined }): Promise<unknown> {
+    const response = await this.request(path)
+    if (response.status === 404 && options?.allowMissing) {
+      return null
+    }
     if (response.status === 403) {
       throw new UserError(`Vault access denied for path '${path}'. Check your token permissions`)
     }
@@ -66,30 +204,95 @@ export class VaultClient {
     if (!response.ok) {
       throw new UserError(`Vault request failed for '${path}': HTTP ${response.status}`)
     }
+    return response.json()
+  }
 
-    const body = (await response.json()) as { data?: { data?: Record<string, unknown> } }
-    const data = body?.data?.data
-    if (!data || typeof data !== 'object') {
-      throw new UserError(`Vault response at '${path}' has unexpected format (expected KV v2 secret)`)
+  // reads `path`, or writes `body` to it, with the current token
+  private async request(path: string, body?: unknown): Promise<Response> {
+    let token = await this.getToken()
+    let response = await this.send(path, { token: token.token, body })
+    // a token from a login may have been revoked or outlived its max TTL; log in again once
+    if (response.status === 403 && token.method) {
+      logger.debug(`[vault] access denied for ${path}, logging in again...`)
+      token = await this.replaceToken(token, () => this.login(token.method!))
+      response = await this.send(path, { token: token.token, body })
     }
+    return response
+  }
 
-    this.cache.set(path, data)
-    return data
+  private async send(path: string, init: { token?: string; body?: unknown }): Promise<Response> {
+    const headers: Record<string, string> = {}
+    if (init.token) headers['X-Vault-Token'] = init.token
+    if (this.namespace) headers['X-Vault-Namespace'] = this.namespace
+    if (init.body !== undefined) headers['Content-Type'] = 'application/json'
+
+    try {
+      return await fetch(
+        `${this.address}/v1/${path}`,
+        init.body === undefined ? { headers } : { method: 'POST', headers, body: JSON.stringify(init.body) },
+      )
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error)
+      throw new UserError(`Cannot connect to Vault at ${this.address}: ${msg}`)
+    }
   }
 
-  private resolveToken(): Promise<string> {
+  /**
+   * The current token. Tokens with a TTL are renewed once two thirds of it have passed; tokens from a login
+   * are replaced by a new login when they cannot be renewed, so long runs keep a valid token.
+   */
+  private async getToken(): Promise<VaultToken> {
     if (!this.tokenPromise) {
       this.tokenPromise = this.doResolveToken()
     }
-    return this.tokenPromise
+    const token = await this.tokenPromise
+    if (token.refreshAt === undefined || Date.now() < token.refreshAt) {
+      return token
+    }
+    return this.replaceToken(token, () => this.refreshToken(token))
   }
 
-  private async doResolveToken(): Promise<string> {
+  // replaces `current` unless a concurrent caller already did
+  private async replaceToken(current: VaultToken, next: () => Promise<VaultToken>): Promise<VaultToken> {
+    const latest = await this.tokenPromise
+    if (latest === current) {
+      this.tokenPromise = next()
+    }
+    return this.tokenPromise!
+  }
+
+  private async refreshToken(token: VaultToken): Promise<VaultToken> {
+    if (token.renewable) {
+      logger.debug('[vault] renewing token...')
+      const response = await this.send('auth/token/renew-self', { token: token.token, body: {} })
+      if (response.ok) {
+        const renewed = this.toToken((await response.json()) as VaultAuthResponse, token.method)
+        if (renewed) {
+          logger.debug('[vault] renewing token... OK')
+          return renewed
+        }
+      }
+      logger.debug(`[vault] token renewal failed (HTTP ${response.status})`)
+    }
+    if (!token.method) {
+      // a given token cannot be replaced, so it is used until it expires
+      logger.warn('[vault] the Vault token cannot be renewed and expires during the run')
+      return { ...token, refreshAt: undefined }
+    }
+    return this.login(token.method)
+  }
+
+  private async doResolveToken(): Promise<VaultToken> {
+    const method = this.auth?.method
+    if (method && method !== 'token') {
+      return this.login(method)
+    }
+
     // Priority 1: VAULT_TOKEN env var
     const envToken = this.env['VAULT_TOKEN']
     if (envToken) {
       logger.debug('[vault] authenticated via VAULT_TOKEN env var')
-      return envToken
+      return this.lookupToken(envToken)
     }
 
     // Priority 2: ~/.vault-token file
@@ -98,60 +301,123 @@ export class VaultClient {
       const token = (await readFile(tokenFile, 'utf-8')).trim()
       if (token) {
         logger.debug('[vault] authenticated via ~/.vault-token')
-        return token
+        return await this.lookupToken(token)
       }
     } catch {
       // file doesn't exist or is unreadable, try next method
     }
 
-    // Priority 3: JWT auth via VAULT_ID_TOKEN
-    const jwt = this.env['VAULT_ID_TOKEN']
-    if (jwt) {
-      logger.debug('[vault] authenticating via JWT (VAULT_ID_TOKEN)...')
-      const token = await this.authenticateJwt(jwt)
-      logger.debug('[vault] JWT authentication OK')
-      return token
+    // Priority 3: JWT auth via VAULT_ID_TOKEN, unless token auth is configured
+    if (!method && this.env['VAULT_ID_TOKEN']) {
+      return this.login('jwt')
     }
 
     throw new UserError(
-      'Vault authentication failed: no token found. Set VAULT_TOKEN, run `vault login`, or set VAULT_ID_TOKEN for JWT auth',
+      method === 'token'
+        ? 'Vault authentication failed: no token found. Set VAULT_TOKEN or run `vault login`'
+        : 'Vault authentication failed: no token found. Set VAULT_TOKEN, run `vault login`, or set VAULT_ID_TOKEN for JWT auth',
     )
   }
 
-  private async authenticateJwt(jwt: string): Promise<string> {
-    const role = this.role ?? this.env['VAULT_ROLE'] ?? this.env['VAULT_AUTH_ROLE']
+  // a token that was given rather than created by a login, with the TTL looked up so it is renewed like one
+  private async lookupToken(token: string): Promise<VaultToken> {
+    const response = await this.send('auth/token/lookup-self', { token })
+    if (!response.ok) {
+      // e.g. a policy without lookup-self; the token is then used as it is
+      logger.debug(`[vault] token lookup failed (HTTP ${response.status})`)
+      return { token }
+    }
+    const { data } = (await response.json()) as VaultTokenLookupResponse
+    const ttl = data?.ttl ?? 0
+    return { token, renewable: data?.renewable ?? false, refreshAt: refreshTime(ttl) }
+  }
+
+  private async login(method: LoginMethod): Promise<VaultToken> {
+    const name = AUTH_METHOD_NAMES[method]
+    logger.debug(`[vault] authenticating via ${name}...`)
+    const mount =
+      this.auth?.mount ??
+      (method === 'jwt' ? (this.env['VAULT_AUTH_MOUNT'] ?? this.env['VAULT_AUTH_PATH']) : undefined) ??
+      method
+
+    const response = await this.send(`auth/${mount}/login`, { body: await this.loginBody(method) })
+    if (!response.ok) {
+      const body = await response.text()
+      throw new UserError(`Vault ${name} authentication failed (HTTP ${response.status}): ${body}`)
+    }
+
+    const token = this.toToken((await response.json()) as VaultAuthResponse, method)
+    if (!token) {
+      throw new UserError(`Vault ${name} authentication response missing client_token`)
+    }
+    logger.debug(`[vault] ${name} authentication OK`)
+    return token
+  }
+
+  private async loginBody(method: LoginMethod): Promise<Record<string, string>> {
+    if (method === 'approle') {
+      const roleId = this.auth?.roleId ?? this.env['VAULT_ROLE_ID']
+      const secretId = this.env['VAULT_SECRET_ID']
+      if (!roleId || !secretId) {
+        throw new UserError(
+          "Vault AppRole auth requires a role id and a secret id. Set 'auth.role_id' in vault config or VAULT_ROLE_ID, and VAULT_SECRET_ID",
+        )
+      }
+      return { role_id: roleId, secret_id: secretId }
+    }
+
+    const role = this.auth?.role ?? this.role ?? this.env['VAULT_ROLE'] ?? this.env['VAULT_AUTH_ROLE']
     if (!role) {
       throw new UserError(
-        "Vault JWT auth requires a role. Set 'role' in vault config or VAULT_ROLE environment variable",
+        `Vault ${AUTH_METHOD_NAMES[method]} auth requires a role. Set 'role' in vault config or VAULT_ROLE environment variable`,
       )
     }
 
-    const mount = this.env['VAULT_AUTH_MOUNT'] ?? this.env['VAULT_AUTH_PATH'] ?? 'jwt'
-    const url = `${this.address}/v1/auth/${mount}/login`
-
-    let response: Response
-    try {
-      response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role, jwt }),
-      })
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error)
-      throw new UserError(`Vault JWT authentication failed: cannot connect to ${this.address}: ${msg}`)
+    if (method === 'kubernetes') {
+      const tokenPath = this.auth?.tokenPath ?? KUBERNETES_TOKEN_PATH
+      try {
+        return { role, jwt: (await readFile(tokenPath, 'utf-8')).trim() }
+      } catch (error) {
+        throw new UserError(
+          `Vault Kubernetes auth cannot read the service account token at '${tokenPath}': ${(error as Error).message}`,
+        )
+      }
     }
 
-    if (!response.ok) {
-      const body = await response.text()
-      throw new UserError(`Vault JWT authentication failed (HTTP ${response.status}): ${body}`)
+    const jwt = this.env['VAULT_ID_TOKEN']
+    if (!jwt) {
+      throw new UserError('Vault JWT auth requires a token. Set VAULT_ID_TOKEN')
     }
+    return { role, jwt }
+  }
 
-    const data = (await response.json()) as { auth?: { client_token?: string } }
-    const token = data?.auth?.client_token
-    if (!token) {
-      throw new UserError('Vault JWT authentication response missing client_token')
+  private toToken(response: VaultAuthResponse, method: LoginMethod | undefined): VaultToken | null {
+    const token = response?.auth?.client_token
+    if (!token) return null
+    const ttl = response.auth?.lease_duration ?? 0
+    return {
+      token,
+      method,
+      renewable: response.auth?.renewable ?? false,
+      refreshAt: refreshTime(ttl),
     }
+  }
+}
 
-    return token
+// epoch ms after which a token with `ttl` seconds left is renewed, or undefined for tokens without a TTL
+function refreshTime(ttl: number): number | undefined {
+  return ttl > 0 ? Date.now() + (ttl * 1000 * 2) / 3 : undefined
+}
+
+function pickField(path: string, data: Record<string, unknown>, field: string): string {
+  const value = data[field]
+  if (value === undefined) {
+    throw new UserError(
+      `Vault secret at '${path}' does not contain field '${field}'. Available fields: ${Object.keys(data).join(', ')}`,
+    )
+  }
+  if (typeof value !== 'string') {
+    throw new UserError(`Vault secret field '${field}' at '${path}' is not a string`)
   }
+  return value
 }